@@ -0,0 +1,21 @@
+import { INestApplication } from '@nestjs/common';
+import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import { VideoModule } from './video/video.module';
+
+/**
+ * OpenAPI 3 document for /api/videos, generated from the controller and DTO decorators.
+ * Served as an interactive UI at /api/docs and as JSON at /api/docs/openapi.json.
+ */
+export function setupApiDocs(app: INestApplication) {
+  const config = new DocumentBuilder()
+    .setTitle('Sora Proxy API')
+    .setDescription(
+      'Video generation proxy for OpenAI and Azure OpenAI. Pick the backend with `x-provider` '
+      + '(plus `x-azure-*` for Azure) and authenticate with `x-api-key`: an upstream key, or a proxy-issued `spk_...` key.',
+    )
+    .setVersion('1.0')
+    .addApiKey({ type: 'apiKey', in: 'header', name: 'x-api-key' }, 'api-key')
+    .build();
+  const document = SwaggerModule.createDocument(app, config, { include: [VideoModule] });
+  SwaggerModule.setup('api/docs', app, document, { jsonDocumentUrl: 'api/docs/openapi.json' });
+}
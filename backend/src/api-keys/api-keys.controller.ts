@@ -0,0 +1,54 @@
+import { Body, Controller, Delete, Get, Param, Post, Query } from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto, ListApiKeysQueryDto } from './dto/api-keys.dto';
+import { AdminRoute } from './decorators/admin-route.decorator';
+
+@Controller('api/admin/keys')
+@AdminRoute()
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  /**
+   * Issue a new key; the token is only returned in this response
+   * POST /api/admin/keys
+   */
+  @Post()
+  createKey(@Body() dto: CreateApiKeyDto) {
+    return this.apiKeysService.create(dto);
+  }
+
+  /**
+   * List keys with their current-month usage
+   * GET /api/admin/keys?owner=&status=
+   */
+  @Get()
+  listKeys(@Query() query: ListApiKeysQueryDto) {
+    return this.apiKeysService.list(query);
+  }
+
+  /**
+   * GET /api/admin/keys/:id
+   */
+  @Get(':id')
+  getKey(@Param('id') id: string) {
+    return this.apiKeysService.get(id);
+  }
+
+  /**
+   * Issue a new token for an existing key, invalidating the old one
+   * POST /api/admin/keys/:id/rotate
+   */
+  @Post(':id/rotate')
+  rotateKey(@Param('id') id: string) {
+    return this.apiKeysService.rotate(id);
+  }
+
+  /**
+   * Revoke a key permanently
+   * DELETE /api/admin/keys/:id
+   */
+  @Delete(':id')
+  revokeKey(@Param('id') id: string) {
+    return this.apiKeysService.revoke(id);
+  }
+}
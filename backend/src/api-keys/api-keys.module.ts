@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+import { AdminTokenGuard } from './guards/admin-token.guard';
+import { ProxyKeyGuard } from './guards/proxy-key.guard';
+
+@Module({
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService, AdminTokenGuard, { provide: APP_GUARD, useClass: ProxyKeyGuard }],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
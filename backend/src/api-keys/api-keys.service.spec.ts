@@ -0,0 +1,72 @@
+import { ForbiddenException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApiKeysService } from './api-keys.service';
+
+describe('ApiKeysService', () => {
+  let dataDir: string;
+  let service: ApiKeysService;
+
+  const issue = (allowedProfiles?: string[]) => service.create({ name: 'team', owner: 'owner@example.com', allowedProfiles }).token;
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sora-proxy-keys-'));
+    service = new ApiKeysService(new ConfigService({ DATA_DIR: dataDir, ADMIN_TOKEN: 'admin-secret' }));
+  });
+
+  afterEach(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+  describe('assertProfileAllowed', () => {
+    it('denies every profile to a proxy key without allowedProfiles', () => {
+      const token = issue();
+      expect(() => service.assertProfileAllowed(token, 'azure-eastus', true)).toThrow(ForbiddenException);
+      expect(() => service.assertProfileAllowed(token, 'openai-plain', false)).toThrow(ForbiddenException);
+
+      const empty = issue([]);
+      expect(() => service.assertProfileAllowed(empty, 'azure-eastus', true)).toThrow(ForbiddenException);
+    });
+
+    it('allows a proxy key only the profiles it lists', () => {
+      const token = issue(['azure-eastus']);
+      expect(() => service.assertProfileAllowed(token, 'azure-eastus', true)).not.toThrow();
+      expect(() => service.assertProfileAllowed(token, 'azure-westus', true)).toThrow(ForbiddenException);
+    });
+
+    it("allows every profile to a proxy key listing '*'", () => {
+      const token = issue(['*']);
+      expect(() => service.assertProfileAllowed(token, 'azure-eastus', true)).not.toThrow();
+      expect(() => service.assertProfileAllowed(token, 'azure-westus', false)).not.toThrow();
+    });
+
+    it('keeps server credentials away from callers without a proxy key', () => {
+      expect(() => service.assertProfileAllowed('sk-caller', 'azure-eastus', true)).toThrow(ForbiddenException);
+      expect(() => service.assertProfileAllowed(undefined, 'azure-eastus', true)).toThrow(ForbiddenException);
+      expect(() => service.assertProfileAllowed('sk-caller', 'openai-plain', false)).not.toThrow();
+    });
+  });
+
+  describe('admissionPriority', () => {
+    it('treats high as normal for callers that may not jump the queue', () => {
+      const token = service.create({ name: 'team', owner: 'owner@example.com' }).token;
+      expect(service.admissionPriority(token, 'high')).toBe('normal');
+      expect(service.admissionPriority('sk-caller', 'HIGH')).toBe('normal');
+      expect(service.admissionPriority(undefined, 'high', 'Bearer wrong')).toBe('normal');
+    });
+
+    it('keeps high for proxy keys with allowHighPriority and for the admin token', () => {
+      const token = service.create({ name: 'ops', owner: 'owner@example.com', allowHighPriority: true }).token;
+      expect(service.admissionPriority(token, 'high')).toBe('high');
+      expect(service.admissionPriority(undefined, 'high', 'Bearer admin-secret')).toBe('high');
+    });
+
+    it('passes other values through', () => {
+      expect(service.admissionPriority('sk-caller', 'low')).toBe('low');
+      expect(service.admissionPriority('sk-caller', undefined)).toBeUndefined();
+      expect(service.admissionPriority('sk-caller', 'urgent')).toBe('urgent');
+    });
+  });
+});
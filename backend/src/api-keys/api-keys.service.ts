@@ -0,0 +1,332 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { JsonFileStore, resolveDataFile } from '../common/json-file-store';
+import { proxyKeyIdFromToken } from '../common/caller-id';
+import { credentialEnvName, resolveCredential } from '../common/credentials';
+import { ProxyApiKey, ProxyApiKeyUsage, QuotaReservation } from './interfaces/proxy-api-key.interface';
+import { CreateApiKeyDto, ListApiKeysQueryDto } from './dto/api-keys.dto';
+import { adminTokenMatches } from './guards/admin-token.guard';
+
+// Upstream default when a create request does not specify a duration
+const DEFAULT_VIDEO_SECONDS = 4;
+
+export type ProxyApiKeyView = Omit<ProxyApiKey, 'tokenHash'>;
+
+/**
+ * Keys minted by the proxy. Callers present `spk_...` tokens; the upstream secret a key maps to
+ * stays in server configuration (UPSTREAM_CREDENTIAL_<NAME>) and never reaches the browser.
+ * Each key can be limited to providers/models and carries monthly video and seconds quotas.
+ */
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+  private readonly store: JsonFileStore<ProxyApiKey>;
+  readonly proxyKeysRequired: boolean;
+
+  constructor(private readonly configService: ConfigService) {
+    this.store = new JsonFileStore<ProxyApiKey>(resolveDataFile(this.configService, 'api-keys.json'));
+    this.proxyKeysRequired = this.configService.get<string>('REQUIRE_PROXY_KEYS') === 'true';
+  }
+
+  static isProxyToken(apiKey?: string): boolean {
+    return !!apiKey && apiKey.startsWith('spk_');
+  }
+
+  /**
+   * Whether a request's Authorization header carries the admin token, for routes that serve
+   * callers and admins alike
+   */
+  isAdmin(authorization?: string): boolean {
+    return adminTokenMatches(this.configService.get<string>('ADMIN_TOKEN'), authorization);
+  }
+
+  /**
+   * Admission priority a create runs with. `high` jumps a queue shared with other callers, so
+   * it is kept only for proxy keys with allowHighPriority and for admins; anyone else gets normal.
+   * Other values pass through for the admission queue to validate.
+   */
+  admissionPriority(apiKey: string | undefined, requested: string | undefined, authorization?: string): string | undefined {
+    if (requested?.toLowerCase() !== 'high' || this.isAdmin(authorization)) return requested;
+    if (ApiKeysService.isProxyToken(apiKey) && this.authenticate(apiKey).allowHighPriority) return requested;
+    return 'normal';
+  }
+
+  create(dto: CreateApiKeyDto) {
+    const credentials = dto.credentials || {};
+    for (const [provider, name] of Object.entries(credentials)) {
+      if (typeof name !== 'string' || !resolveCredential(this.configService, name)) {
+        throw new BadRequestException(
+          `Credential '${name}' for provider '${provider}' is not configured (expected ${credentialEnvName(String(name))})`,
+        );
+      }
+    }
+    const hex = randomBytes(6).toString('hex');
+    const token = this.newToken(hex);
+    const now = new Date().toISOString();
+    const record = this.store.upsert({
+      id: `pk_${hex}`,
+      name: dto.name,
+      owner: dto.owner,
+      prefix: token.slice(0, 20),
+      tokenHash: hashToken(token),
+      credentials,
+      allowedProviders: dto.allowedProviders || [],
+      allowedModels: dto.allowedModels || [],
+      allowedProfiles: dto.allowedProfiles || [],
+      allowHighPriority: dto.allowHighPriority ?? false,
+      monthlyVideoQuota: dto.monthlyVideoQuota,
+      monthlySecondsQuota: dto.monthlySecondsQuota,
+      usage: { period: currentPeriod(), videos: 0, seconds: 0 },
+      status: 'active',
+      createdAt: now,
+      updatedAt: now,
+    });
+    this.logger.log(`Issued API key ${record.id} (${record.name}) for ${record.owner}`);
+    return { key: this.toView(record), token };
+  }
+
+  list(query: ListApiKeysQueryDto) {
+    const data = this.store
+      .values()
+      .filter((k) => (!query.owner || k.owner === query.owner) && (!query.status || k.status === query.status))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((k) => this.toView(k));
+    return { object: 'list', data };
+  }
+
+  get(id: string): ProxyApiKeyView {
+    return this.toView(this.find(id));
+  }
+
+  /**
+   * Team (owner) a proxy key record belongs to; undefined for unknown ids and raw upstream callers
+   */
+  ownerOf(id: string): string | undefined {
+    return this.store.get(id)?.owner;
+  }
+
+  /**
+   * Replace the token of a key; the old token stops working immediately, jobs and usage are kept
+   */
+  rotate(id: string) {
+    const record = this.find(id);
+    if (record.status === 'revoked') {
+      throw new BadRequestException(`API key '${id}' is revoked and cannot be rotated`);
+    }
+    const token = this.newToken(id.slice('pk_'.length));
+    const now = new Date().toISOString();
+    const updated = this.store.upsert({
+      ...record,
+      prefix: token.slice(0, 20),
+      tokenHash: hashToken(token),
+      rotatedAt: now,
+      updatedAt: now,
+    });
+    this.logger.log(`Rotated API key ${id}`);
+    return { key: this.toView(updated), token };
+  }
+
+  revoke(id: string): ProxyApiKeyView {
+    const record = this.find(id);
+    if (record.status === 'revoked') return this.toView(record);
+    const now = new Date().toISOString();
+    this.logger.log(`Revoked API key ${id}`);
+    return this.toView(this.store.upsert({ ...record, status: 'revoked', revokedAt: now, updatedAt: now }));
+  }
+
+  /**
+   * Resolve a presented `spk_...` token to its active key record
+   */
+  authenticate(token: string): ProxyApiKey {
+    const id = proxyKeyIdFromToken(token);
+    const record = id ? this.store.get(id) : undefined;
+    if (!record || !sameHash(record.tokenHash, hashToken(token))) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    if (record.status !== 'active') {
+      throw new UnauthorizedException('API key has been revoked');
+    }
+    return record;
+  }
+
+  /**
+   * Upstream credential to use for a request. Raw upstream keys pass through unchanged;
+   * proxy keys map to their configured credential, or undefined for the server default.
+   */
+  upstreamKeyFor(apiKey: string | undefined, provider: string): string | undefined {
+    if (!ApiKeysService.isProxyToken(apiKey)) return apiKey;
+    return this.credentialFor(this.authenticate(apiKey), provider);
+  }
+
+  /**
+   * Refuse a provider profile the caller may not use. A profile's server credential is only
+   * lent to proxy keys, and a proxy key only gets the profiles in its allowedProfiles ('*' for
+   * all); a key without any may not select profiles at all.
+   */
+  assertProfileAllowed(apiKey: string | undefined, profile: string, usesServerCredential: boolean) {
+    if (!ApiKeysService.isProxyToken(apiKey)) {
+      if (usesServerCredential) {
+        throw new ForbiddenException(`Provider profile '${profile}' runs on a server credential and requires a proxy-issued API key`);
+      }
+      return;
+    }
+    const record = this.authenticate(apiKey);
+    const allowed = record.allowedProfiles ?? [];
+    if (!allowed.includes('*') && !allowed.includes(profile)) {
+      throw new ForbiddenException(`API key '${record.name}' is not allowed to use provider profile '${profile}'`);
+    }
+  }
+
+  /**
+   * Upstream credential for a key identified by record id, for flows that authenticated the
+   * caller earlier (e.g. signed download links) and no longer hold the token
+   */
+  upstreamKeyForKeyId(id: string, provider: string): string | undefined {
+    const record = this.store.get(id);
+    if (!record || record.status !== 'active') {
+      throw new UnauthorizedException('API key has been revoked');
+    }
+    return this.credentialFor(record, provider);
+  }
+
+  private credentialFor(record: ProxyApiKey, provider: string): string | undefined {
+    this.assertAllowed(record, provider);
+    const credentialName = record.credentials?.[provider];
+    if (!credentialName) return undefined;
+    const credential = resolveCredential(this.configService, credentialName);
+    if (!credential) {
+      this.logger.error(`API key ${record.id} maps ${provider} to missing credential ${credentialEnvName(credentialName)}`);
+      throw new InternalServerErrorException(`Upstream credential for provider '${provider}' is not configured`);
+    }
+    return credential;
+  }
+
+  /**
+   * Check allow-lists and hold quota for one new video before it is submitted upstream.
+   * Returns undefined for callers that are not using a proxy key.
+   */
+  reserve(apiKey: string | undefined, provider: string, model?: string, seconds?: number): QuotaReservation | undefined {
+    if (!ApiKeysService.isProxyToken(apiKey)) return undefined;
+    const record = this.authenticate(apiKey);
+    this.assertAllowed(record, provider, model);
+
+    const usage = this.currentUsage(record);
+    const requestedSeconds = seconds ?? 0;
+    if (record.monthlyVideoQuota != null && usage.videos + 1 > record.monthlyVideoQuota) {
+      throw new HttpException(
+        `Monthly video quota of ${record.monthlyVideoQuota} exhausted for API key '${record.name}'`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    if (record.monthlySecondsQuota != null && usage.seconds + requestedSeconds > record.monthlySecondsQuota) {
+      throw new HttpException(
+        `Monthly quota of ${record.monthlySecondsQuota} seconds exhausted for API key '${record.name}' (${usage.seconds} used)`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    const now = new Date().toISOString();
+    this.store.upsert({
+      ...record,
+      usage: { ...usage, videos: usage.videos + 1, seconds: usage.seconds + requestedSeconds },
+      lastUsedAt: now,
+      updatedAt: now,
+    });
+    return { keyId: record.id, period: usage.period, videos: 1, seconds: requestedSeconds };
+  }
+
+  /**
+   * Settle a reservation once upstream accepted the job, correcting seconds to what it reports
+   */
+  commit(reservation: QuotaReservation | undefined, actualSeconds?: number) {
+    if (!reservation || !Number.isFinite(actualSeconds)) return;
+    this.adjust(reservation, 0, actualSeconds - reservation.seconds);
+  }
+
+  /**
+   * Give back a reservation whose upstream call failed
+   */
+  release(reservation: QuotaReservation | undefined) {
+    if (!reservation) return;
+    this.adjust(reservation, -reservation.videos, -reservation.seconds);
+  }
+
+  /**
+   * Seconds charged for a create request when the caller leaves the duration to upstream
+   */
+  static requestedSeconds(duration?: number | string): number {
+    const seconds = Number(duration);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_VIDEO_SECONDS;
+  }
+
+  private adjust(reservation: QuotaReservation, videos: number, seconds: number) {
+    const record = this.store.get(reservation.keyId);
+    if (!record || record.usage.period !== reservation.period) return;
+    if (videos === 0 && seconds === 0) return;
+    this.store.upsert({
+      ...record,
+      usage: {
+        ...record.usage,
+        videos: Math.max(0, record.usage.videos + videos),
+        seconds: Math.max(0, record.usage.seconds + seconds),
+      },
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  private assertAllowed(record: ProxyApiKey, provider: string, model?: string) {
+    if (record.allowedProviders.length && !record.allowedProviders.includes(provider)) {
+      throw new ForbiddenException(`API key '${record.name}' is not allowed to use provider '${provider}'`);
+    }
+    if (model && record.allowedModels.length && !record.allowedModels.includes(model)) {
+      throw new ForbiddenException(`API key '${record.name}' is not allowed to use model '${model}'`);
+    }
+  }
+
+  private currentUsage(record: ProxyApiKey): ProxyApiKeyUsage {
+    const period = currentPeriod();
+    return record.usage?.period === period ? record.usage : { period, videos: 0, seconds: 0 };
+  }
+
+  private find(id: string): ProxyApiKey {
+    const record = this.store.get(id);
+    if (!record) {
+      throw new NotFoundException(`API key '${id}' not found`);
+    }
+    return record;
+  }
+
+  private newToken(hex: string): string {
+    return `spk_${hex}_${randomBytes(24).toString('base64url')}`;
+  }
+
+  private toView(record: ProxyApiKey): ProxyApiKeyView {
+    const view: Partial<ProxyApiKey> = { ...record, usage: this.currentUsage(record) };
+    delete view.tokenHash;
+    return view as ProxyApiKeyView;
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function sameHash(a: string, b: string): boolean {
+  const left = Buffer.from(a, 'hex');
+  const right = Buffer.from(b, 'hex');
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function currentPeriod(): string {
+  return new Date().toISOString().slice(0, 7);
+}
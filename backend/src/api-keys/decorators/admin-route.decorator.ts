@@ -0,0 +1,6 @@
+import { applyDecorators, UseGuards } from '@nestjs/common';
+import { AdminTokenGuard } from '../guards/admin-token.guard';
+import { SkipProxyKey } from './skip-proxy-key.decorator';
+
+// 管理接口：使用 ADMIN_TOKEN 鉴权，不经过代理 Key 校验
+export const AdminRoute = () => applyDecorators(SkipProxyKey(), UseGuards(AdminTokenGuard));
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const SKIP_PROXY_KEY = 'skipProxyKey';
+
+// 跳过代理 Key 校验：用于自带鉴权方式的路由（管理 Token、签名下载链接等）
+export const SkipProxyKey = () => SetMetadata(SKIP_PROXY_KEY, true);
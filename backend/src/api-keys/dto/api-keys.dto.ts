@@ -0,0 +1,60 @@
+import { IsString, IsOptional, IsIn, IsInt, Min, IsArray, IsObject, IsNotEmpty, IsBoolean } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreateApiKeyDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  owner: string;
+
+  // Provider name => credential name, resolved from UPSTREAM_CREDENTIAL_<NAME>
+  @IsOptional()
+  @IsObject()
+  credentials?: Record<string, string>;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allowedProviders?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allowedModels?: string[];
+
+  // Names of provider profiles the key may use; none when empty, '*' for every profile
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allowedProfiles?: string[];
+
+  // Whether creates may use `x-priority: high` in the admission queue
+  @IsOptional()
+  @IsBoolean()
+  allowHighPriority?: boolean;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  monthlyVideoQuota?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  monthlySecondsQuota?: number;
+}
+
+export class ListApiKeysQueryDto {
+  @IsOptional()
+  @IsString()
+  owner?: string;
+
+  @IsOptional()
+  @IsIn(['active', 'revoked'])
+  status?: 'active' | 'revoked';
+}
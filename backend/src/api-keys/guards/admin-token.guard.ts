@@ -0,0 +1,34 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Protects admin routes with `Authorization: Bearer <ADMIN_TOKEN>`.
+ * The admin API is disabled entirely while ADMIN_TOKEN is unset.
+ */
+@Injectable()
+export class AdminTokenGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const expected = this.configService.get<string>('ADMIN_TOKEN');
+    if (!expected) {
+      throw new ForbiddenException('Admin API is disabled; set ADMIN_TOKEN to enable it');
+    }
+    const header = context.switchToHttp().getRequest().headers['authorization'] as string | undefined;
+    if (!adminTokenMatches(expected, header)) {
+      throw new UnauthorizedException('Invalid admin token');
+    }
+    return true;
+  }
+}
+
+/**
+ * Whether an Authorization header carries `Bearer <ADMIN_TOKEN>`; never true while it is unset
+ */
+export function adminTokenMatches(expected: string | undefined, authorization?: string): boolean {
+  if (!expected) return false;
+  const provided = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : '';
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
@@ -0,0 +1,33 @@
+import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeysService } from '../api-keys.service';
+import { SKIP_PROXY_KEY } from '../decorators/skip-proxy-key.decorator';
+
+/**
+ * Global guard: rejects unknown or revoked `spk_...` tokens before any handler runs, and
+ * with REQUIRE_PROXY_KEYS=true rejects requests that do not present a proxy key at all.
+ */
+@Injectable()
+export class ProxyKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeysService: ApiKeysService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (context.getType() !== 'http') return true;
+    if (this.reflector.getAllAndOverride<boolean>(SKIP_PROXY_KEY, [context.getHandler(), context.getClass()])) {
+      return true;
+    }
+    const request = context.switchToHttp().getRequest();
+    const token = request.headers['x-api-key'] || request.headers['x-openai-key'];
+    if (ApiKeysService.isProxyToken(token)) {
+      request.proxyKey = this.apiKeysService.authenticate(token);
+      return true;
+    }
+    if (this.apiKeysService.proxyKeysRequired) {
+      throw new UnauthorizedException('A proxy-issued API key (x-api-key: spk_...) is required');
+    }
+    return true;
+  }
+}
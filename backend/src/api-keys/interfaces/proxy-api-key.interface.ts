@@ -0,0 +1,45 @@
+export interface ProxyApiKeyUsage {
+  // UTC month the counters belong to, e.g. '2026-10'
+  period: string;
+  videos: number;
+  seconds: number;
+}
+
+export interface ProxyApiKey {
+  id: string;
+  name: string;
+  owner: string;
+  // First characters of the current token, enough to recognise it in a list
+  prefix: string;
+  // sha256 of the current token; the token itself is only returned on create/rotate
+  tokenHash: string;
+  // Provider name => credential name (UPSTREAM_CREDENTIAL_<NAME>); unmapped providers use the server default
+  credentials: Record<string, string>;
+  // Empty means unrestricted
+  allowedProviders: string[];
+  allowedModels: string[];
+  // Provider profiles (x-provider-profile) the key may use, '*' for all; none when empty or
+  // absent (keys issued before profiles)
+  allowedProfiles?: string[];
+  // May jump the admission queue with `x-priority: high`; otherwise high is treated as normal
+  allowHighPriority?: boolean;
+  monthlyVideoQuota?: number;
+  monthlySecondsQuota?: number;
+  usage: ProxyApiKeyUsage;
+  status: 'active' | 'revoked';
+  createdAt: string;
+  updatedAt: string;
+  rotatedAt?: string;
+  revokedAt?: string;
+  lastUsedAt?: string;
+}
+
+/**
+ * Quota held for an in-flight create/remix; committed on success, released on failure
+ */
+export interface QuotaReservation {
+  keyId: string;
+  period: string;
+  videos: number;
+  seconds: number;
+}
@@ -1,6 +1,11 @@
-import { Module } from '@nestjs/common';
+import { Module, OnApplicationShutdown } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { LoggingModule } from './logging/logging.module';
 import { VideoModule } from './video/video.module';
+import { BatchesModule } from './batches/batches.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { HealthModule } from './health/health.module';
+import { JsonFileStore } from './common/json-file-store';
 
 @Module({
   imports: [
@@ -8,8 +13,18 @@ import { VideoModule } from './video/video.module';
       isGlobal: true,
       envFilePath: '../.env',
     }),
+    // First, so the request id is set before any other middleware runs
+    LoggingModule,
     VideoModule,
+    BatchesModule,
+    MetricsModule,
+    HealthModule,
   ],
 })
-export class AppModule {}
+export class AppModule implements OnApplicationShutdown {
+  // Stores batch their writes; put what is still pending on disk before the process goes away
+  onApplicationShutdown() {
+    JsonFileStore.flushAll();
+  }
+}
 
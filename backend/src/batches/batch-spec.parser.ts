@@ -0,0 +1,93 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Parse an uploaded batch file into raw generation specs (validated later like JSON items).
+ * JSONL has one spec object per line; CSV needs a header row with a `prompt` column and may
+ * add `model`, `size`, `duration` (or `seconds`) and `callbackUrl`.
+ */
+export function parseBatchFile(file: Express.Multer.File): Record<string, unknown>[] {
+  const text = file.buffer.toString('utf8').replace(/^\uFEFF/, '');
+  const name = (file.originalname || '').toLowerCase();
+  const jsonl = /\.(jsonl|ndjson)$/.test(name)
+    || /(jsonl|ndjson)/.test(file.mimetype || '')
+    || (!name.endsWith('.csv') && text.trimStart().startsWith('{'));
+  return jsonl ? parseJsonLines(text) : parseCsvSpecs(text);
+}
+
+function parseJsonLines(text: string): Record<string, unknown>[] {
+  const specs: Record<string, unknown>[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new BadRequestException(`Line ${i + 1}: invalid JSON`);
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new BadRequestException(`Line ${i + 1}: expected a JSON object`);
+    }
+    specs.push(value as Record<string, unknown>);
+  });
+  return specs;
+}
+
+function parseCsvSpecs(text: string): Record<string, unknown>[] {
+  const rows = parseCsv(text).filter((row) => row.some((cell) => cell.trim()));
+  if (rows.length === 0) return [];
+  const header = rows[0].map((cell) => cell.trim());
+  if (!header.includes('prompt')) {
+    throw new BadRequestException("CSV header must include a 'prompt' column");
+  }
+  return rows.slice(1).map((row) => {
+    const spec: Record<string, unknown> = {};
+    header.forEach((column, i) => {
+      const value = row[i]?.trim();
+      if (!column || !value) return;
+      spec[column === 'seconds' ? 'duration' : column] = value;
+    });
+    return spec;
+  });
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields may contain commas, newlines and doubled quotes
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) throw new BadRequestException('CSV has an unterminated quoted field');
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
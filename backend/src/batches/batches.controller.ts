@@ -0,0 +1,75 @@
+import { Body, Controller, Get, Param, Post, Res, UploadedFile, UseInterceptors } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { BatchesService } from './batches.service';
+import { CreateBatchDto } from './dto/batches.dto';
+import { ApiKey } from '../video/decorators/api-key.decorator';
+import { ProviderOpts } from '../video/decorators/provider-options.decorator';
+import { ProviderOptions } from '../video/providers/video-provider.interface';
+
+@Controller('api/batches')
+export class BatchesController {
+  constructor(private readonly batchesService: BatchesService) {}
+
+  /**
+   * Create a batch from a JSON `items` array or a CSV/JSONL upload (multipart field 'file').
+   * Every item uses the provider selected by the request headers.
+   * POST /api/batches
+   */
+  @Post()
+  @UseInterceptors(FileInterceptor('file'))
+  createBatch(
+    @Body() dto: CreateBatchDto,
+    @UploadedFile() file?: Express.Multer.File,
+    @ProviderOpts() providerOpts?: ProviderOptions,
+    @ApiKey() apiKey?: string,
+  ) {
+    return this.batchesService.create(dto, file, apiKey, providerOpts);
+  }
+
+  /**
+   * List the caller's batches (without items), newest first
+   * GET /api/batches
+   */
+  @Get()
+  listBatches(@ApiKey() apiKey?: string) {
+    return this.batchesService.list(apiKey);
+  }
+
+  /**
+   * Batch status with per-item results
+   * GET /api/batches/:id
+   */
+  @Get(':id')
+  getBatch(@Param('id') id: string, @ApiKey() apiKey?: string) {
+    return this.batchesService.get(id, apiKey);
+  }
+
+  /**
+   * Cancel the items that have not been submitted yet
+   * POST /api/batches/:id/cancel
+   */
+  @Post(':id/cancel')
+  cancelBatch(@Param('id') id: string, @ApiKey() apiKey?: string) {
+    return this.batchesService.cancel(id, apiKey);
+  }
+
+  /**
+   * Zip of every finished video plus manifest.json
+   * GET /api/batches/:id/content
+   */
+  @Get(':id/content')
+  async downloadBatch(@Param('id') id: string, @Res() res: Response, @ApiKey() apiKey?: string) {
+    // Resolve (and 404) before any zip headers are set
+    this.batchesService.get(id, apiKey);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${id}.zip"`);
+    res.setHeader('Cache-Control', 'no-store');
+    try {
+      await this.batchesService.writeZip(id, res, apiKey);
+    } catch {
+      // Headers are already out; cut the connection so the client sees a truncated download
+      res.destroy();
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { JobsModule } from '../jobs/jobs.module';
+import { VideoModule } from '../video/video.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { BatchesController } from './batches.controller';
+import { BatchesService } from './batches.service';
+
+@Module({
+  imports: [JobsModule, VideoModule, MetricsModule],
+  controllers: [BatchesController],
+  providers: [BatchesService],
+})
+export class BatchesModule {}
@@ -0,0 +1,442 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { randomBytes } from 'crypto';
+import { Subscription } from 'rxjs';
+import { Readable, Writable } from 'stream';
+import archiver from 'archiver';
+import { JsonFileStore, resolveDataFile } from '../common/json-file-store';
+import { callerIdFromApiKey } from '../common/caller-id';
+import { JobsService } from '../jobs/jobs.service';
+import { JobEvent, JobStatus } from '../jobs/interfaces/video-job.interface';
+import { VideoService } from '../video/video.service';
+import { AdmissionQueue } from '../video/admission-queue';
+import { MetricsService } from '../metrics/metrics.service';
+import { GenerateVideoDto } from '../video/dto/video.dto';
+import { ProviderOptions, UpstreamVideo } from '../video/providers/video-provider.interface';
+import { AUTO_PROVIDER, VideoProviderRegistry } from '../video/providers/video-provider.registry';
+import { Batch, BatchItem, BatchItemStatus } from './interfaces/batch.interface';
+import { CreateBatchDto } from './dto/batches.dto';
+import { parseBatchFile } from './batch-spec.parser';
+
+const ITEM_STATUSES: BatchItemStatus[] = ['pending', 'submitting', 'queued', 'in_progress', 'completed', 'failed', 'cancelled'];
+
+/**
+ * Server-side batch generation. Items are submitted in the background, oldest batch first,
+ * while no more than BATCH_MAX_IN_FLIGHT_PER_PROVIDER batch jobs (or BATCH_MAX_IN_FLIGHT_<PROVIDER>)
+ * are queued or rendering on that provider; items of an auto batch each go to the first backend
+ * of the routing order with a free slot. Item statuses then follow the job registry.
+ * The caller's API key is held in memory until every item has been submitted.
+ */
+@Injectable()
+export class BatchesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(BatchesService.name);
+  private readonly store: JsonFileStore<Batch>;
+  private readonly maxItems: number;
+  private readonly tickMs: number;
+  // Caller-supplied API keys are held in memory only, never written to the store
+  private readonly credentials = new Map<string, string>();
+  // videoId => batch id, for routing job events
+  private readonly itemIndex = new Map<string, string>();
+  private subscription?: Subscription;
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jobsService: JobsService,
+    private readonly videoService: VideoService,
+    private readonly metricsService: MetricsService,
+    private readonly providerRegistry: VideoProviderRegistry,
+  ) {
+    this.store = new JsonFileStore<Batch>(resolveDataFile(this.configService, 'batches.json'));
+    this.maxItems = Number(this.configService.get<string>('BATCH_MAX_ITEMS')) || 500;
+    this.tickMs = Number(this.configService.get<string>('BATCH_TICK_MS')) || 2000;
+  }
+
+  onModuleInit() {
+    for (const batch of this.store.values()) {
+      for (const item of batch.items) {
+        if (item.videoId) this.itemIndex.set(item.videoId, batch.id);
+      }
+      if (batch.status === 'in_progress') this.recoverAfterRestart(batch);
+    }
+    this.subscription = this.jobsService.events$.subscribe((event) => this.onJobEvent(event));
+    this.metricsService.gauge('batch_items_pending', 'Batch items not submitted upstream yet, by provider', ['provider'], (gauge) => {
+      for (const batch of this.store.values()) {
+        if (batch.status !== 'in_progress') continue;
+        const waiting = batch.items.filter((item) => item.status === 'pending' || item.status === 'submitting').length;
+        if (waiting) gauge.inc({ provider: batch.provider }, waiting);
+      }
+    });
+    this.schedule();
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  create(dto: CreateBatchDto, file: Express.Multer.File | undefined, userApiKey?: string, providerOpts?: ProviderOptions) {
+    if (!!file === !!dto.items) {
+      throw new BadRequestException("Provide either an 'items' array or a CSV/JSONL upload in field 'file'");
+    }
+    const specs = file ? this.validateSpecs(parseBatchFile(file)) : dto.items;
+    if (specs.length === 0) {
+      throw new BadRequestException('A batch needs at least one item');
+    }
+    if (specs.length > this.maxItems) {
+      throw new BadRequestException(`A batch may hold at most ${this.maxItems} items`);
+    }
+
+    const now = new Date().toISOString();
+    const batch: Batch = {
+      id: `batch_${randomBytes(8).toString('hex')}`,
+      name: dto.name,
+      caller: callerIdFromApiKey(userApiKey),
+      // Also rejects an unknown provider or profile up front; auto batches pick per item
+      provider: VideoProviderRegistry.isAuto(providerOpts) ? AUTO_PROVIDER : this.providerRegistry.resolve(providerOpts).name,
+      profile: providerOpts?.profile,
+      azureEndpoint: providerOpts?.azureEndpoint,
+      azureApiVersion: providerOpts?.azureApiVersion,
+      azureDeployment: providerOpts?.azureDeployment,
+      status: 'in_progress',
+      items: specs.map((spec, index) => ({
+        index,
+        spec: {
+          prompt: spec.prompt,
+          model: spec.model,
+          size: spec.size,
+          duration: spec.duration,
+          callbackUrl: spec.callbackUrl,
+        },
+        status: 'pending',
+      })),
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (userApiKey) this.credentials.set(batch.id, userApiKey);
+    this.store.upsert(batch);
+    this.logger.log(`Batch ${batch.id} created with ${batch.items.length} items on ${batch.provider}`);
+    setImmediate(() => this.tick().catch(() => undefined));
+    return this.toView(batch);
+  }
+
+  list(userApiKey?: string) {
+    const caller = callerIdFromApiKey(userApiKey);
+    const data = this.store
+      .values()
+      .filter((batch) => batch.caller === caller)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((batch) => this.toView(batch, false));
+    return { object: 'list', data };
+  }
+
+  get(id: string, userApiKey?: string) {
+    return this.toView(this.findOwned(id, userApiKey));
+  }
+
+  /**
+   * Drop every item that has not been submitted yet; jobs already upstream keep running
+   */
+  cancel(id: string, userApiKey?: string) {
+    const batch = this.findOwned(id, userApiKey);
+    if (batch.status !== 'in_progress') return this.toView(batch);
+    const now = new Date().toISOString();
+    for (const item of batch.items) {
+      if (item.status === 'pending') {
+        item.status = 'cancelled';
+        item.completedAt = now;
+      }
+    }
+    batch.status = 'cancelled';
+    batch.completedAt = now;
+    batch.updatedAt = now;
+    this.credentials.delete(batch.id);
+    this.store.upsert(batch);
+    this.logger.log(`Batch ${batch.id} cancelled`);
+    return this.toView(batch);
+  }
+
+  /**
+   * Stream a zip of every completed item's MP4 plus a manifest.json of all items into `out`
+   */
+  async writeZip(id: string, out: Writable, userApiKey?: string) {
+    const batch = this.findOwned(id, userApiKey);
+    const providerOpts = this.providerOptions(batch);
+    // MP4 is already compressed; storing keeps the zip cheap to build
+    const zip = archiver('zip', { store: true });
+    zip.on('warning', (error) => this.logger.warn(`Zip warning for ${batch.id}: ${error.message}`));
+    zip.on('error', (error) => {
+      this.logger.warn(`Zip of ${batch.id} aborted: ${error.message}`);
+      out.destroy();
+    });
+    zip.pipe(out);
+
+    const manifest: Record<string, unknown>[] = [];
+    for (const item of batch.items) {
+      const entry: Record<string, unknown> = { index: item.index, prompt: item.spec.prompt, status: item.status, videoId: item.videoId };
+      manifest.push(entry);
+      if (item.status !== 'completed' || !item.videoId) {
+        if (item.error) entry.error = item.error;
+        continue;
+      }
+      let stream: Readable;
+      try {
+        stream = await this.videoService.readVideo(item.videoId, userApiKey, providerOpts);
+      } catch (error) {
+        this.logger.warn(`Skipping ${item.videoId} in zip of ${batch.id}: ${error?.message || error}`);
+        entry.error = `Download failed: ${error?.message || 'Unknown error'}`;
+        continue;
+      }
+      const fileName = `${String(item.index + 1).padStart(3, '0')}-${item.videoId}.mp4`;
+      // One entry at a time, so only one download is open at once; a failure mid-entry aborts the zip
+      await new Promise<void>((resolve, reject) => {
+        zip.once('entry', () => resolve());
+        stream.once('error', reject);
+        zip.append(stream, { name: fileName });
+      });
+      entry.file = fileName;
+    }
+    zip.append(JSON.stringify({ id: batch.id, name: batch.name, items: manifest }, null, 2), { name: 'manifest.json' });
+    await zip.finalize();
+  }
+
+  /**
+   * Submit pending items while their provider has free slots. Public so tests can drive it without timers.
+   */
+  async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      const inFlight = this.countInFlight();
+      const batches = this.store
+        .values()
+        .filter((batch) => batch.status === 'in_progress')
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      // Providers that answered with a transient error sit out the rest of this tick
+      const backedOff = new Set<string>();
+      for (const batch of batches) {
+        for (const item of batch.items) {
+          if (item.status !== 'pending') continue;
+          // cancel() may have run while an earlier submit was awaited
+          if (batch.status !== 'in_progress') break;
+          const provider = this.providerWithSlot(batch, inFlight, backedOff);
+          if (!provider) break;
+          const submitted = await this.submit(batch, item, provider);
+          if (submitted) {
+            inFlight.set(provider, (inFlight.get(provider) ?? 0) + 1);
+          } else if (item.status === 'pending') {
+            backedOff.add(provider);
+          }
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Backend the next item of a batch goes to: the batch's own, or for an auto batch the first
+   * backend of the routing order that has a free slot and has not backed off this tick
+   */
+  private providerWithSlot(batch: Batch, inFlight: Map<string, number>, backedOff: Set<string>): string | undefined {
+    const providers = batch.provider === AUTO_PROVIDER
+      ? this.providerRegistry.candidates(this.providerOptions(batch)).map((candidate) => candidate.provider)
+      : [batch.provider];
+    return providers.find((provider) => !backedOff.has(provider) && (inFlight.get(provider) ?? 0) < this.maxInFlight(provider));
+  }
+
+  private async submit(batch: Batch, item: BatchItem, provider: string): Promise<boolean> {
+    const apiKey = this.credentials.get(batch.id);
+    item.status = 'submitting';
+    item.provider = provider;
+    this.touch(batch);
+    const dto = plainToInstance(GenerateVideoDto, { ...item.spec });
+    try {
+      // Auto batches submit each item to a concrete backend, so its slot is counted there
+      const video = await this.videoService.generateVideo(dto, apiKey, {
+        ...this.providerOptions(batch),
+        provider,
+        // Derived key lets the upstream retry policy resend the create safely
+        idempotencyKey: `${batch.id}-${item.index}`,
+        // Interactive requests go first when the upstream account is full
+        priority: 'low',
+      });
+      if (AdmissionQueue.isPendingId(String(video.id))) {
+        // Parked by the admission queue: the item stays 'submitting' until it reaches upstream
+        this.videoService.whenSubmitted(String(video.id)).then(
+          (created) => this.recordSubmitted(batch, item, created),
+          (error) => {
+            item.status = 'failed';
+            item.error = error?.message ?? 'Submission failed';
+            item.completedAt = new Date().toISOString();
+            this.touch(batch);
+          },
+        );
+        return true;
+      }
+      this.recordSubmitted(batch, item, video);
+      return true;
+    } catch (error) {
+      // Upstream 429/5xx (already retried by UpstreamRetry) and network errors leave the item queued here
+      const status = error?.response?.status;
+      const transient = status === 429 || status >= 500 || (!!error?.isAxiosError && !error.response);
+      if (transient) {
+        this.logger.warn(`Submitting item ${item.index} of ${batch.id} failed (status=${status}); will retry`);
+        item.status = 'pending';
+      } else {
+        item.status = 'failed';
+        item.error = error?.response?.data?.error?.message ?? error?.message ?? 'Submission failed';
+        item.completedAt = new Date().toISOString();
+      }
+      this.touch(batch);
+      return false;
+    }
+  }
+
+  private recordSubmitted(batch: Batch, item: BatchItem, video: UpstreamVideo) {
+    item.videoId = String(video.id);
+    item.status = JobsService.normalizeStatus(video.status) ?? 'queued';
+    item.progress = typeof video.progress === 'number' ? video.progress : undefined;
+    item.submittedAt = new Date().toISOString();
+    this.itemIndex.set(item.videoId, batch.id);
+    this.touch(batch);
+  }
+
+  private onJobEvent(event: JobEvent) {
+    const batchId = this.itemIndex.get(event.job.id);
+    const batch = batchId ? this.store.get(batchId) : undefined;
+    const item = batch?.items.find((candidate) => candidate.videoId === event.job.id);
+    if (!batch || !item) return;
+    if (item.status === event.job.status && item.progress === event.job.progress) return;
+    item.status = event.job.status;
+    item.progress = event.job.progress;
+    item.error = event.job.error;
+    if (JobsService.isTerminal(event.job.status)) item.completedAt = event.job.completedAt;
+    this.touch(batch);
+  }
+
+  /**
+   * Persist an item change and settle the batch once nothing is left to run
+   */
+  private touch(batch: Batch) {
+    const now = new Date().toISOString();
+    batch.updatedAt = now;
+    if (!batch.items.some((item) => item.status === 'pending' || item.status === 'submitting')) {
+      this.credentials.delete(batch.id);
+    }
+    if (batch.status === 'in_progress' && batch.items.every((item) => JobsService.isTerminal(item.status as JobStatus))) {
+      batch.status = 'completed';
+      batch.completedAt = now;
+      this.logger.log(`Batch ${batch.id} completed`);
+    }
+    this.store.upsert(batch);
+  }
+
+  /**
+   * Held keys do not survive a restart: items still waiting in a batch created with a caller
+   * key cannot be submitted anymore, and an interrupted submission may or may not have landed
+   */
+  private recoverAfterRestart(batch: Batch) {
+    const now = new Date().toISOString();
+    let changed = false;
+    for (const item of batch.items) {
+      if (item.status === 'submitting') {
+        item.status = 'failed';
+        item.error = 'Submission was interrupted by a server restart';
+      } else if (item.status === 'pending' && batch.caller !== 'server') {
+        item.status = 'failed';
+        item.error = 'Server restarted before this item was submitted; resubmit it in a new batch';
+      } else {
+        continue;
+      }
+      item.completedAt = now;
+      changed = true;
+    }
+    if (changed) this.touch(batch);
+  }
+
+  /**
+   * Queued or rendering batch jobs per provider. Jobs from batches whose key is no longer held
+   * are not polled anymore, so they do not occupy a slot.
+   */
+  private countInFlight(): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const batch of this.store.values()) {
+      if (batch.caller !== 'server' && !this.credentials.has(batch.id)) continue;
+      for (const item of batch.items) {
+        if (item.status === 'queued' || item.status === 'in_progress' || item.status === 'submitting') {
+          const provider = item.provider ?? batch.provider;
+          counts.set(provider, (counts.get(provider) ?? 0) + 1);
+        }
+      }
+    }
+    return counts;
+  }
+
+  private maxInFlight(provider: string): number {
+    return Number(this.configService.get<string>(`BATCH_MAX_IN_FLIGHT_${provider.toUpperCase()}`))
+      || Number(this.configService.get<string>('BATCH_MAX_IN_FLIGHT_PER_PROVIDER'))
+      || 2;
+  }
+
+  private providerOptions(batch: Batch): ProviderOptions {
+    return {
+      provider: batch.provider,
+      profile: batch.profile,
+      azureEndpoint: batch.azureEndpoint,
+      azureApiVersion: batch.azureApiVersion,
+      azureDeployment: batch.azureDeployment,
+    };
+  }
+
+  private validateSpecs(raw: Record<string, unknown>[]): GenerateVideoDto[] {
+    return raw.map((spec, i) => {
+      const dto = plainToInstance(GenerateVideoDto, spec);
+      // Same rules as the global ValidationPipe: unknown columns/fields are dropped
+      const errors = validateSync(dto, { whitelist: true });
+      if (errors.length > 0) {
+        const messages = errors.flatMap((error) => Object.values(error.constraints ?? {}));
+        throw new BadRequestException(`Item ${i + 1}: ${messages.join('; ')}`);
+      }
+      return dto;
+    });
+  }
+
+  private findOwned(id: string, userApiKey?: string): Batch {
+    const batch = this.store.get(id);
+    if (!batch || batch.caller !== callerIdFromApiKey(userApiKey)) {
+      throw new NotFoundException(`Batch '${id}' not found`);
+    }
+    return batch;
+  }
+
+  private toView(batch: Batch, withItems = true) {
+    const counts = Object.fromEntries(ITEM_STATUSES.map((status) => [status, 0])) as Record<BatchItemStatus, number>;
+    for (const item of batch.items) counts[item.status] += 1;
+    const { items, ...summary } = batch;
+    return { object: 'batch', ...summary, counts: { total: items.length, ...counts }, ...(withItems ? { items } : {}) };
+  }
+
+  private schedule() {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.tick();
+      } catch (error) {
+        this.logger.error(`Batch tick failed: ${error?.message || error}`);
+      } finally {
+        if (this.timer) this.schedule();
+      }
+    }, this.tickMs);
+  }
+}
@@ -0,0 +1,16 @@
+import { IsArray, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { GenerateVideoDto } from '../../video/dto/video.dto';
+
+export class CreateBatchDto {
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  // Generation specs; alternatively upload a CSV or JSONL file as multipart field 'file'
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => GenerateVideoDto)
+  items?: GenerateVideoDto[];
+}
@@ -0,0 +1,44 @@
+import { JobStatus } from '../../jobs/interfaces/video-job.interface';
+
+export type BatchStatus = 'in_progress' | 'completed' | 'cancelled';
+
+// 'pending' items wait for a free slot; once submitted an item mirrors its job's status
+export type BatchItemStatus = 'pending' | 'submitting' | JobStatus;
+
+export interface BatchItemSpec {
+  prompt: string;
+  model?: string;
+  size?: string;
+  duration?: number;
+  callbackUrl?: string;
+}
+
+export interface BatchItem {
+  index: number;
+  spec: BatchItemSpec;
+  status: BatchItemStatus;
+  // Backend the item was last submitted to; differs from the batch's for `x-provider: auto`
+  provider?: string;
+  videoId?: string;
+  progress?: number;
+  error?: string;
+  submittedAt?: string;
+  completedAt?: string;
+}
+
+export interface Batch {
+  id: string;
+  name?: string;
+  caller: string;
+  // Provider selection applied to every item
+  provider: string;
+  profile?: string;
+  azureEndpoint?: string;
+  azureApiVersion?: string;
+  azureDeployment?: string;
+  status: BatchStatus;
+  items: BatchItem[];
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
@@ -0,0 +1,25 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Observable, tap } from 'rxjs';
+import { BudgetsService } from './budgets.service';
+import { callerIdFromApiKey } from '../common/caller-id';
+
+/**
+ * Adds `X-Budget-Warning` to successful job-creating responses once a budget covering the
+ * caller is past its soft limit (spend includes the job just created)
+ */
+@Injectable()
+export class BudgetWarningInterceptor implements NestInterceptor {
+  constructor(private readonly budgetsService: BudgetsService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest();
+    const callerId = callerIdFromApiKey(request.headers['x-api-key'] || request.headers['x-openai-key']);
+    return next.handle().pipe(
+      tap(() => {
+        const warning = this.budgetsService.warningFor(callerId);
+        if (warning) http.getResponse().setHeader('X-Budget-Warning', warning);
+      }),
+    );
+  }
+}
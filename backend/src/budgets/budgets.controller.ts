@@ -0,0 +1,53 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { BudgetsService } from './budgets.service';
+import { CreateBudgetDto, ListBudgetsQueryDto, UpdateBudgetDto } from './dto/budgets.dto';
+import { AdminRoute } from '../api-keys/decorators/admin-route.decorator';
+
+@Controller('api/admin/budgets')
+@AdminRoute()
+export class BudgetsController {
+  constructor(private readonly budgetsService: BudgetsService) {}
+
+  /**
+   * Cap the spend of one caller key or of every key owned by a team
+   * POST /api/admin/budgets
+   */
+  @Post()
+  createBudget(@Body() dto: CreateBudgetDto) {
+    return this.budgetsService.create(dto);
+  }
+
+  /**
+   * List budgets with their spend in the current period
+   * GET /api/admin/budgets?scope=&target=
+   */
+  @Get()
+  listBudgets(@Query() query: ListBudgetsQueryDto) {
+    return this.budgetsService.list(query);
+  }
+
+  /**
+   * GET /api/admin/budgets/:id
+   */
+  @Get(':id')
+  getBudget(@Param('id') id: string) {
+    return this.budgetsService.get(id);
+  }
+
+  /**
+   * Adjust limit, soft limit or reset period
+   * PATCH /api/admin/budgets/:id
+   */
+  @Patch(':id')
+  updateBudget(@Param('id') id: string, @Body() dto: UpdateBudgetDto) {
+    return this.budgetsService.update(id, dto);
+  }
+
+  /**
+   * DELETE /api/admin/budgets/:id
+   */
+  @Delete(':id')
+  deleteBudget(@Param('id') id: string) {
+    return this.budgetsService.remove(id);
+  }
+}
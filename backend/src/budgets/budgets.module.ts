@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { UsageModule } from '../usage/usage.module';
+import { BudgetsController } from './budgets.controller';
+import { BudgetsService } from './budgets.service';
+import { BudgetWarningInterceptor } from './budget-warning.interceptor';
+
+@Module({
+  imports: [ApiKeysModule, UsageModule],
+  controllers: [BudgetsController],
+  providers: [BudgetsService, BudgetWarningInterceptor],
+  exports: [BudgetsService, BudgetWarningInterceptor],
+})
+export class BudgetsModule {}
@@ -0,0 +1,239 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { JsonFileStore, resolveDataFile } from '../common/json-file-store';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { UsageService } from '../usage/usage.service';
+import { UsageEstimateRequest } from '../usage/interfaces/usage.interface';
+import { Budget, BudgetPeriod, BudgetReservation } from './interfaces/budget.interface';
+import { CreateBudgetDto, ListBudgetsQueryDto, UpdateBudgetDto } from './dto/budgets.dto';
+
+interface BudgetStatus {
+  spent: number;
+  // Estimated cost of creates that are under way and not in the usage ledger yet
+  reserved: number;
+  periodStart: Date;
+  resetsAt: Date;
+}
+
+/**
+ * Spending caps per caller key or per team (the owner of proxy keys), measured against the
+ * usage ledger for the current UTC period plus the estimated cost of creates still under way.
+ * A create that would push any covering budget past its limit is refused with 402 before it
+ * is admitted; crossing the soft limit only adds an `X-Budget-Warning` header to create responses.
+ */
+@Injectable()
+export class BudgetsService {
+  private readonly logger = new Logger(BudgetsService.name);
+  private readonly store: JsonFileStore<Budget>;
+  private readonly defaultPeriod: BudgetPeriod;
+  // Reservations of creates in flight, in memory only: the ledger has everything that survives
+  private readonly reservations = new Map<string, BudgetReservation>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly usageService: UsageService,
+    private readonly apiKeysService: ApiKeysService,
+  ) {
+    this.store = new JsonFileStore<Budget>(resolveDataFile(this.configService, 'budgets.json'));
+    const period = this.configService.get<string>('BUDGET_DEFAULT_PERIOD') as BudgetPeriod;
+    this.defaultPeriod = ['day', 'week', 'month'].includes(period) ? period : 'month';
+  }
+
+  create(dto: CreateBudgetDto) {
+    const existing = this.store.values().find((budget) => budget.scope === dto.scope && budget.target === dto.target);
+    if (existing) {
+      throw new ConflictException(`A budget for ${dto.scope} '${dto.target}' already exists (${existing.id})`);
+    }
+    assertSoftLimit(dto.limit, dto.softLimit);
+    const now = new Date().toISOString();
+    const budget = this.store.upsert({
+      id: `bud_${randomBytes(6).toString('hex')}`,
+      scope: dto.scope,
+      target: dto.target,
+      limit: dto.limit,
+      softLimit: dto.softLimit,
+      period: dto.period || this.defaultPeriod,
+      createdAt: now,
+      updatedAt: now,
+    });
+    this.logger.log(`Created budget ${budget.id}: ${budget.limit} per ${budget.period} for ${budget.scope} ${budget.target}`);
+    return this.toView(budget);
+  }
+
+  list(query: ListBudgetsQueryDto) {
+    const data = this.store
+      .values()
+      .filter((budget) => (!query.scope || budget.scope === query.scope) && (!query.target || budget.target === query.target))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((budget) => this.toView(budget));
+    return { object: 'list', data };
+  }
+
+  get(id: string) {
+    return this.toView(this.find(id));
+  }
+
+  /**
+   * Change the limit, soft limit or period; spend already recorded is kept
+   */
+  update(id: string, dto: UpdateBudgetDto) {
+    const budget = this.find(id);
+    const limit = dto.limit ?? budget.limit;
+    const softLimit = dto.softLimit === null ? undefined : dto.softLimit ?? budget.softLimit;
+    assertSoftLimit(limit, softLimit);
+    const updated = this.store.upsert({
+      ...budget,
+      limit,
+      softLimit,
+      period: dto.period ?? budget.period,
+      updatedAt: new Date().toISOString(),
+    });
+    this.logger.log(`Updated budget ${id}: ${updated.limit} per ${updated.period}`);
+    return this.toView(updated);
+  }
+
+  remove(id: string) {
+    this.find(id);
+    this.store.delete(id);
+    return { id, object: 'budget', deleted: true };
+  }
+
+  /**
+   * Refuse a create whose estimated cost does not fit in every budget covering the caller, and
+   * hold that cost until the job is in the usage ledger (commit) or the create failed (release).
+   * Returns undefined when no budget covers the caller.
+   */
+  reserve(callerId: string, request: UsageEstimateRequest): BudgetReservation | undefined {
+    const budgets = this.budgetsFor(callerId);
+    if (!budgets.length) return undefined;
+    const cost = this.usageService.estimate(request).cost ?? 0;
+    for (const budget of budgets) {
+      const status = this.status(budget);
+      const committed = roundCost(status.spent + status.reserved);
+      if (committed >= budget.limit || committed + cost > budget.limit) {
+        const currency = this.usageService.currency;
+        const reserved = status.reserved ? `, ${status.reserved} held by creates under way` : '';
+        throw new HttpException(
+          {
+            message: `Budget of ${budget.limit} ${currency} per ${budget.period} for ${budget.scope} '${budget.target}' `
+              + `does not cover this request (${status.spent} spent${reserved}, about ${cost} requested); `
+              + `it resets at ${status.resetsAt.toISOString()}`,
+            code: 'budget_exceeded',
+            budget: budget.id,
+            resets_at: Math.floor(status.resetsAt.getTime() / 1000),
+          },
+          HttpStatus.PAYMENT_REQUIRED,
+        );
+      }
+    }
+    const reservation = { id: randomBytes(6).toString('hex'), caller: callerId, cost };
+    this.reservations.set(reservation.id, reservation);
+    return reservation;
+  }
+
+  /**
+   * Drop the hold once the job is recorded in the usage ledger, which counts its cost from then on
+   */
+  commit(reservation: BudgetReservation | undefined) {
+    if (reservation) this.reservations.delete(reservation.id);
+  }
+
+  /**
+   * Give back a reservation whose create failed or never reached upstream
+   */
+  release(reservation: BudgetReservation | undefined) {
+    if (reservation) this.reservations.delete(reservation.id);
+  }
+
+  /**
+   * `X-Budget-Warning` value for budgets covering the caller that are past their soft limit
+   */
+  warningFor(callerId: string): string | undefined {
+    const warnings = this.budgetsFor(callerId)
+      .filter((budget) => budget.softLimit != null)
+      .map((budget) => ({ budget, status: this.status(budget) }))
+      .filter(({ budget, status }) => status.spent >= budget.softLimit)
+      .map(({ budget, status }) =>
+        `budget=${budget.id}; spent=${status.spent}; limit=${budget.limit}; `
+        + `currency=${this.usageService.currency}; resets_at=${status.resetsAt.toISOString()}`);
+    return warnings.length ? warnings.join(', ') : undefined;
+  }
+
+  private budgetsFor(callerId: string): Budget[] {
+    const owner = this.apiKeysService.ownerOf(callerId);
+    return this.store
+      .values()
+      .filter((budget) => budget.scope === 'key' ? budget.target === callerId : !!owner && budget.target === owner);
+  }
+
+  private status(budget: Budget, now = new Date()): BudgetStatus {
+    const periodStart = startOfPeriod(budget.period, now);
+    const callers = budget.scope === 'key'
+      ? [budget.target]
+      : this.apiKeysService.list({ owner: budget.target }).data.map((key) => key.id);
+    let reserved = 0;
+    for (const reservation of this.reservations.values()) {
+      if (callers.includes(reservation.caller)) reserved += reservation.cost;
+    }
+    return {
+      spent: this.usageService.spent(callers, periodStart),
+      reserved: roundCost(reserved),
+      periodStart,
+      resetsAt: startOfNextPeriod(budget.period, periodStart),
+    };
+  }
+
+  private toView(budget: Budget) {
+    const status = this.status(budget);
+    return {
+      ...budget,
+      currency: this.usageService.currency,
+      spent: status.spent,
+      reserved: status.reserved,
+      remaining: Math.max(0, roundCost(budget.limit - status.spent)),
+      state: status.spent >= budget.limit ? 'exhausted' : budget.softLimit != null && status.spent >= budget.softLimit ? 'warning' : 'ok',
+      periodStart: status.periodStart.toISOString(),
+      resetsAt: status.resetsAt.toISOString(),
+    };
+  }
+
+  private find(id: string): Budget {
+    const budget = this.store.get(id);
+    if (!budget) {
+      throw new NotFoundException(`Budget '${id}' not found`);
+    }
+    return budget;
+  }
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function assertSoftLimit(limit: number, softLimit?: number) {
+  if (softLimit != null && softLimit > limit) {
+    throw new BadRequestException(`softLimit (${softLimit}) must not exceed limit (${limit})`);
+  }
+}
+
+function startOfPeriod(period: BudgetPeriod, now: Date): Date {
+  const day = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  if (period === 'day') return new Date(day);
+  if (period === 'week') return new Date(day - ((now.getUTCDay() + 6) % 7) * 24 * 3600 * 1000);
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function startOfNextPeriod(period: BudgetPeriod, start: Date): Date {
+  if (period === 'day') return new Date(start.getTime() + 24 * 3600 * 1000);
+  if (period === 'week') return new Date(start.getTime() + 7 * 24 * 3600 * 1000);
+  return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+}
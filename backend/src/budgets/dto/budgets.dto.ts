@@ -0,0 +1,57 @@
+import { IsString, IsOptional, IsIn, IsNumber, IsNotEmpty, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { BudgetPeriod, BudgetScope } from '../interfaces/budget.interface';
+
+export class CreateBudgetDto {
+  @IsIn(['key', 'team'])
+  scope: BudgetScope;
+
+  // Caller id for 'key' budgets, key owner for 'team' budgets
+  @IsString()
+  @IsNotEmpty()
+  target: string;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  limit: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  softLimit?: number;
+
+  @IsOptional()
+  @IsIn(['day', 'week', 'month'])
+  period?: BudgetPeriod;
+}
+
+export class UpdateBudgetDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  limit?: number;
+
+  // null removes the soft threshold
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  softLimit?: number | null;
+
+  @IsOptional()
+  @IsIn(['day', 'week', 'month'])
+  period?: BudgetPeriod;
+}
+
+export class ListBudgetsQueryDto {
+  @IsOptional()
+  @IsIn(['key', 'team'])
+  scope?: BudgetScope;
+
+  @IsOptional()
+  @IsString()
+  target?: string;
+}
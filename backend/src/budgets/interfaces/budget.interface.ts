@@ -0,0 +1,27 @@
+export type BudgetScope = 'key' | 'team';
+
+export type BudgetPeriod = 'day' | 'week' | 'month';
+
+export interface Budget {
+  id: string;
+  // 'key': one caller id (pk_..., key_... or 'server'); 'team': every proxy key with this owner
+  scope: BudgetScope;
+  target: string;
+  // Hard cap per period, in the price table's currency
+  limit: number;
+  // Spend from which create responses carry X-Budget-Warning
+  softLimit?: number;
+  // UTC calendar period the spend resets on; weeks start on Monday
+  period: BudgetPeriod;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Estimated cost of a create held against the caller's budgets until its job is in the usage ledger
+ */
+export interface BudgetReservation {
+  id: string;
+  caller: string;
+  cost: number;
+}
@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+
+// Proxy-issued keys look like `spk_<record id hex>_<secret>`; the record id survives rotation
+const PROXY_KEY_PATTERN = /^spk_([0-9a-f]{12})_[A-Za-z0-9_-]+$/;
+
+/**
+ * Id of the proxy key record a token belongs to, or undefined for raw upstream keys
+ */
+export function proxyKeyIdFromToken(apiKey?: string): string | undefined {
+  const match = apiKey ? PROXY_KEY_PATTERN.exec(apiKey) : null;
+  return match ? `pk_${match[1]}` : undefined;
+}
+
+/**
+ * Derive a stable, non-reversible caller identity from the API key used on a request.
+ * Requests relying on the server's default key are attributed to 'server'; proxy-issued
+ * keys are attributed to their key record so jobs stay visible across rotations.
+ */
+export function callerIdFromApiKey(apiKey?: string): string {
+  if (!apiKey) return 'server';
+  const proxyKeyId = proxyKeyIdFromToken(apiKey);
+  if (proxyKeyId) return proxyKeyId;
+  return `key_${createHash('sha256').update(apiKey).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Idempotency-Key sent upstream for a caller's key. Proxy keys and anonymous callers share the
+ * server's upstream account, so the raw value would deduplicate unrelated callers' creates
+ * against each other; hashing it with the caller id keeps each caller's keys apart.
+ */
+export function upstreamIdempotencyKey(callerId: string, idempotencyKey?: string): string | undefined {
+  if (!idempotencyKey) return undefined;
+  return `spx_${createHash('sha256').update(`${callerId}\0${idempotencyKey}`).digest('hex').slice(0, 48)}`;
+}
@@ -0,0 +1,16 @@
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Environment variable holding a named upstream credential, e.g. 'team-a' => UPSTREAM_CREDENTIAL_TEAM_A
+ */
+export function credentialEnvName(name: string): string {
+  return `UPSTREAM_CREDENTIAL_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+}
+
+/**
+ * Look up a named upstream credential. Secrets only ever live in server configuration;
+ * records and requests refer to them by name.
+ */
+export function resolveCredential(configService: ConfigService, name: string): string | undefined {
+  return configService.get<string>(credentialEnvName(name)) || undefined;
+}
@@ -0,0 +1,81 @@
+import { Readable, Transform } from 'stream';
+
+// Inclusive byte offsets, as in `Content-Range: bytes start-end/size`
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+const SINGLE_RANGE = /^bytes=(\d*)-(\d*)$/;
+
+/**
+ * True for a syntactically valid single-range `Range` header, the only form the proxy serves
+ * or forwards; anything else (multiple ranges, other units) is answered with the full body.
+ */
+export function isSingleByteRange(header?: string): boolean {
+  const match = header ? SINGLE_RANGE.exec(header.trim()) : null;
+  return !!match && (match[1] !== '' || match[2] !== '');
+}
+
+/**
+ * Resolve a `Range` header against a known size. Returns undefined when the full body should
+ * be served, and null when the range cannot be satisfied (416).
+ */
+export function resolveByteRange(header: string | undefined, size: number): ByteRange | null | undefined {
+  if (!isSingleByteRange(header)) return undefined;
+  const [, first, last] = SINGLE_RANGE.exec(header.trim());
+  if (first === '') {
+    // Suffix range: the last N bytes
+    const length = Number(last);
+    if (length === 0 || size === 0) return null;
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+  const start = Number(first);
+  const end = last === '' ? size - 1 : Math.min(Number(last), size - 1);
+  if (start >= size || end < start) return null;
+  return { start, end };
+}
+
+/**
+ * Parse `Content-Range: bytes start-end/size` as sent by an upstream that honoured a range
+ */
+export function parseContentRange(header?: string): (ByteRange & { size?: number }) | undefined {
+  const match = header ? /^bytes (\d+)-(\d+)\/(\d+|\*)$/.exec(header.trim()) : null;
+  if (!match) return undefined;
+  return { start: Number(match[1]), end: Number(match[2]), size: match[3] === '*' ? undefined : Number(match[3]) };
+}
+
+/**
+ * Cut a byte range out of a stream that starts at offset 0, for upstreams that ignore Range
+ */
+export function sliceStream(source: Readable, range: ByteRange): Readable {
+  let offset = 0;
+  const slice = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      const chunkStart = offset;
+      offset += chunk.length;
+      const from = Math.max(range.start - chunkStart, 0);
+      const to = Math.min(range.end + 1 - chunkStart, chunk.length);
+      if (to > from) this.push(chunk.subarray(from, to));
+      if (offset > range.end) {
+        // Everything needed has been read; stop pulling from upstream
+        source.unpipe(slice);
+        source.destroy();
+        this.push(null);
+      }
+      callback();
+    },
+  });
+  source.on('error', (error) => slice.destroy(error));
+  return source.pipe(slice);
+}
+
+/**
+ * Evaluate `If-None-Match` against the current ETag (weak comparison, as RFC 9110 requires)
+ */
+export function etagMatches(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === '*') return true;
+  const normalize = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some((tag) => normalize(tag) === normalize(etag));
+}
@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Resolve a file inside the backend data directory (DATA_DIR, defaults to ./data)
+ */
+export function resolveDataFile(configService: ConfigService, fileName: string): string {
+  const dataDir = configService.get<string>('DATA_DIR') || path.resolve(process.cwd(), 'data');
+  return path.resolve(dataDir, fileName);
+}
+
+// Mutations within this window are written together
+const FLUSH_DELAY_MS = 200;
+
+// Stores with writes not yet on disk, flushed synchronously when the process exits
+const unflushed = new Set<JsonFileStore<{ id: string }>>();
+let exitHookInstalled = false;
+
+/**
+ * Small JSON-file backed collection keyed by `id`.
+ * Records live in memory. Mutations are batched: the file is rewritten at most once per
+ * FLUSH_DELAY_MS, asynchronously, via write + rename so a crash never leaves a half-written
+ * file behind. Pending writes are flushed synchronously on shutdown (see `flushAll`).
+ */
+export class JsonFileStore<T extends { id: string }> {
+  private readonly logger = new Logger(JsonFileStore.name);
+  private readonly records = new Map<string, T>();
+  private dirty = false;
+  private timer?: NodeJS.Timeout;
+  private writing?: Promise<void>;
+
+  constructor(private readonly filePath: string) {
+    this.load();
+    if (!exitHookInstalled) {
+      exitHookInstalled = true;
+      process.once('exit', () => JsonFileStore.flushAll());
+    }
+  }
+
+  /**
+   * Write every store's pending changes now; for shutdown, when timers no longer run
+   */
+  static flushAll() {
+    for (const store of Array.from(unflushed)) store.flushSync();
+  }
+
+  get(id: string): T | undefined {
+    return this.records.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.records.has(id);
+  }
+
+  values(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  upsert(record: T): T {
+    this.records.set(record.id, record);
+    this.scheduleFlush();
+    return record;
+  }
+
+  delete(id: string): boolean {
+    const existed = this.records.delete(id);
+    if (existed) this.scheduleFlush();
+    return existed;
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) return;
+    const raw = fs.readFileSync(this.filePath, 'utf8');
+    if (!raw.trim()) return;
+    const list = JSON.parse(raw) as T[];
+    for (const record of Array.isArray(list) ? list : []) {
+      if (record?.id) this.records.set(record.id, record);
+    }
+  }
+
+  private scheduleFlush() {
+    this.dirty = true;
+    unflushed.add(this);
+    // A write in progress reschedules itself when it finishes
+    if (this.timer || this.writing) return;
+    this.timer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+    this.timer.unref();
+  }
+
+  private flush() {
+    this.timer = undefined;
+    if (!this.dirty) return;
+    this.dirty = false;
+    const data = JSON.stringify(this.values(), null, 2);
+    const tmp = `${this.filePath}.tmp`;
+    this.writing = fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+      .then(() => fs.promises.writeFile(tmp, data))
+      .then(() => fs.promises.rename(tmp, this.filePath))
+      .catch((error) => {
+        this.logger.error(`Failed to write ${this.filePath}: ${error?.message || error}`);
+        this.dirty = true;
+      })
+      .finally(() => {
+        this.writing = undefined;
+        if (this.dirty) this.scheduleFlush();
+        else unflushed.delete(this);
+      });
+  }
+
+  private flushSync() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.dirty = false;
+    unflushed.delete(this);
+    // Its own temp file: an interrupted async write may still hold the other one
+    const tmp = `${this.filePath}.sync.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tmp, JSON.stringify(this.values(), null, 2));
+      fs.renameSync(tmp, this.filePath);
+    } catch (error) {
+      this.logger.error(`Failed to write ${this.filePath}: ${error?.message || error}`);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import * as dns from 'dns';
+import { BlockList, isIP } from 'net';
+
+// Addresses a caller-supplied URL may not reach: unspecified, loopback, private, CGNAT,
+// link-local (cloud metadata), benchmarking, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise not a public host.
+ * IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Host of a URL as used for connecting: lower-cased, IPv6 literals without brackets
+ */
+export function urlHost(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+}
+
+/**
+ * Resolve `host` and fail unless every address it resolves to is public. The error message
+ * completes a sentence about the host ("does not resolve", "resolves to a private ...").
+ */
+export async function assertPublicHost(host: string): Promise<void> {
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await dns.promises.lookup(host, { all: true })).map((entry) => entry.address);
+  } catch {
+    throw new Error('does not resolve');
+  }
+  if (!addresses.length || addresses.some(isBlockedAddress)) {
+    throw new Error('resolves to a private or reserved address');
+  }
+}
+
+/**
+ * dns.lookup for agents connecting to caller-supplied hosts: fails the connection when any
+ * address is blocked, so a DNS answer that changes after validation cannot reach an internal
+ * host. Node skips the lookup for IP literals; check those with assertPublicHost first.
+ */
+export function guardedLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void,
+) {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error, address, family);
+    const addresses = Array.isArray(address) ? address.map((entry) => entry.address) : [address];
+    if (addresses.some(isBlockedAddress)) {
+      const blocked: NodeJS.ErrnoException = new Error(`Refusing to connect to ${hostname}: private or reserved address`);
+      blocked.code = 'EADDRBLOCKED';
+      return callback(blocked, address, family);
+    }
+    callback(null, address, family);
+  });
+}
@@ -0,0 +1,16 @@
+import { MessageEvent } from '@nestjs/common';
+import { Observable, endWith, ignoreElements, interval, map, merge, share, takeUntil } from 'rxjs';
+
+/**
+ * Interleave periodic `ping` events so idle SSE connections are not cut by proxies.
+ * The heartbeat stops as soon as the wrapped stream completes.
+ */
+export function withHeartbeat(events$: Observable<MessageEvent>, everyMs = 15000): Observable<MessageEvent> {
+  const shared$ = events$.pipe(share());
+  const done$ = shared$.pipe(ignoreElements(), endWith(true));
+  const heartbeat$ = interval(everyMs).pipe(
+    map((): MessageEvent => ({ type: 'ping', data: { at: new Date().toISOString() } })),
+    takeUntil(done$),
+  );
+  return merge(shared$, heartbeat$);
+}
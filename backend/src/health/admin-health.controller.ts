@@ -0,0 +1,21 @@
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import { Response } from 'express';
+import { HealthService } from './health.service';
+import { AdminRoute } from '../api-keys/decorators/admin-route.decorator';
+
+@Controller('api/admin')
+@AdminRoute()
+export class AdminHealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  /**
+   * Readiness with endpoint URLs, paths, Azure pool entries and error messages
+   * GET /api/admin/readyz
+   */
+  @Get('readyz')
+  async readyz(@Res({ passthrough: true }) res: Response) {
+    const readiness = await this.healthService.readiness(true);
+    res.status(readiness.status === 'ready' ? HttpStatus.OK : HttpStatus.SERVICE_UNAVAILABLE);
+    return readiness;
+  }
+}
@@ -0,0 +1,31 @@
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import { Response } from 'express';
+import { HealthService } from './health.service';
+import { SkipProxyKey } from '../api-keys/decorators/skip-proxy-key.decorator';
+
+@Controller()
+@SkipProxyKey()
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  /**
+   * Liveness: the process is up and serving requests
+   * GET /healthz
+   */
+  @Get('healthz')
+  healthz() {
+    return this.healthService.liveness();
+  }
+
+  /**
+   * Readiness: 200 when required providers and storage are usable, 503 otherwise.
+   * Statuses and counts only; GET /api/admin/readyz has the details.
+   * GET /readyz
+   */
+  @Get('readyz')
+  async readyz(@Res({ passthrough: true }) res: Response) {
+    const readiness = await this.healthService.readiness();
+    res.status(readiness.status === 'ready' ? HttpStatus.OK : HttpStatus.SERVICE_UNAVAILABLE);
+    return readiness;
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { VideoModule } from '../video/video.module';
+import { StorageModule } from '../storage/storage.module';
+import { HealthController } from './health.controller';
+import { AdminHealthController } from './admin-health.controller';
+import { HealthService } from './health.service';
+
+@Module({
+  imports: [VideoModule, StorageModule],
+  controllers: [HealthController, AdminHealthController],
+  providers: [HealthService],
+})
+export class HealthModule {}
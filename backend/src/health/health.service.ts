@@ -0,0 +1,189 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import { resolveDataFile } from '../common/json-file-store';
+import { VideoProviderRegistry } from '../video/providers/video-provider.registry';
+import { VideoProvider } from '../video/providers/video-provider.interface';
+import { AdmissionQueue } from '../video/admission-queue';
+import { AzureEndpointPool } from '../video/providers/azure-endpoint-pool';
+import { ProviderProfiles } from '../video/providers/provider-profiles';
+import { VIDEO_STORAGE, VideoStorage } from '../storage/interfaces/video-storage.interface';
+import { DependencyCheck, ProbeResult, ProviderCheck } from './interfaces/health.interface';
+
+/**
+ * Liveness and readiness for orchestrators.
+ *
+ * Readiness reports every registered provider's configuration and checks the data directory
+ * and archive storage. Providers named in READINESS_REQUIRED_PROVIDERS must be fully configured
+ * (and reachable, when probing is on) for the backend to be ready; the others are informational,
+ * since callers may bring their own keys and endpoints. With READINESS_PROBE_TTL_SECONDS > 0 each
+ * configured provider is probed with a one-item list call, cached for that long.
+ *
+ * The public readiness body carries statuses and counts only; endpoint URLs, paths and error
+ * messages are left to the detailed view served on the admin API.
+ */
+@Injectable()
+export class HealthService {
+  private readonly logger = new Logger(HealthService.name);
+  private readonly requiredProviders: string[];
+  private readonly probeTtlMs: number;
+  private readonly probeTimeoutMs: number;
+  private readonly probes = new Map<string, ProbeResult>();
+  private readonly probesInFlight = new Map<string, Promise<ProbeResult>>();
+  private readonly startedAt = new Date();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly providerRegistry: VideoProviderRegistry,
+    private readonly admissionQueue: AdmissionQueue,
+    private readonly azurePool: AzureEndpointPool,
+    private readonly providerProfiles: ProviderProfiles,
+    @Optional() @Inject(VIDEO_STORAGE) private readonly storage: VideoStorage | null,
+  ) {
+    this.requiredProviders = (this.configService.get<string>('READINESS_REQUIRED_PROVIDERS') || '')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean);
+    this.probeTtlMs = (Number(this.configService.get('READINESS_PROBE_TTL_SECONDS')) || 0) * 1000;
+    this.probeTimeoutMs = Number(this.configService.get('READINESS_PROBE_TIMEOUT_MS')) || 5000;
+  }
+
+  liveness() {
+    return { status: 'ok', startedAt: this.startedAt.toISOString(), uptime: Math.round(process.uptime()) };
+  }
+
+  async readiness(detailed = false) {
+    const names = this.providerRegistry.names();
+    const [providerChecks, dataDir, storage] = await Promise.all([
+      Promise.all(names.map((name) => this.checkProvider(this.providerRegistry.get(name)))),
+      this.checkDataDir(),
+      this.checkStorage(),
+    ]);
+    const providers = Object.fromEntries(names.map((name, i) => [name, providerChecks[i]]));
+    const profilesMissing = this.providerProfiles.missingConfig();
+    const unknownRequired = this.requiredProviders.filter((name) => !names.includes(name));
+
+    const problems = [
+      ...Object.entries(providers)
+        .filter(([, check]) => check.required && check.status !== 'ok')
+        .map(([name, check]) => `provider ${name} is ${check.status}`),
+      ...unknownRequired.map((name) => `required provider ${name} is not registered`),
+      ...(dataDir.status === 'error' ? ['data directory is not writable'] : []),
+      ...(storage.status === 'error' ? ['archive storage is unavailable'] : []),
+    ];
+    return {
+      status: problems.length ? 'not_ready' : 'ready',
+      problems,
+      checks: {
+        providers: detailed ? providers : mapValues(providers, publicProviderCheck),
+        dataDir: detailed ? dataDir : { status: dataDir.status },
+        storage: detailed ? storage : { status: storage.status, ...(storage.kind ? { kind: storage.kind } : {}) },
+        admissionQueue: { status: 'ok', ...this.admissionQueue.depth() },
+        // Informational: the pool routes around ejected entries on its own
+        ...(this.azurePool.enabled ? { azurePool: this.poolCheck(detailed) } : {}),
+        // Informational: only requests selecting the affected profiles fail
+        ...(this.providerProfiles.names().length ? {
+          profiles: {
+            status: profilesMissing.length ? 'incomplete' : 'ok',
+            names: this.providerProfiles.names(),
+            ...(profilesMissing.length ? { missing: profilesMissing } : {}),
+          },
+        } : {}),
+      },
+    };
+  }
+
+  /**
+   * Healthy entries of the Azure endpoint pool; the per-endpoint list only in the detailed view
+   */
+  private poolCheck(detailed: boolean) {
+    const endpoints = this.azurePool.snapshot();
+    const healthy = endpoints.filter((entry) => entry.status === 'available').length;
+    return {
+      status: healthy === endpoints.length ? 'ok' : healthy ? 'degraded' : 'unavailable',
+      healthy,
+      total: endpoints.length,
+      ...(detailed ? { endpoints } : {}),
+    };
+  }
+
+  private async checkProvider(provider: VideoProvider): Promise<ProviderCheck> {
+    const missing = provider.missingConfig?.() ?? [];
+    const check: ProviderCheck = {
+      status: missing.length ? 'incomplete' : 'ok',
+      required: this.requiredProviders.includes(provider.name),
+    };
+    if (missing.length) {
+      check.missing = missing;
+    } else if (this.probeTtlMs > 0) {
+      check.probe = await this.probe(provider);
+      if (!check.probe.ok) check.status = 'unreachable';
+    }
+    return check;
+  }
+
+  /**
+   * Cached one-item list call with the server's own credentials; concurrent checks share one call
+   */
+  private probe(provider: VideoProvider): Promise<ProbeResult> {
+    const cached = this.probes.get(provider.name);
+    if (cached && Date.now() - Date.parse(cached.checkedAt) < this.probeTtlMs) return Promise.resolve(cached);
+    const running = this.probesInFlight.get(provider.name);
+    if (running) return running;
+
+    const started = Date.now();
+    const result = withTimeout(provider.listVideos({ limit: 1 }), this.probeTimeoutMs)
+      .then((): ProbeResult => ({ ok: true, checkedAt: new Date().toISOString(), latencyMs: Date.now() - started }))
+      .catch((error): ProbeResult => {
+        const message = error?.response?.data?.error?.message || error?.message || String(error);
+        this.logger.warn(`Readiness probe of ${provider.name} failed: ${message}`);
+        return { ok: false, checkedAt: new Date().toISOString(), latencyMs: Date.now() - started, error: message };
+      })
+      .then((probe) => {
+        this.probes.set(provider.name, probe);
+        this.probesInFlight.delete(provider.name);
+        return probe;
+      });
+    this.probesInFlight.set(provider.name, result);
+    return result;
+  }
+
+  private async checkDataDir(): Promise<DependencyCheck> {
+    const dir = resolveDataFile(this.configService, '.');
+    try {
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.access(dir, fs.constants.W_OK);
+      return { status: 'ok', path: dir };
+    } catch (error) {
+      return { status: 'error', path: dir, error: error?.message || String(error) };
+    }
+  }
+
+  private async checkStorage(): Promise<DependencyCheck> {
+    if (!this.storage) return { status: 'disabled' };
+    try {
+      await withTimeout(this.storage.check(), this.probeTimeoutMs);
+      return { status: 'ok', kind: this.storage.name };
+    } catch (error) {
+      return { status: 'error', kind: this.storage.name, error: error?.message || error?.name || String(error) };
+    }
+  }
+}
+
+function mapValues<T>(record: Record<string, T>, fn: (value: T) => T): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value)]));
+}
+
+function publicProviderCheck(check: ProviderCheck): ProviderCheck {
+  if (!check.probe) return check;
+  const { ok, checkedAt, latencyMs } = check.probe;
+  return { ...check, probe: { ok, checkedAt, latencyMs } };
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`No answer within ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,21 @@
+export interface ProbeResult {
+  ok: boolean;
+  checkedAt: string;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface ProviderCheck {
+  // 'incomplete': server settings missing (callers must bring their own); 'unreachable': probe failed
+  status: 'ok' | 'incomplete' | 'unreachable';
+  // Listed in READINESS_REQUIRED_PROVIDERS, so it decides readiness
+  required: boolean;
+  missing?: string[];
+  probe?: ProbeResult;
+}
+
+export interface DependencyCheck {
+  status: 'ok' | 'error' | 'disabled';
+  error?: string;
+  [detail: string]: unknown;
+}
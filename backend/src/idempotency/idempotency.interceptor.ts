@@ -0,0 +1,48 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Observable, of, tap } from 'rxjs';
+import { IdempotencyService } from './idempotency.service';
+import { callerIdFromApiKey } from '../common/caller-id';
+
+/**
+ * Honors the Idempotency-Key header on job-creating routes: the first request with a key is
+ * executed and its response stored; repeats with the same body replay that response
+ * (marked with `Idempotent-Replayed: true`), repeats with a different body get 409.
+ * Must run after any upload interceptor so the uploaded file is part of the fingerprint.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private readonly idempotencyService: IdempotencyService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest();
+    const key = request.headers['idempotency-key'] as string | undefined;
+    if (!key) return next.handle();
+
+    const route = `${request.method} ${request.route?.path ?? request.path}`;
+    const file = request.file as Express.Multer.File | undefined;
+    const fingerprint = IdempotencyService.fingerprint({
+      route,
+      body: request.body,
+      file: file?.buffer ? createHash('sha256').update(file.buffer).digest('hex') : undefined,
+      provider: request.headers['x-provider'],
+      profile: request.headers['x-provider-profile'],
+      azureEndpoint: request.headers['x-azure-endpoint'],
+      azureDeployment: request.headers['x-azure-deployment'],
+    });
+    const callerId = callerIdFromApiKey(request.headers['x-api-key'] || request.headers['x-openai-key']);
+
+    const outcome = this.idempotencyService.begin(callerId, key, route, fingerprint);
+    if (outcome.kind === 'replay') {
+      http.getResponse().setHeader('Idempotent-Replayed', 'true');
+      return of(outcome.response);
+    }
+    return next.handle().pipe(
+      tap({
+        next: (response) => this.idempotencyService.complete(outcome.recordId, response),
+        error: () => this.idempotencyService.abandon(outcome.recordId),
+      }),
+    );
+  }
+}
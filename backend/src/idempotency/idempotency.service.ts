@@ -0,0 +1,101 @@
+import { BadRequestException, ConflictException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { JsonFileStore, resolveDataFile } from '../common/json-file-store';
+import { IdempotencyRecord } from './interfaces/idempotency-record.interface';
+
+const MAX_KEY_LENGTH = 255;
+
+export type IdempotencyOutcome =
+  | { kind: 'new'; recordId: string }
+  | { kind: 'replay'; response: unknown };
+
+/**
+ * Idempotency-Key bookkeeping. A claimed key holds a short lease (IDEMPOTENCY_LEASE_SECONDS)
+ * while its request runs; the stored response is then kept for IDEMPOTENCY_TTL_HOURS. Claims
+ * left behind by a previous process are dropped at startup, since their requests died with it.
+ */
+@Injectable()
+export class IdempotencyService {
+  private readonly store: JsonFileStore<IdempotencyRecord>;
+  private readonly ttlMs: number;
+  private readonly leaseMs: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.store = new JsonFileStore<IdempotencyRecord>(resolveDataFile(this.configService, 'idempotency-keys.json'));
+    this.ttlMs = (Number(this.configService.get<string>('IDEMPOTENCY_TTL_HOURS')) || 24) * 3600 * 1000;
+    this.leaseMs = (Number(this.configService.get<string>('IDEMPOTENCY_LEASE_SECONDS')) || 300) * 1000;
+    for (const record of this.store.values()) {
+      if (record.state === 'in_progress') this.store.delete(record.id);
+    }
+  }
+
+  /**
+   * Stable hash of everything that defines the request, independent of JSON key order
+   */
+  static fingerprint(parts: Record<string, unknown>): string {
+    return createHash('sha256').update(stableStringify(parts)).digest('hex');
+  }
+
+  /**
+   * Claim a key for a request, or return the stored response when it was already served.
+   * Throws 409 when the key is reused with a different request or is still in flight.
+   */
+  begin(callerId: string, key: string, route: string, fingerprint: string): IdempotencyOutcome {
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(`Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`);
+    }
+    this.purgeExpired();
+    const id = `${callerId}:${key}`;
+    const existing = this.store.get(id);
+    if (existing) {
+      if (existing.route !== route || existing.fingerprint !== fingerprint) {
+        throw new ConflictException('Idempotency-Key was already used with a different request');
+      }
+      if (existing.state === 'in_progress') {
+        throw new ConflictException('A request with this Idempotency-Key is still in progress');
+      }
+      return { kind: 'replay', response: existing.response };
+    }
+    const now = Date.now();
+    this.store.upsert({
+      id,
+      route,
+      fingerprint,
+      state: 'in_progress',
+      createdAt: new Date(now).toISOString(),
+      // Until the request finishes; an expired lease frees the key again
+      expiresAt: new Date(now + this.leaseMs).toISOString(),
+    });
+    return { kind: 'new', recordId: id };
+  }
+
+  complete(recordId: string, response: unknown) {
+    const record = this.store.get(recordId);
+    if (!record) return;
+    this.store.upsert({ ...record, state: 'completed', response, expiresAt: new Date(Date.now() + this.ttlMs).toISOString() });
+  }
+
+  /**
+   * Release a key whose request failed so the client can retry with the same key
+   */
+  abandon(recordId: string) {
+    this.store.delete(recordId);
+  }
+
+  private purgeExpired() {
+    const now = Date.now();
+    for (const record of this.store.values()) {
+      if (Date.parse(record.expiresAt) <= now) this.store.delete(record.id);
+    }
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const record = value as Record<string, unknown>;
+  const keys = Object.keys(record).filter((k) => record[k] !== undefined).sort();
+  return `{${keys.map((k) => `${JSON.stringify(k)}:${stableStringify(record[k])}`).join(',')}}`;
+}
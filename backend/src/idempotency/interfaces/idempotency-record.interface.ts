@@ -0,0 +1,10 @@
+export interface IdempotencyRecord {
+  // `${callerId}:${key}` so keys never collide across API keys
+  id: string;
+  route: string;
+  fingerprint: string;
+  state: 'in_progress' | 'completed';
+  response?: unknown;
+  createdAt: string;
+  expiresAt: string;
+}
@@ -0,0 +1,31 @@
+import { Controller, Get, Param, Query, NotFoundException } from '@nestjs/common';
+import { JobsService } from './jobs.service';
+import { ListJobsQueryDto } from './dto/jobs.dto';
+import { AdminRoute } from '../api-keys/decorators/admin-route.decorator';
+
+@Controller('api/admin/jobs')
+@AdminRoute()
+export class AdminJobsController {
+  constructor(private readonly jobsService: JobsService) {}
+
+  /**
+   * List jobs of every caller
+   * GET /api/admin/jobs?provider=&status=&model=&caller=&q=&since=&until=&limit=&after=&order=
+   */
+  @Get()
+  listJobs(@Query() query: ListJobsQueryDto) {
+    return this.jobsService.list(query);
+  }
+
+  /**
+   * GET /api/admin/jobs/:id
+   */
+  @Get(':id')
+  getJob(@Param('id') id: string) {
+    const job = this.jobsService.get(id);
+    if (!job) {
+      throw new NotFoundException(`Job '${id}' not found`);
+    }
+    return job;
+  }
+}
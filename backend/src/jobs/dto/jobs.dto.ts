@@ -0,0 +1,55 @@
+import { IsString, IsOptional, IsIn, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ListJobsQueryDto {
+  @IsOptional()
+  @IsString()
+  provider?: string;
+
+  @IsOptional()
+  @IsIn(['queued', 'in_progress', 'completed', 'failed', 'cancelled'])
+  status?: string;
+
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  // Caller id to filter by; admin listing only, callers always see just their own jobs
+  @IsOptional()
+  @IsString()
+  caller?: string;
+
+  @IsOptional()
+  @IsString()
+  remixOf?: string;
+
+  // Case-insensitive substring match on the prompt
+  @IsOptional()
+  @IsString()
+  q?: string;
+
+  // ISO timestamps bounding createdAt
+  @IsOptional()
+  @IsString()
+  since?: string;
+
+  @IsOptional()
+  @IsString()
+  until?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  // Cursor: id of the last job from the previous page
+  @IsOptional()
+  @IsString()
+  after?: string;
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc' = 'desc';
+}
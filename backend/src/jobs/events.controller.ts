@@ -0,0 +1,24 @@
+import { Controller, MessageEvent, Sse } from '@nestjs/common';
+import { Observable, map } from 'rxjs';
+import { JobsService } from './jobs.service';
+import { ApiKey } from '../video/decorators/api-key.decorator';
+import { callerIdFromApiKey } from '../common/caller-id';
+import { withHeartbeat } from '../common/sse';
+
+@Controller('api/events')
+export class EventsController {
+  constructor(private readonly jobsService: JobsService) {}
+
+  /**
+   * Stream updates for every job of the calling API key (Server-Sent Events)
+   * GET /api/events
+   */
+  @Sse()
+  streamCallerEvents(@ApiKey() apiKey?: string): Observable<MessageEvent> {
+    return withHeartbeat(
+      this.jobsService
+        .watchCaller(callerIdFromApiKey(apiKey))
+        .pipe(map((job): MessageEvent => ({ type: 'job', data: job }))),
+    );
+  }
+}
@@ -0,0 +1,54 @@
+export type JobStatus = 'queued' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobTransition {
+  status: JobStatus;
+  at: string;
+}
+
+export interface JobArchive {
+  // VideoStorage backend name and key the file was stored under
+  storage: string;
+  key: string;
+  size: number;
+  archivedAt: string;
+}
+
+export interface VideoJob {
+  id: string;
+  // Name of the VideoProvider that created the job
+  provider: string;
+  // Provider profile (x-provider-profile) the job was created with; later calls reuse it
+  profile?: string;
+  prompt?: string;
+  model?: string;
+  size?: string;
+  seconds?: number;
+  // Source video id when the job was created through remix
+  remixOf?: string;
+  caller: string;
+  // Upstream account the job runs on (see OpenAIService.credentialId); never the key itself
+  credential?: string;
+  // Proxy-side id the create waited under in the admission queue, if it was held
+  pendingId?: string;
+  status: JobStatus;
+  progress?: number;
+  error?: string;
+  // Receives a signed POST on every terminal status change
+  callbackUrl?: string;
+  transitions: JobTransition[];
+  // Azure routing hints so the job can be looked up again without client headers
+  azureEndpoint?: string;
+  azureApiVersion?: string;
+  azureDeployment?: string;
+  // Copy of the finished MP4 in storage owned by the proxy
+  archive?: JobArchive;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface JobEvent {
+  type: 'created' | 'updated';
+  job: VideoJob;
+  previousStatus?: JobStatus;
+}
@@ -0,0 +1,32 @@
+import { Controller, Get, Param, Query, NotFoundException } from '@nestjs/common';
+import { JobsService } from './jobs.service';
+import { ListJobsQueryDto } from './dto/jobs.dto';
+import { ApiKey } from '../video/decorators/api-key.decorator';
+import { callerIdFromApiKey } from '../common/caller-id';
+
+@Controller('api/jobs')
+export class JobsController {
+  constructor(private readonly jobsService: JobsService) {}
+
+  /**
+   * List jobs created with the calling API key
+   * GET /api/jobs?provider=&status=&model=&q=&since=&until=&limit=&after=&order=
+   */
+  @Get()
+  listJobs(@Query() query: ListJobsQueryDto, @ApiKey() apiKey?: string) {
+    return this.jobsService.list(query, callerIdFromApiKey(apiKey));
+  }
+
+  /**
+   * Get a single job created with the calling API key
+   * GET /api/jobs/:id
+   */
+  @Get(':id')
+  getJob(@Param('id') id: string, @ApiKey() apiKey?: string) {
+    const job = this.jobsService.getForCaller(id, callerIdFromApiKey(apiKey));
+    if (!job) {
+      throw new NotFoundException(`Job '${id}' not found`);
+    }
+    return job;
+  }
+}
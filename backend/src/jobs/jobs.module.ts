@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { JobsController } from './jobs.controller';
+import { AdminJobsController } from './admin-jobs.controller';
+import { EventsController } from './events.controller';
+import { JobsService } from './jobs.service';
+
+@Module({
+  controllers: [JobsController, AdminJobsController, EventsController],
+  providers: [JobsService],
+  exports: [JobsService],
+})
+export class JobsModule {}
@@ -0,0 +1,251 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EMPTY, Observable, Subject, concat, filter, map, of, takeWhile } from 'rxjs';
+import { JsonFileStore, resolveDataFile } from '../common/json-file-store';
+import { JobArchive, JobEvent, JobStatus, VideoJob } from './interfaces/video-job.interface';
+import { ListJobsQueryDto } from './dto/jobs.dto';
+import { UpstreamVideo } from '../video/providers/video-provider.interface';
+
+export interface NewJobInfo {
+  provider?: string;
+  profile?: string;
+  prompt?: string;
+  model?: string;
+  size?: string;
+  seconds?: number;
+  remixOf?: string;
+  caller: string;
+  credential?: string;
+  pendingId?: string;
+  callbackUrl?: string;
+  azureEndpoint?: string;
+  azureApiVersion?: string;
+  azureDeployment?: string;
+}
+
+const TERMINAL_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+@Injectable()
+export class JobsService {
+  private readonly logger = new Logger(JobsService.name);
+  private readonly store: JsonFileStore<VideoJob>;
+  private readonly eventsSubject = new Subject<JobEvent>();
+  // Emits whenever a job is recorded or its status/progress changes
+  readonly events$ = this.eventsSubject.asObservable();
+
+  constructor(private readonly configService: ConfigService) {
+    this.store = new JsonFileStore<VideoJob>(resolveDataFile(this.configService, 'jobs.json'));
+  }
+
+  /**
+   * Map upstream status strings (OpenAI and Azure variants) onto the registry's status set
+   */
+  static normalizeStatus(raw?: string): JobStatus | undefined {
+    if (!raw) return undefined;
+    const status = String(raw).toLowerCase();
+    if (['queued', 'pending', 'notstarted', 'not_started', 'preprocessing'].includes(status)) return 'queued';
+    if (['in_progress', 'processing', 'running'].includes(status)) return 'in_progress';
+    if (['completed', 'succeeded', 'success'].includes(status)) return 'completed';
+    if (['failed', 'error'].includes(status)) return 'failed';
+    if (['cancelled', 'canceled'].includes(status)) return 'cancelled';
+    return undefined;
+  }
+
+  static isTerminal(status?: JobStatus): boolean {
+    return !!status && TERMINAL_STATUSES.includes(status);
+  }
+
+  get(id: string): VideoJob | undefined {
+    return this.store.get(id);
+  }
+
+  /**
+   * Record a job right after the upstream accepted the create/remix call
+   */
+  recordCreated(video: UpstreamVideo, info: NewJobInfo): VideoJob | undefined {
+    if (!video?.id) return undefined;
+    try {
+      const now = new Date().toISOString();
+      const status = JobsService.normalizeStatus(video.status) ?? 'queued';
+      const job: VideoJob = {
+        id: String(video.id),
+        provider: (info.provider || 'openai').toLowerCase(),
+        profile: info.profile,
+        prompt: info.prompt,
+        model: video.model ?? info.model,
+        size: video.size ?? info.size,
+        seconds: video.seconds != null ? Number(video.seconds) : info.seconds,
+        remixOf: info.remixOf,
+        caller: info.caller,
+        credential: info.credential,
+        pendingId: info.pendingId,
+        callbackUrl: info.callbackUrl,
+        status,
+        progress: typeof video.progress === 'number' ? video.progress : undefined,
+        transitions: [{ status, at: now }],
+        azureEndpoint: info.azureEndpoint,
+        azureApiVersion: info.azureApiVersion,
+        azureDeployment: info.azureDeployment,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.store.upsert(job);
+      this.eventsSubject.next({ type: 'created', job });
+      return job;
+    } catch (error) {
+      this.logger.warn(`Failed to record job ${video?.id}: ${error?.message || error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Update the last known status of a tracked job from an upstream status payload.
+   * Unknown ids are ignored: the registry only tracks jobs created through the proxy.
+   */
+  recordStatus(video: UpstreamVideo): VideoJob | undefined {
+    const existing = video?.id ? this.store.get(String(video.id)) : undefined;
+    if (!existing) return undefined;
+    try {
+      const status = JobsService.normalizeStatus(video.status) ?? existing.status;
+      const progress = typeof video.progress === 'number' ? video.progress : existing.progress;
+      const error = extractError(video) ?? existing.error;
+      if (status === existing.status && progress === existing.progress && error === existing.error) {
+        return existing;
+      }
+      const now = new Date().toISOString();
+      const updated: VideoJob = {
+        ...existing,
+        status,
+        progress,
+        error,
+        transitions: status === existing.status
+          ? existing.transitions
+          : [...(existing.transitions || []), { status, at: now }],
+        updatedAt: now,
+        completedAt: JobsService.isTerminal(status) ? existing.completedAt ?? now : existing.completedAt,
+      };
+      this.store.upsert(updated);
+      this.eventsSubject.next({ type: 'updated', job: updated, previousStatus: existing.status });
+      return updated;
+    } catch (error) {
+      this.logger.warn(`Failed to update job ${video?.id}: ${error?.message || error}`);
+      return existing;
+    }
+  }
+
+  /**
+   * Attach (or clear) the archived copy of a job's video
+   */
+  recordArchive(id: string, archive?: JobArchive): VideoJob | undefined {
+    const existing = this.store.get(id);
+    if (!existing) return undefined;
+    const updated: VideoJob = { ...existing, archive, updatedAt: new Date().toISOString() };
+    this.store.upsert(updated);
+    this.eventsSubject.next({ type: 'updated', job: updated, previousStatus: existing.status });
+    return updated;
+  }
+
+  /**
+   * Jobs whose last known status is not terminal yet
+   */
+  listPending(): VideoJob[] {
+    return this.store.values().filter((job) => !JobsService.isTerminal(job.status));
+  }
+
+  /**
+   * Stream one job: its current state first, then every update, completing once it is terminal
+   */
+  watch(id: string): Observable<VideoJob> {
+    const current = this.store.get(id);
+    const updates$ = this.events$.pipe(
+      filter((event) => event.job.id === id),
+      map((event) => event.job),
+    );
+    return concat(current ? of(current) : EMPTY, updates$).pipe(
+      takeWhile((job) => !JobsService.isTerminal(job.status), true),
+    );
+  }
+
+  /**
+   * Stream updates for every job created by one caller
+   */
+  watchCaller(callerId: string): Observable<VideoJob> {
+    return this.events$.pipe(
+      filter((event) => event.job.caller === callerId),
+      map((event) => event.job),
+    );
+  }
+
+  remove(id: string) {
+    try {
+      this.store.delete(id);
+    } catch (error) {
+      this.logger.warn(`Failed to remove job ${id}: ${error?.message || error}`);
+    }
+  }
+
+  /**
+   * A job as visible to one caller: only the caller that created it may read its record
+   */
+  getForCaller(id: string, callerId: string): VideoJob | undefined {
+    const job = this.store.get(id);
+    return job?.caller === callerId ? job : undefined;
+  }
+
+  /**
+   * Filtered, cursor-paginated listing in the same envelope as the upstream list endpoint.
+   * With a `callerId` only that caller's jobs are listed; without one (admin) `query.caller` filters.
+   */
+  list(query: ListJobsQueryDto, callerId?: string) {
+    const caller = callerId ?? query.caller;
+    const needle = query.q?.toLowerCase();
+    const since = query.since ? Date.parse(query.since) : undefined;
+    const until = query.until ? Date.parse(query.until) : undefined;
+    const order = query.order === 'asc' ? 1 : -1;
+    const limit = query.limit ?? 20;
+
+    const matched = this.store
+      .values()
+      .filter((job) => {
+        if (query.provider && job.provider !== query.provider) return false;
+        if (query.status && job.status !== query.status) return false;
+        if (query.model && job.model !== query.model) return false;
+        if (caller && job.caller !== caller) return false;
+        if (query.remixOf && job.remixOf !== query.remixOf) return false;
+        if (needle && !(job.prompt || '').toLowerCase().includes(needle)) return false;
+        const created = Date.parse(job.createdAt);
+        if (since != null && !Number.isNaN(since) && created < since) return false;
+        if (until != null && !Number.isNaN(until) && created > until) return false;
+        return true;
+      })
+      .sort((a, b) => (a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id)) * order);
+
+    let start = 0;
+    if (query.after) {
+      const idx = matched.findIndex((job) => job.id === query.after);
+      start = idx >= 0 ? idx + 1 : matched.length;
+    }
+    const data = matched.slice(start, start + limit);
+    return {
+      object: 'list',
+      data,
+      first_id: data[0]?.id ?? null,
+      last_id: data[data.length - 1]?.id ?? null,
+      has_more: start + limit < matched.length,
+      total: matched.length,
+    };
+  }
+}
+
+function extractError(video: UpstreamVideo): string | undefined {
+  const err = video?.error ?? video?.failure_reason ?? video?.failureReason;
+  if (err == null) return undefined;
+  if (typeof err === 'string') return err;
+  const message = (err as { message?: unknown }).message;
+  if (typeof message === 'string') return message;
+  try {
+    return JSON.stringify(err);
+  } catch {
+    return String(err);
+  }
+}
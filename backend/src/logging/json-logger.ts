@@ -0,0 +1,71 @@
+import { LogLevel, LoggerService } from '@nestjs/common';
+import { currentLogContext } from './request-context';
+
+/**
+ * Nest logger writing one JSON object per line: time, level, context (the class that logged),
+ * the request's log context (requestId, method, route, provider) and the message.
+ *
+ * Messages may be objects, e.g. `logger.debug({ message: 'upstream response', upstreamUrl, status })`;
+ * their fields are merged into the line so they can be queried directly.
+ */
+export class JsonLogger implements LoggerService {
+  log(message: unknown, ...params: unknown[]) {
+    this.write('log', message, params);
+  }
+
+  error(message: unknown, ...params: unknown[]) {
+    this.write('error', message, params);
+  }
+
+  warn(message: unknown, ...params: unknown[]) {
+    this.write('warn', message, params);
+  }
+
+  debug(message: unknown, ...params: unknown[]) {
+    this.write('debug', message, params);
+  }
+
+  verbose(message: unknown, ...params: unknown[]) {
+    this.write('verbose', message, params);
+  }
+
+  fatal(message: unknown, ...params: unknown[]) {
+    this.write('fatal', message, params);
+  }
+
+  private write(level: LogLevel, message: unknown, params: unknown[]) {
+    // Nest passes the logger's context last; error() carries a stack trace (or undefined) before it
+    const rest = [...params];
+    const context = typeof rest[rest.length - 1] === 'string' ? rest.pop() : undefined;
+    const stack = (level === 'error' || level === 'fatal') && rest.length ? rest.shift() : undefined;
+
+    const entry: Record<string, unknown> = {
+      time: new Date().toISOString(),
+      level,
+      context,
+      ...currentLogContext(),
+    };
+    if (message instanceof Error) {
+      entry.message = message.message;
+      entry.stack = message.stack;
+    } else if (message && typeof message === 'object') {
+      Object.assign(entry, message);
+    } else {
+      entry.message = message;
+    }
+    if (typeof stack === 'string') entry.stack = stack;
+    if (rest.length) entry.extra = rest;
+
+    const line = `${serialize(entry)}\n`;
+    if (level === 'error' || level === 'fatal') process.stderr.write(line);
+    else process.stdout.write(line);
+  }
+}
+
+function serialize(entry: Record<string, unknown>): string {
+  try {
+    return JSON.stringify(entry);
+  } catch {
+    return JSON.stringify({ time: entry.time, level: entry.level, context: entry.context, message: String(entry.message) });
+  }
+}
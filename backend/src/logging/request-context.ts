@@ -0,0 +1,34 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Fields attached to every log line written while handling one request (or one background
+ * upstream call). Stored in AsyncLocalStorage so services do not have to pass it around.
+ */
+export interface LogContext {
+  requestId?: string;
+  method?: string;
+  route?: string;
+  provider?: string;
+  action?: string;
+}
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+export function currentLogContext(): LogContext | undefined {
+  return storage.getStore();
+}
+
+export function currentRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Run `fn` with extra fields on top of the current context (e.g. the provider of an upstream call)
+ */
+export function withLogFields<T>(fields: LogContext, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...fields }, fn);
+}
@@ -0,0 +1,46 @@
+import { Injectable, Logger, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { LogContext, runWithLogContext } from './request-context';
+
+// Client-supplied ids are kept only when short and free of characters that would break log lines or headers
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Accepts the caller's `X-Request-Id` (or creates one), echoes it on the response and runs the
+ * rest of the request inside a log context, so every log line it produces, including upstream
+ * calls and their fallbacks, carries the same requestId. Logs one line per completed request.
+ */
+@Injectable()
+export class RequestIdMiddleware implements NestMiddleware {
+  private readonly logger = new Logger('HTTP');
+
+  use(req: Request, res: Response, next: NextFunction) {
+    const incoming = req.headers['x-request-id'];
+    const requestId = typeof incoming === 'string' && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+    res.setHeader('X-Request-Id', requestId);
+
+    const context: LogContext = {
+      requestId,
+      method: req.method,
+      provider: req.headers['x-provider'] as string | undefined,
+    };
+    // The route is only known once the router matched it
+    Object.defineProperty(context, 'route', { enumerable: true, get: () => routeOf(req) });
+
+    const started = process.hrtime.bigint();
+    res.once('close', () => runWithLogContext(context, () => {
+      this.logger.log({
+        message: 'request completed',
+        path: req.originalUrl.split('?')[0],
+        status: res.statusCode,
+        durationMs: Math.round(Number(process.hrtime.bigint() - started) / 1e6),
+      });
+    }));
+    runWithLogContext(context, next);
+  }
+}
+
+function routeOf(req: Request): string | undefined {
+  return req.route?.path ? `${req.baseUrl || ''}${req.route.path}` : undefined;
+}
@@ -0,0 +1,49 @@
+import { Logger } from '@nestjs/common';
+import { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { currentRequestId } from './request-context';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Forward the current request id on every upstream call and log each attempt (including
+ * retries and Azure's 404 fallbacks) with its URL, status and duration.
+ *
+ * OpenAI records `X-Client-Request-Id`; Azure only accepts GUIDs in `x-ms-client-request-id`.
+ */
+export function instrumentUpstreamClient(client: AxiosInstance, logger = new Logger('Upstream')) {
+  const startedAt = new WeakMap<InternalAxiosRequestConfig, number>();
+
+  client.interceptors.request.use((config) => {
+    const requestId = currentRequestId();
+    if (requestId) {
+      config.headers.set('X-Client-Request-Id', requestId);
+      if (UUID_PATTERN.test(requestId)) config.headers.set('x-ms-client-request-id', requestId);
+    }
+    startedAt.set(config, Date.now());
+    return config;
+  });
+
+  const fields = (config?: InternalAxiosRequestConfig) => ({
+    upstreamMethod: config?.method?.toUpperCase(),
+    upstreamUrl: config?.url,
+    durationMs: config && startedAt.has(config) ? Date.now() - startedAt.get(config) : undefined,
+  });
+
+  client.interceptors.response.use(
+    (response: AxiosResponse) => {
+      logger.debug({ message: 'upstream response', ...fields(response.config), status: response.status });
+      return response;
+    },
+    (error: AxiosError) => {
+      const data = error.response?.data as { error?: { code?: string } } | undefined;
+      logger.warn({
+        message: 'upstream request failed',
+        ...fields(error.config),
+        status: error.response?.status,
+        code: data?.error?.code ?? error.code,
+        upstreamRequestId: error.response?.headers?.['x-request-id'] ?? error.response?.headers?.['apim-request-id'],
+      });
+      return Promise.reject(error);
+    },
+  );
+}
@@ -1,14 +1,21 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
-import { ValidationPipe } from '@nestjs/common';
+import { Logger, ValidationPipe } from '@nestjs/common';
+import { JsonLogger } from './logging/json-logger';
+import { setupApiDocs } from './api-docs';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // JSON lines with the request id on every entry; LOG_FORMAT=text keeps Nest's console output
+  const app = await NestFactory.create(AppModule, {
+    logger: process.env.LOG_FORMAT === 'text' ? undefined : new JsonLogger(),
+  });
 
   // Enable CORS
   app.enableCors({
     origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
     credentials: true,
+    // Response headers the browser client may read
+    exposedHeaders: ['X-Request-Id', 'X-Budget-Warning', 'Content-Range', 'Accept-Ranges', 'ETag'],
   });
 
   // Enable validation with transformation (coerce multipart/form fields)
@@ -18,10 +25,14 @@ async function bootstrap() {
     forbidNonWhitelisted: false,
   }));
 
+  setupApiDocs(app);
+  // SIGTERM/SIGINT run shutdown hooks, so batched store writes are flushed before exit
+  app.enableShutdownHooks();
+
   const port = process.env.BACKEND_PORT || 3001;
   await app.listen(port);
 
-  console.log(`🚀 Backend server is running on: http://localhost:${port}`);
+  new Logger('Bootstrap').log(`🚀 Backend server is running on: http://localhost:${port}`);
 }
 
 bootstrap();
@@ -0,0 +1,23 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Counts every HTTP request and its latency once the response is closed, labelled with the
+ * matched route pattern (e.g. /api/videos/:id) rather than the raw path
+ */
+@Injectable()
+export class HttpMetricsMiddleware implements NestMiddleware {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  use(req: Request, res: Response, next: NextFunction) {
+    const start = process.hrtime.bigint();
+    res.once('close', () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      const route = req.route?.path ? `${req.baseUrl || ''}${req.route.path}` : 'unmatched';
+      const provider = req.headers['x-provider'] as string | undefined;
+      this.metricsService.observeHttpRequest(req.method, route, provider, res.statusCode, seconds);
+    });
+    next();
+  }
+}
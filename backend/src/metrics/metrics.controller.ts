@@ -0,0 +1,20 @@
+import { Controller, Get, Res } from '@nestjs/common';
+import { Response } from 'express';
+import { MetricsService } from './metrics.service';
+import { SkipProxyKey } from '../api-keys/decorators/skip-proxy-key.decorator';
+
+@Controller('metrics')
+@SkipProxyKey()
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  /**
+   * Prometheus scrape endpoint
+   * GET /metrics
+   */
+  @Get()
+  async getMetrics(@Res() res: Response) {
+    res.setHeader('Content-Type', this.metricsService.contentType);
+    res.send(await this.metricsService.render());
+  }
+}
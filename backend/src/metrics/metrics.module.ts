@@ -0,0 +1,17 @@
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { JobsModule } from '../jobs/jobs.module';
+import { MetricsController } from './metrics.controller';
+import { MetricsService } from './metrics.service';
+import { HttpMetricsMiddleware } from './http-metrics.middleware';
+
+@Module({
+  imports: [JobsModule],
+  controllers: [MetricsController],
+  providers: [MetricsService],
+  exports: [MetricsService],
+})
+export class MetricsModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(HttpMetricsMiddleware).forRoutes('*');
+  }
+}
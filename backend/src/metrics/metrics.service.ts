@@ -0,0 +1,232 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { JobsService } from '../jobs/jobs.service';
+import { JobEvent } from '../jobs/interfaces/video-job.interface';
+import { DEFAULT_PROVIDER, UpstreamError } from '../video/providers/video-provider.interface';
+
+const PREFIX = 'sora_proxy_';
+
+/**
+ * Prometheus registry for the proxy, rendered by GET /metrics.
+ *
+ * HTTP traffic is recorded by HttpMetricsMiddleware, upstream calls by OpenAIService.call and
+ * UpstreamRetry (every provider goes through both), and job lifecycle metrics from the job
+ * registry's event stream. Gauges owned by other services (queue depths) are declared with
+ * `gauge()` and refreshed by their owner's callback on every scrape.
+ */
+@Injectable()
+export class MetricsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MetricsService.name);
+  private readonly registry = new Registry();
+  private readonly collectors: Array<() => void> = [];
+  // Provider labels are limited to registered backends so arbitrary x-provider values cannot grow the series count
+  private readonly providers = new Set<string>();
+  // Likewise for model labels: the models the price table knows
+  private readonly models = new Set<string>();
+  private subscription?: Subscription;
+
+  private readonly httpRequests = new Counter({
+    name: `${PREFIX}http_requests_total`,
+    help: 'HTTP requests handled, by route, provider and response status',
+    labelNames: ['method', 'route', 'provider', 'status'],
+    registers: [this.registry],
+  });
+
+  private readonly httpDuration = new Histogram({
+    name: `${PREFIX}http_request_duration_seconds`,
+    help: 'HTTP request latency, by route, provider and response status',
+    labelNames: ['method', 'route', 'provider', 'status'],
+    buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [this.registry],
+  });
+
+  private readonly upstreamRequests = new Counter({
+    name: `${PREFIX}upstream_requests_total`,
+    help: 'Upstream calls made through OpenAIService, by provider, action and outcome (retries included in one call)',
+    labelNames: ['provider', 'action', 'outcome'],
+    registers: [this.registry],
+  });
+
+  private readonly upstreamDuration = new Histogram({
+    name: `${PREFIX}upstream_request_duration_seconds`,
+    help: 'Upstream call latency including retries, by provider and action',
+    labelNames: ['provider', 'action'],
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+    registers: [this.registry],
+  });
+
+  private readonly upstreamErrors = new Counter({
+    name: `${PREFIX}upstream_errors_total`,
+    help: 'Failed upstream calls, by provider, action and error code',
+    labelNames: ['provider', 'action', 'code'],
+    registers: [this.registry],
+  });
+
+  private readonly upstreamAttempts = new Counter({
+    name: `${PREFIX}upstream_attempts_total`,
+    help: 'Individual upstream HTTP attempts (first tries and retries), by operation and status',
+    labelNames: ['operation', 'status'],
+    registers: [this.registry],
+  });
+
+  private readonly providerFallbacks = new Counter({
+    name: `${PREFIX}provider_fallbacks_total`,
+    help: 'x-provider: auto creates moved to the next provider after a 429/5xx, by failed and next provider',
+    labelNames: ['from', 'to'],
+    registers: [this.registry],
+  });
+
+  private readonly jobsCreated = new Counter({
+    name: `${PREFIX}jobs_created_total`,
+    help: 'Video jobs created through the proxy, by provider and model',
+    labelNames: ['provider', 'model'],
+    registers: [this.registry],
+  });
+
+  private readonly jobsFinished = new Counter({
+    name: `${PREFIX}jobs_finished_total`,
+    help: 'Video jobs that reached a terminal status, by provider and status',
+    labelNames: ['provider', 'status'],
+    registers: [this.registry],
+  });
+
+  private readonly jobDuration = new Histogram({
+    name: `${PREFIX}job_duration_seconds`,
+    help: 'Time from job creation to terminal status, by provider and status',
+    labelNames: ['provider', 'status'],
+    buckets: [30, 60, 120, 300, 600, 900, 1800, 3600, 7200],
+    registers: [this.registry],
+  });
+
+  private readonly jobsInFlight = new Gauge({
+    name: `${PREFIX}jobs_in_flight`,
+    help: 'Recorded jobs not in a terminal status yet, by provider and status',
+    labelNames: ['provider', 'status'],
+    registers: [this.registry],
+  });
+
+  readonly contentBytes = new Counter({
+    name: `${PREFIX}content_bytes_total`,
+    help: 'Bytes streamed from the video content route, by variant and response status',
+    labelNames: ['variant', 'status'],
+    registers: [this.registry],
+  });
+
+  constructor(private readonly jobsService: JobsService) {
+    collectDefaultMetrics({ register: this.registry, prefix: PREFIX });
+  }
+
+  onModuleInit() {
+    this.subscription = this.jobsService.events$.subscribe((event) => this.onJobEvent(event));
+    this.addCollector(() => {
+      this.jobsInFlight.reset();
+      for (const job of this.jobsService.listPending()) {
+        this.jobsInFlight.inc({ provider: job.provider, status: job.status });
+      }
+    });
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  /**
+   * Prometheus text exposition of every metric, after running the registered collectors
+   */
+  async render(): Promise<string> {
+    for (const collect of this.collectors) {
+      try {
+        collect();
+      } catch (error) {
+        this.logger.warn(`Metrics collector failed: ${error?.message || error}`);
+      }
+    }
+    return this.registry.metrics();
+  }
+
+  /**
+   * Define a gauge whose values are refreshed by `collect` on every scrape
+   */
+  gauge(name: string, help: string, labelNames: string[], collect: (gauge: Gauge<string>) => void) {
+    const gauge = new Gauge({ name: `${PREFIX}${name}`, help, labelNames, registers: [this.registry] });
+    this.addCollector(() => {
+      gauge.reset();
+      collect(gauge);
+    });
+    return gauge;
+  }
+
+  registerProvider(name: string) {
+    this.providers.add(name.toLowerCase());
+  }
+
+  registerModel(name: string) {
+    this.models.add(name);
+  }
+
+  modelLabel(name?: string): string {
+    if (!name) return 'unknown';
+    return this.models.has(name) ? name : 'other';
+  }
+
+  providerLabel(name?: string): string {
+    const provider = (name || DEFAULT_PROVIDER).toLowerCase();
+    return this.providers.has(provider) ? provider : 'other';
+  }
+
+  observeHttpRequest(method: string, route: string, provider: string | undefined, status: number, seconds: number) {
+    const labels = { method, route, provider: this.providerLabel(provider), status: String(status) };
+    this.httpRequests.inc(labels);
+    this.httpDuration.observe(labels, seconds);
+  }
+
+  observeUpstreamCall(provider: string | undefined, action: string, seconds: number, error?: unknown) {
+    const labels = { provider: this.providerLabel(provider), action };
+    this.upstreamRequests.inc({ ...labels, outcome: error ? 'error' : 'success' });
+    this.upstreamDuration.observe(labels, seconds);
+    if (error) this.upstreamErrors.inc({ ...labels, code: errorCode(error) });
+  }
+
+  observeUpstreamAttempt(operation: string, error?: UpstreamError) {
+    const status = error ? error?.response?.status ?? error?.code ?? 'error' : 'ok';
+    this.upstreamAttempts.inc({ operation, status: String(status) });
+  }
+
+  observeProviderFallback(from: string, to: string) {
+    this.providerFallbacks.inc({ from: this.providerLabel(from), to: this.providerLabel(to) });
+  }
+
+  private addCollector(collect: () => void) {
+    this.collectors.push(collect);
+  }
+
+  private onJobEvent(event: JobEvent) {
+    const job = event.job;
+    if (event.type === 'created') {
+      this.jobsCreated.inc({ provider: this.providerLabel(job.provider), model: this.modelLabel(job.model) });
+      return;
+    }
+    if (!JobsService.isTerminal(job.status) || JobsService.isTerminal(event.previousStatus)) return;
+    this.jobsFinished.inc({ provider: job.provider, status: job.status });
+    const seconds = (Date.parse(job.completedAt || job.updatedAt) - Date.parse(job.createdAt)) / 1000;
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      this.jobDuration.observe({ provider: job.provider, status: job.status }, seconds);
+    }
+  }
+}
+
+/**
+ * Upstream error code (e.g. 'rate_limit_exceeded'), else the HTTP status or network error code
+ */
+function errorCode(error: unknown): string {
+  // Upstream failures, or Nest HttpExceptions raised before the call
+  const failure = error as UpstreamError & { getStatus?: () => number };
+  const status = failure?.response?.status ?? (typeof failure?.getStatus === 'function' ? failure.getStatus() : undefined);
+  const data = failure?.response?.data as { error?: { code?: string } } | undefined;
+  return String(data?.error?.code ?? (status ? `http_${status}` : failure?.code ?? 'unknown'));
+}
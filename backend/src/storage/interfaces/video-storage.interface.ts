@@ -0,0 +1,32 @@
+import { Readable } from 'stream';
+import { ByteRange } from '../../common/http-range';
+
+export interface StoredObjectInfo {
+  size: number;
+  contentType: string;
+  lastModified?: Date;
+}
+
+/**
+ * Storage the proxy owns for archived video files. Keys are relative paths such as
+ * `videos/<id>.mp4`; the backend is chosen with ARCHIVE_STORAGE.
+ */
+export interface VideoStorage {
+  readonly name: string;
+
+  // Store a finished local file under `key`
+  put(key: string, filePath: string, contentType: string): Promise<{ size: number }>;
+
+  // Undefined when nothing is stored under `key`
+  stat(key: string): Promise<StoredObjectInfo | undefined>;
+
+  // Stream the stored bytes, or only `range` of them
+  open(key: string, range?: ByteRange): Promise<Readable>;
+
+  delete(key: string): Promise<void>;
+
+  // Throws when the storage cannot be written to (readiness check)
+  check(): Promise<void>;
+}
+
+export const VIDEO_STORAGE = Symbol('VIDEO_STORAGE');
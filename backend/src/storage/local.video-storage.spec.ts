@@ -0,0 +1,65 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { LocalVideoStorage } from './local.video-storage';
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+describe('LocalVideoStorage', () => {
+  const content = Buffer.from('0123456789abcdef');
+  let workDir: string;
+  let source: string;
+  let storage: LocalVideoStorage;
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sora-proxy-archive-'));
+    source = path.join(workDir, 'download.mp4');
+    fs.writeFileSync(source, content);
+    storage = new LocalVideoStorage(path.join(workDir, 'archive'));
+  });
+
+  afterEach(() => fs.rmSync(workDir, { recursive: true, force: true }));
+
+  it('creates its directory on check', async () => {
+    await storage.check();
+    expect(fs.statSync(path.join(workDir, 'archive')).isDirectory()).toBe(true);
+  });
+
+  it('stores, reads and deletes a file', async () => {
+    await expect(storage.put('videos/video_1.mp4', source)).resolves.toEqual({ size: content.length });
+    expect(fs.existsSync(path.join(workDir, 'archive', 'videos', 'video_1.mp4.tmp'))).toBe(false);
+
+    const info = await storage.stat('videos/video_1.mp4');
+    expect(info).toMatchObject({ size: content.length, contentType: 'video/mp4' });
+    expect(info.lastModified.getTime()).toBe(fs.statSync(path.join(workDir, 'archive', 'videos', 'video_1.mp4')).mtime.getTime());
+
+    expect(await readAll(await storage.open('videos/video_1.mp4'))).toEqual(content);
+
+    await storage.delete('videos/video_1.mp4');
+    await expect(storage.stat('videos/video_1.mp4')).resolves.toBeUndefined();
+  });
+
+  it('reads an inclusive byte range', async () => {
+    await storage.put('video_1.mp4', source);
+    expect((await readAll(await storage.open('video_1.mp4', { start: 2, end: 5 }))).toString()).toBe('2345');
+  });
+
+  it('reports a missing key as undefined and deletes it without error', async () => {
+    await expect(storage.stat('missing.mp4')).resolves.toBeUndefined();
+    await expect(storage.delete('missing.mp4')).resolves.toBeUndefined();
+  });
+
+  it('rejects keys that escape the archive directory', async () => {
+    await expect(storage.put('../escaped.mp4', source)).rejects.toThrow("Invalid storage key '../escaped.mp4'");
+    await expect(storage.stat('/etc/passwd')).rejects.toThrow('Invalid storage key');
+    expect(fs.existsSync(path.join(workDir, 'escaped.mp4'))).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { ByteRange } from '../common/http-range';
+import { StoredObjectInfo, VideoStorage } from './interfaces/video-storage.interface';
+
+/**
+ * Archive on the local filesystem under ARCHIVE_LOCAL_DIR (defaults to <DATA_DIR>/archive)
+ */
+export class LocalVideoStorage implements VideoStorage {
+  readonly name = 'local';
+  private readonly logger = new Logger(LocalVideoStorage.name);
+
+  constructor(private readonly rootDir: string) {
+    this.logger.log(`Archiving videos to ${rootDir}`);
+  }
+
+  async check(): Promise<void> {
+    await fs.promises.mkdir(this.rootDir, { recursive: true });
+    await fs.promises.access(this.rootDir, fs.constants.W_OK);
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key '${key}'`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, filePath: string): Promise<{ size: number }> {
+    const target = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    // Copy then rename so readers never see a partial file
+    const tmp = `${target}.tmp`;
+    await fs.promises.copyFile(filePath, tmp);
+    await fs.promises.rename(tmp, target);
+    const { size } = await fs.promises.stat(target);
+    return { size };
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | undefined> {
+    try {
+      const stat = await fs.promises.stat(this.resolve(key));
+      return { size: stat.size, contentType: 'video/mp4', lastModified: stat.mtime };
+    } catch (error) {
+      if (error?.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async open(key: string, range?: ByteRange): Promise<Readable> {
+    return fs.createReadStream(this.resolve(key), range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
@@ -0,0 +1,141 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { S3VideoStorage } from './s3.video-storage';
+
+const BUCKET = 'archive';
+
+interface StoredObject {
+  body: Buffer;
+  contentType: string;
+  lastModified: Date;
+}
+
+/**
+ * Just enough of the S3 REST API, path-style, for S3VideoStorage: HEAD bucket and
+ * PUT/HEAD/GET (with a single Range)/DELETE object. Signatures are not checked.
+ */
+function startFakeS3(objects: Map<string, StoredObject>, requests: string[]): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+    const [, bucket, ...rest] = url.pathname.split('/');
+    const key = decodeURIComponent(rest.join('/'));
+    requests.push(`${req.method} /${bucket}/${key}`);
+    if (bucket !== BUCKET) {
+      res.writeHead(404, { 'Content-Type': 'application/xml' }).end('<Error><Code>NoSuchBucket</Code></Error>');
+      return;
+    }
+    if (!key) {
+      res.writeHead(req.method === 'HEAD' ? 200 : 405).end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const stored = objects.get(key);
+      if (req.method === 'PUT') {
+        objects.set(key, { body: Buffer.concat(chunks), contentType: req.headers['content-type'], lastModified: new Date() });
+        res.writeHead(200, { ETag: '"fake"' }).end();
+        return;
+      }
+      if (req.method === 'DELETE') {
+        objects.delete(key);
+        res.writeHead(204).end();
+        return;
+      }
+      if (!stored) {
+        res.writeHead(404, { 'Content-Type': 'application/xml' }).end(req.method === 'HEAD' ? undefined : '<Error><Code>NoSuchKey</Code></Error>');
+        return;
+      }
+      const headers = { 'Content-Type': stored.contentType, 'Last-Modified': stored.lastModified.toUTCString() };
+      const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range || '');
+      const body = range ? stored.body.subarray(Number(range[1]), Number(range[2]) + 1) : stored.body;
+      const status = range ? 206 : 200;
+      if (range) headers['Content-Range'] = `bytes ${range[1]}-${range[2]}/${stored.body.length}`;
+      res.writeHead(status, { ...headers, 'Content-Length': body.length });
+      res.end(req.method === 'HEAD' ? undefined : body);
+    });
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+describe('S3VideoStorage', () => {
+  const content = Buffer.from('0123456789abcdef');
+  const objects = new Map<string, StoredObject>();
+  const requests: string[] = [];
+  let server: http.Server;
+  let endpoint: string;
+  let workDir: string;
+  let source: string;
+
+  const storageFor = (bucket = BUCKET) =>
+    new S3VideoStorage({ bucket, region: 'us-east-1', endpoint, accessKeyId: 'test', secretAccessKey: 'test', prefix: 'proxy/' });
+
+  beforeAll(async () => {
+    Logger.overrideLogger(false);
+    server = await startFakeS3(objects, requests);
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sora-proxy-s3-'));
+    source = path.join(workDir, 'download.mp4');
+    fs.writeFileSync(source, content);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    objects.clear();
+    requests.length = 0;
+  });
+
+  it('checks that the bucket is reachable', async () => {
+    await expect(storageFor().check()).resolves.toBeUndefined();
+    await expect(storageFor('missing').check()).rejects.toBeDefined();
+  });
+
+  it('uploads under the key prefix with path-style URLs', async () => {
+    await expect(storageFor().put('videos/video_1.mp4', source, 'video/mp4')).resolves.toEqual({ size: content.length });
+    expect(requests).toEqual([`PUT /${BUCKET}/proxy/videos/video_1.mp4`]);
+    expect(objects.get('proxy/videos/video_1.mp4')).toMatchObject({ body: content, contentType: 'video/mp4' });
+  });
+
+  it('reports size, type and modification time of a stored object', async () => {
+    const storage = storageFor();
+    await storage.put('videos/video_1.mp4', source, 'video/mp4');
+
+    const info = await storage.stat('videos/video_1.mp4');
+    expect(info).toMatchObject({ size: content.length, contentType: 'video/mp4' });
+    expect(info.lastModified).toBeInstanceOf(Date);
+    await expect(storage.stat('videos/missing.mp4')).resolves.toBeUndefined();
+  });
+
+  it('streams the whole object or a byte range', async () => {
+    const storage = storageFor();
+    await storage.put('videos/video_1.mp4', source, 'video/mp4');
+
+    expect(await readAll(await storage.open('videos/video_1.mp4'))).toEqual(content);
+    expect((await readAll(await storage.open('videos/video_1.mp4', { start: 2, end: 5 }))).toString()).toBe('2345');
+  });
+
+  it('deletes an object', async () => {
+    const storage = storageFor();
+    await storage.put('videos/video_1.mp4', source, 'video/mp4');
+
+    await storage.delete('videos/video_1.mp4');
+    expect(objects.size).toBe(0);
+    await expect(storage.stat('videos/video_1.mp4')).resolves.toBeUndefined();
+  });
+});
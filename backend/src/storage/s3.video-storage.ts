@@ -0,0 +1,98 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadBucketCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { ByteRange } from '../common/http-range';
+import { StoredObjectInfo, VideoStorage } from './interfaces/video-storage.interface';
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  // Custom endpoint for S3-compatible services (MinIO, R2, ...); implies path-style URLs
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  prefix?: string;
+}
+
+/**
+ * Archive in an S3-compatible bucket. Credentials fall back to the AWS SDK default chain
+ * when ARCHIVE_S3_ACCESS_KEY_ID / ARCHIVE_S3_SECRET_ACCESS_KEY are not set.
+ */
+export class S3VideoStorage implements VideoStorage {
+  readonly name = 's3';
+  private readonly logger = new Logger(S3VideoStorage.name);
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3StorageOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: !!options.endpoint,
+      // Many S3-compatible services reject the SDK's default aws-chunked checksum uploads
+      requestChecksumCalculation: options.endpoint ? 'WHEN_REQUIRED' : 'WHEN_SUPPORTED',
+      responseChecksumValidation: options.endpoint ? 'WHEN_REQUIRED' : 'WHEN_SUPPORTED',
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+    this.logger.log(`Archiving videos to s3://${options.bucket}/${options.prefix || ''}${options.endpoint ? ` via ${options.endpoint}` : ''}`);
+  }
+
+  async check(): Promise<void> {
+    await this.client.send(new HeadBucketCommand({ Bucket: this.options.bucket }));
+  }
+
+  private objectKey(key: string): string {
+    return `${this.options.prefix || ''}${key}`;
+  }
+
+  async put(key: string, filePath: string, contentType: string): Promise<{ size: number }> {
+    const { size } = await fs.promises.stat(filePath);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.objectKey(key),
+      Body: fs.createReadStream(filePath),
+      ContentLength: size,
+      ContentType: contentType,
+    }));
+    return { size };
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | undefined> {
+    try {
+      const result = await this.client.send(new HeadObjectCommand({
+        Bucket: this.options.bucket,
+        Key: this.objectKey(key),
+      }));
+      return {
+        size: Number(result.ContentLength),
+        contentType: result.ContentType || 'video/mp4',
+        lastModified: result.LastModified,
+      };
+    } catch (error) {
+      if (error?.name === 'NotFound' || error?.name === 'NoSuchKey' || error?.$metadata?.httpStatusCode === 404) return undefined;
+      throw error;
+    }
+  }
+
+  async open(key: string, range?: ByteRange): Promise<Readable> {
+    const result = await this.client.send(new GetObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.objectKey(key),
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    }));
+    return result.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: this.objectKey(key) }));
+  }
+}
@@ -0,0 +1,45 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { resolveDataFile } from '../common/json-file-store';
+import { VIDEO_STORAGE, VideoStorage } from './interfaces/video-storage.interface';
+import { LocalVideoStorage } from './local.video-storage';
+import { S3VideoStorage } from './s3.video-storage';
+
+/**
+ * Provides the archive backend selected by ARCHIVE_STORAGE ('local', 's3' or 'none').
+ * VIDEO_STORAGE resolves to null when archiving is disabled.
+ */
+@Module({
+  providers: [
+    {
+      provide: VIDEO_STORAGE,
+      useFactory: (configService: ConfigService): VideoStorage | null => {
+        const kind = (configService.get<string>('ARCHIVE_STORAGE') || 'local').toLowerCase();
+        if (kind === 'none') return null;
+        if (kind === 's3') {
+          const bucket = configService.get<string>('ARCHIVE_S3_BUCKET');
+          if (!bucket) {
+            throw new Error('ARCHIVE_STORAGE=s3 requires ARCHIVE_S3_BUCKET');
+          }
+          return new S3VideoStorage({
+            bucket,
+            region: configService.get<string>('ARCHIVE_S3_REGION') || 'us-east-1',
+            endpoint: configService.get<string>('ARCHIVE_S3_ENDPOINT') || undefined,
+            accessKeyId: configService.get<string>('ARCHIVE_S3_ACCESS_KEY_ID') || undefined,
+            secretAccessKey: configService.get<string>('ARCHIVE_S3_SECRET_ACCESS_KEY') || undefined,
+            prefix: configService.get<string>('ARCHIVE_S3_PREFIX') || '',
+          });
+        }
+        if (kind !== 'local') {
+          throw new Error(`Unknown ARCHIVE_STORAGE '${kind}' (expected local, s3 or none)`);
+        }
+        const dir = configService.get<string>('ARCHIVE_LOCAL_DIR') || resolveDataFile(configService, 'archive');
+        return new LocalVideoStorage(path.resolve(dir));
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [VIDEO_STORAGE],
+})
+export class StorageModule {}
@@ -0,0 +1,19 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { UsageService } from './usage.service';
+import { UsageQueryDto } from './dto/usage.dto';
+import { AdminRoute } from '../api-keys/decorators/admin-route.decorator';
+
+@Controller('api/admin/usage')
+@AdminRoute()
+export class AdminUsageController {
+  constructor(private readonly usageService: UsageService) {}
+
+  /**
+   * Spend of every caller, aggregated
+   * GET /api/admin/usage?key=&provider=&model=&since=&until=&groupBy=day,key,provider,model
+   */
+  @Get()
+  getUsage(@Query() query: UsageQueryDto) {
+    return this.usageService.summarize(query);
+  }
+}
@@ -0,0 +1,30 @@
+import { IsString, IsOptional } from 'class-validator';
+
+export class UsageQueryDto {
+  // Caller id to filter by; admin view only, callers always see just their own spend
+  @IsOptional()
+  @IsString()
+  key?: string;
+
+  @IsOptional()
+  @IsString()
+  provider?: string;
+
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  // ISO timestamps bounding the charge time
+  @IsOptional()
+  @IsString()
+  since?: string;
+
+  @IsOptional()
+  @IsString()
+  until?: string;
+
+  // Comma-separated subset of day,key,provider,model; defaults to all four
+  @IsOptional()
+  @IsString()
+  groupBy?: string;
+}
@@ -0,0 +1,51 @@
+export interface ModelPrice {
+  // Price of one generated second at any size not listed below
+  perSecond: number;
+  // Per-second price by resolution, e.g. { "1792x1024": 0.5 }
+  sizes?: Record<string, number>;
+}
+
+export interface PriceTable {
+  currency: string;
+  models: Record<string, ModelPrice>;
+  // Provider name => model prices that replace the top-level entry for that provider
+  providers?: Record<string, Record<string, ModelPrice>>;
+}
+
+export interface UsageEntry {
+  // Id of the video the charge belongs to; one entry per created job
+  id: string;
+  operation: 'create' | 'remix';
+  caller: string;
+  provider: string;
+  model?: string;
+  size?: string;
+  seconds: number;
+  // null when the price table has no entry for the model
+  unitPrice: number | null;
+  cost: number | null;
+  currency: string;
+  createdAt: string;
+}
+
+export interface UsageEstimateRequest {
+  provider: string;
+  model?: string;
+  size?: string;
+  // Upstream default length when omitted
+  seconds?: number;
+  count?: number;
+}
+
+// One aggregated line of GET /api/usage; only the grouped dimensions are set
+export interface UsageSummaryRow {
+  day?: string;
+  key?: string;
+  provider?: string;
+  model?: string | null;
+  videos: number;
+  seconds: number;
+  cost: number;
+  // Videos whose model has no price; counted in videos/seconds but not in cost
+  unpriced: number;
+}
@@ -0,0 +1,47 @@
+import * as fs from 'fs';
+import { ConfigService } from '@nestjs/config';
+import { ModelPrice, PriceTable } from './interfaces/usage.interface';
+
+/**
+ * OpenAI list prices per generated second; replace with PRICE_TABLE_FILE for negotiated or Azure rates
+ */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  currency: 'USD',
+  models: {
+    'sora-2': { perSecond: 0.1 },
+    'sora-2-pro': { perSecond: 0.3, sizes: { '1024x1792': 0.5, '1792x1024': 0.5 } },
+  },
+};
+
+/**
+ * Price table from the JSON file named by PRICE_TABLE_FILE, or the built-in list prices
+ */
+export function loadPriceTable(configService: ConfigService): PriceTable {
+  const file = configService.get<string>('PRICE_TABLE_FILE');
+  if (!file) return DEFAULT_PRICE_TABLE;
+  let table: PriceTable;
+  try {
+    table = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`PRICE_TABLE_FILE '${file}' could not be read: ${error?.message || error}`);
+  }
+  const prices = [table?.models, ...Object.values(table?.providers || {})];
+  const valid = typeof table?.currency === 'string'
+    && prices.every((models) => models && typeof models === 'object'
+      && Object.values(models).every((price) => Number.isFinite(price?.perSecond)));
+  if (!valid) {
+    throw new Error(`PRICE_TABLE_FILE '${file}' must contain a currency and a perSecond price for every model`);
+  }
+  return table;
+}
+
+/**
+ * Per-second price of a model at a resolution, or null when the table does not price the model
+ */
+export function unitPrice(table: PriceTable, provider: string, model?: string, size?: string): number | null {
+  if (!model) return null;
+  const price: ModelPrice | undefined = table.providers?.[provider]?.[model] ?? table.models[model];
+  if (!price) return null;
+  const sized = size ? price.sizes?.[size.toLowerCase()] : undefined;
+  return sized ?? price.perSecond;
+}
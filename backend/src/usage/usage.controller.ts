@@ -0,0 +1,19 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { UsageService } from './usage.service';
+import { UsageQueryDto } from './dto/usage.dto';
+import { ApiKey } from '../video/decorators/api-key.decorator';
+import { callerIdFromApiKey } from '../common/caller-id';
+
+@Controller('api/usage')
+export class UsageController {
+  constructor(private readonly usageService: UsageService) {}
+
+  /**
+   * Spend recorded for the calling key's created and remixed videos, aggregated
+   * GET /api/usage?provider=&model=&since=&until=&groupBy=day,key,provider,model
+   */
+  @Get()
+  getUsage(@Query() query: UsageQueryDto, @ApiKey() apiKey?: string) {
+    return this.usageService.summarize(query, callerIdFromApiKey(apiKey));
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { JobsModule } from '../jobs/jobs.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { UsageController } from './usage.controller';
+import { AdminUsageController } from './admin-usage.controller';
+import { UsageService } from './usage.service';
+
+@Module({
+  imports: [JobsModule, MetricsModule],
+  controllers: [UsageController, AdminUsageController],
+  providers: [UsageService],
+  exports: [UsageService],
+})
+export class UsageModule {}
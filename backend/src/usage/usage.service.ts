@@ -0,0 +1,183 @@
+import { BadRequestException, Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Subscription, filter } from 'rxjs';
+import { JsonFileStore, resolveDataFile } from '../common/json-file-store';
+import { JobsService } from '../jobs/jobs.service';
+import { VideoJob } from '../jobs/interfaces/video-job.interface';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { PriceTable, UsageEntry, UsageEstimateRequest, UsageSummaryRow } from './interfaces/usage.interface';
+import { UsageQueryDto } from './dto/usage.dto';
+import { loadPriceTable, unitPrice } from './price-table';
+
+const GROUP_KEYS = ['day', 'key', 'provider', 'model'] as const;
+
+type UsageGroupKey = typeof GROUP_KEYS[number];
+
+/**
+ * Prices video jobs and keeps a ledger of what every key spent.
+ *
+ * One entry is written per job the proxy records as created (create, image create or remix),
+ * using the model, size and seconds upstream reported. Prices come from the table loaded at
+ * startup; entries keep the price they were charged at, so changing the table does not
+ * rewrite history.
+ */
+@Injectable()
+export class UsageService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(UsageService.name);
+  private readonly store: JsonFileStore<UsageEntry>;
+  private readonly priceTable: PriceTable;
+  private subscription?: Subscription;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jobsService: JobsService,
+    private readonly metricsService: MetricsService,
+  ) {
+    this.store = new JsonFileStore<UsageEntry>(resolveDataFile(this.configService, 'usage.json'));
+    this.priceTable = loadPriceTable(this.configService);
+    for (const models of [this.priceTable.models, ...Object.values(this.priceTable.providers || {})]) {
+      for (const model of Object.keys(models)) this.metricsService.registerModel(model);
+    }
+  }
+
+  get currency(): string {
+    return this.priceTable.currency;
+  }
+
+  onModuleInit() {
+    this.subscription = this.jobsService.events$
+      .pipe(filter((event) => event.type === 'created'))
+      .subscribe((event) => this.record(event.job));
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Expected cost of `count` videos with the given settings, without calling upstream
+   */
+  estimate(request: UsageEstimateRequest) {
+    const seconds = ApiKeysService.requestedSeconds(request.seconds);
+    const size = request.size?.toLowerCase();
+    const count = request.count ?? 1;
+    const price = unitPrice(this.priceTable, request.provider, request.model, size);
+    return {
+      object: 'video.estimate',
+      provider: request.provider,
+      model: request.model ?? null,
+      size: size ?? null,
+      seconds,
+      count,
+      currency: this.priceTable.currency,
+      unit_price: price,
+      cost: price == null ? null : roundCost(price * seconds * count),
+    };
+  }
+
+  /**
+   * Total charged to any of `callers` since a point in time
+   */
+  spent(callers: string[], since: Date): number {
+    const sinceIso = since.toISOString();
+    return this.store
+      .values()
+      .filter((entry) => callers.includes(entry.caller) && entry.createdAt >= sinceIso)
+      .reduce((sum, entry) => roundCost(sum + (entry.cost ?? 0)), 0);
+  }
+
+  /**
+   * Ledger totals grouped by any of day (UTC), key, provider and model. With a `callerId` only
+   * that caller's spend is counted; without one (admin) `query.key` filters.
+   */
+  summarize(query: UsageQueryDto, callerId?: string) {
+    const groupBy = this.parseGroupBy(query.groupBy);
+    const key = callerId ?? query.key;
+    const since = query.since ? Date.parse(query.since) : undefined;
+    const until = query.until ? Date.parse(query.until) : undefined;
+
+    const rows = new Map<string, UsageSummaryRow>();
+    const total: UsageSummaryRow = { videos: 0, seconds: 0, cost: 0, unpriced: 0 };
+    for (const entry of this.store.values()) {
+      if (key && entry.caller !== key) continue;
+      if (query.provider && entry.provider !== query.provider) continue;
+      if (query.model && entry.model !== query.model) continue;
+      const created = Date.parse(entry.createdAt);
+      if (since != null && !Number.isNaN(since) && created < since) continue;
+      if (until != null && !Number.isNaN(until) && created > until) continue;
+
+      const dimensions = {
+        day: entry.createdAt.slice(0, 10),
+        key: entry.caller,
+        provider: entry.provider,
+        model: entry.model ?? null,
+      };
+      const group = Object.fromEntries(groupBy.map((name) => [name, dimensions[name]]));
+      const groupKey = JSON.stringify(group);
+      const row = rows.get(groupKey) ?? { ...group, videos: 0, seconds: 0, cost: 0, unpriced: 0 };
+      rows.set(groupKey, row);
+      for (const target of [row, total]) {
+        target.videos += 1;
+        target.seconds += entry.seconds;
+        if (entry.cost == null) target.unpriced += 1;
+        else target.cost = roundCost(target.cost + entry.cost);
+      }
+    }
+
+    const data = Array.from(rows.values()).sort((a, b) => {
+      for (const name of groupBy) {
+        const order = String(a[name] ?? '').localeCompare(String(b[name] ?? ''));
+        // Newest day first, everything else alphabetical
+        if (order) return name === 'day' ? -order : order;
+      }
+      return 0;
+    });
+    return { object: 'list', currency: this.priceTable.currency, group_by: groupBy, data, total };
+  }
+
+  private record(job: VideoJob) {
+    if (this.store.has(job.id)) return;
+    try {
+      // Remix responses may omit what the source was rendered with
+      const source = job.remixOf ? this.jobsService.get(job.remixOf) : undefined;
+      const model = job.model ?? source?.model;
+      const size = (job.size ?? source?.size)?.toLowerCase();
+      const seconds = ApiKeysService.requestedSeconds(job.seconds ?? source?.seconds);
+      const price = unitPrice(this.priceTable, job.provider, model, size);
+      this.store.upsert({
+        id: job.id,
+        operation: job.remixOf ? 'remix' : 'create',
+        caller: job.caller,
+        provider: job.provider,
+        model,
+        size,
+        seconds,
+        unitPrice: price,
+        cost: price == null ? null : roundCost(price * seconds),
+        currency: this.priceTable.currency,
+        createdAt: job.createdAt,
+      });
+      if (price == null) {
+        this.logger.warn(`No price for model '${model}' on ${job.provider}; usage of ${job.id} recorded without cost`);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to record usage for ${job.id}: ${error?.message || error}`);
+    }
+  }
+
+  private parseGroupBy(raw?: string): UsageGroupKey[] {
+    if (!raw) return [...GROUP_KEYS];
+    const names = raw.split(',').map((name) => name.trim()).filter(Boolean);
+    const unknown = names.filter((name) => !(GROUP_KEYS as readonly string[]).includes(name));
+    if (unknown.length) {
+      throw new BadRequestException(`groupBy accepts ${GROUP_KEYS.join(', ')} (got ${unknown.join(', ')})`);
+    }
+    return GROUP_KEYS.filter((name) => names.includes(name));
+  }
+}
+
+// Keep sums of per-second prices free of floating point noise
+function roundCost(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
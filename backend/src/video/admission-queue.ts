@@ -0,0 +1,386 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { Observable, Subject, Subscription, concat, concatMap, filter, of, takeWhile } from 'rxjs';
+import { JobsService } from '../jobs/jobs.service';
+import { JobStatusPoller } from './job-status.poller';
+import { MetricsService } from '../metrics/metrics.service';
+import { UpstreamError, UpstreamVideo } from './providers/video-provider.interface';
+
+export type AdmissionPriority = 'high' | 'normal' | 'low';
+
+export const ADMISSION_PRIORITIES: AdmissionPriority[] = ['high', 'normal', 'low'];
+
+type PendingState = 'pending_submit' | 'submitting' | 'submitted' | 'failed' | 'cancelled';
+
+export interface AdmissionRequest {
+  caller: string;
+  // Upstream account the create runs on (OpenAIService.credentialId)
+  credential: string;
+  provider: string;
+  priority?: string;
+  // Fields echoed back while the request waits: model, prompt, size, seconds, remixed_from_video_id
+  details: Record<string, unknown>;
+  // Performs the upstream create; receives the proxy-side id the request was queued under
+  submit: (pendingId?: string) => Promise<UpstreamVideo>;
+}
+
+interface PendingRequest {
+  id: string;
+  caller: string;
+  credential: string;
+  provider: string;
+  priority: AdmissionPriority;
+  seq: number;
+  details: Record<string, unknown>;
+  submit?: (pendingId?: string) => Promise<UpstreamVideo>;
+  state: PendingState;
+  videoId?: string;
+  error?: { code: string; message: string };
+  enqueuedAt: number;
+  settledAt?: number;
+  settled: Promise<UpstreamVideo>;
+  resolve: (video: UpstreamVideo) => void;
+  reject: (error: unknown) => void;
+}
+
+// How long settled requests stay answerable under their pending id
+const SETTLED_RETENTION_MS = 24 * 3600 * 1000;
+
+/**
+ * Holds job-creating calls locally while an upstream credential is at its concurrent-job cap.
+ *
+ * In-flight jobs are counted per credential from the job registry (jobs the poller can still
+ * drive to a terminal status). When a credential is full, or upstream answers a create with
+ * 429, the request is parked under a proxy-side `pending_...` id in state `pending_submit` and
+ * submitted, highest priority class first, once a slot frees. Waiting requests (and the caller
+ * keys and uploads their submit closures hold) live in memory only.
+ */
+@Injectable()
+export class AdmissionQueue implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AdmissionQueue.name);
+  private readonly tickMs: number;
+  private readonly maxQueued: number;
+  private readonly maxWaitMs: number;
+  private readonly retryDelayMs: number;
+  private readonly requests = new Map<string, PendingRequest>();
+  // Credentials that answered 429, blocked until the given time
+  private readonly blockedUntil = new Map<string, number>();
+  // Creates currently on the wire, per credential
+  private readonly submitting = new Map<string, number>();
+  private readonly changes = new Subject<PendingRequest>();
+  private subscription?: Subscription;
+  private timer?: NodeJS.Timeout;
+  private seq = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jobsService: JobsService,
+    private readonly jobStatusPoller: JobStatusPoller,
+    private readonly metricsService: MetricsService,
+  ) {
+    this.tickMs = Number(this.configService.get<string>('ADMISSION_TICK_MS')) || 1000;
+    this.maxQueued = Number(this.configService.get<string>('ADMISSION_MAX_QUEUED')) || 100;
+    this.maxWaitMs = (Number(this.configService.get<string>('ADMISSION_MAX_WAIT_MINUTES')) || 60) * 60 * 1000;
+    this.retryDelayMs = Number(this.configService.get<string>('ADMISSION_RETRY_DELAY_MS')) || 15000;
+  }
+
+  static isPendingId(id: string): boolean {
+    return /^pending_[0-9a-f]+$/.test(id || '');
+  }
+
+  onModuleInit() {
+    // A job reaching a terminal status frees a slot on its credential
+    this.subscription = this.jobsService.events$
+      .pipe(filter((event) => event.type === 'updated' && JobsService.isTerminal(event.job.status)))
+      .subscribe(() => this.drain());
+    this.metricsService.gauge(
+      'admission_queue_depth',
+      'Creates waiting for upstream capacity, by provider and priority',
+      ['provider', 'priority'],
+      (gauge) => {
+        for (const request of this.waitingInOrder()) gauge.inc({ provider: request.provider, priority: request.priority });
+      },
+    );
+    this.schedule();
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Submit now when the credential has room, otherwise park the request and return its placeholder
+   */
+  async admit(request: AdmissionRequest): Promise<UpstreamVideo> {
+    const priority = (request.priority || 'normal').toLowerCase() as AdmissionPriority;
+    if (!ADMISSION_PRIORITIES.includes(priority)) {
+      throw new BadRequestException(`x-priority must be one of: ${ADMISSION_PRIORITIES.join(', ')}`);
+    }
+    if (!this.hasWaiting(request.credential) && this.freeSlots(request.credential, request.provider) > 0) {
+      this.adjustSubmitting(request.credential, 1);
+      try {
+        return await request.submit();
+      } catch (error) {
+        if (!this.isUpstreamThrottle(error)) throw error;
+        this.block(request.credential, error);
+      } finally {
+        this.adjustSubmitting(request.credential, -1);
+      }
+    }
+    const parked = this.enqueue(request, priority);
+    // Requests already waiting on this credential may be able to go now, in priority order
+    this.drain();
+    return this.view(parked);
+  }
+
+  /**
+   * Current view of a parked request; submitted requests report the id of the job they became
+   */
+  lookup(id: string, caller: string): { view: Record<string, unknown>; videoId?: string } {
+    const request = this.find(id, caller);
+    return { view: this.view(request), videoId: request.videoId };
+  }
+
+  /**
+   * Resolves with the created video once a parked request reaches upstream
+   */
+  whenSubmitted(id: string): Promise<UpstreamVideo> {
+    const request = this.requests.get(id);
+    return request ? request.settled : Promise.reject(new NotFoundException(`Request '${id}' not found`));
+  }
+
+  /**
+   * Withdraw a request that has not been submitted yet
+   */
+  cancel(id: string, caller: string) {
+    const request = this.find(id, caller);
+    if (request.state === 'pending_submit') {
+      this.settle(request, 'cancelled', undefined, { code: 'cancelled', message: 'Request was cancelled before submission' });
+    }
+    return this.view(request);
+  }
+
+  /**
+   * Job-shaped updates for a parked request: its waiting state, then the created job's updates
+   */
+  watch(id: string, caller: string): Observable<object> {
+    const request = this.find(id, caller);
+    return concat(of(request), this.changes.pipe(filter((changed) => changed.id === id))).pipe(
+      takeWhile((current) => current.state === 'pending_submit' || current.state === 'submitting', true),
+      concatMap((current) => current.state === 'submitted'
+        ? this.jobsService.watch(current.videoId)
+        : of({
+          id: current.id,
+          provider: current.provider,
+          status: current.state === 'submitting' ? 'pending_submit' : current.state,
+          prompt: current.details.prompt,
+          error: current.error?.message,
+        })),
+    );
+  }
+
+  /**
+   * Requests waiting for capacity across all accounts, and the per-account cap
+   */
+  depth() {
+    return { waiting: this.waitingInOrder().length, maxQueuedPerAccount: this.maxQueued };
+  }
+
+  /**
+   * Submit parked requests while their credentials have free slots; also expires stale ones.
+   * Public so tests can drive it without timers.
+   */
+  drain(now = Date.now()) {
+    for (const request of this.requests.values()) {
+      if (request.state === 'pending_submit' && now - request.enqueuedAt > this.maxWaitMs) {
+        this.settle(request, 'failed', undefined, {
+          code: 'admission_timeout',
+          message: `Upstream capacity did not free up within ${Math.round(this.maxWaitMs / 60000)} minutes`,
+        });
+      } else if (request.settledAt && now - request.settledAt > SETTLED_RETENTION_MS) {
+        this.requests.delete(request.id);
+      }
+    }
+    for (const request of this.waitingInOrder()) {
+      if (request.state !== 'pending_submit') continue;
+      if (this.freeSlots(request.credential, request.provider, now) <= 0) continue;
+      void this.submitParked(request);
+    }
+  }
+
+  private async submitParked(request: PendingRequest) {
+    request.state = 'submitting';
+    this.changes.next(request);
+    this.adjustSubmitting(request.credential, 1);
+    try {
+      const video = await request.submit(request.id);
+      this.settle(request, 'submitted', video);
+      this.logger.log(`Submitted ${request.id} as ${video?.id} after ${Math.round((Date.now() - request.enqueuedAt) / 1000)}s`);
+    } catch (error) {
+      if (this.isUpstreamThrottle(error)) {
+        // Still full upstream: back to the head of its class and wait for the block to lapse
+        this.block(request.credential, error);
+        request.state = 'pending_submit';
+        this.changes.next(request);
+      } else {
+        this.logger.warn(`Parked request ${request.id} failed on submit: ${error?.message || error}`);
+        this.settle(request, 'failed', undefined, {
+          code: error?.response?.data?.error?.code ?? 'submit_failed',
+          message: error?.response?.data?.error?.message ?? error?.message ?? 'Submission failed',
+        }, error);
+      }
+    } finally {
+      this.adjustSubmitting(request.credential, -1);
+    }
+  }
+
+  private enqueue(request: AdmissionRequest, priority: AdmissionPriority): PendingRequest {
+    const waiting = this.waitingInOrder().filter((parked) => parked.credential === request.credential).length;
+    if (waiting >= this.maxQueued) {
+      throw new HttpException(
+        { message: `Too many requests are waiting for upstream capacity (${waiting})`, code: 'admission_queue_full' },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    let resolve: (video: UpstreamVideo) => void;
+    let reject: (error: unknown) => void;
+    const settled = new Promise<UpstreamVideo>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Only internal callers await this; an unobserved failure must not surface as an unhandled rejection
+    settled.catch(() => undefined);
+    const parked: PendingRequest = {
+      id: `pending_${randomBytes(12).toString('hex')}`,
+      caller: request.caller,
+      credential: request.credential,
+      provider: request.provider,
+      priority,
+      seq: this.seq++,
+      details: request.details,
+      submit: request.submit,
+      state: 'pending_submit',
+      enqueuedAt: Date.now(),
+      settled,
+      resolve,
+      reject,
+    };
+    this.requests.set(parked.id, parked);
+    this.logger.log(`Parked ${parked.id} (${priority}) until ${request.provider} has capacity`);
+    return parked;
+  }
+
+  private settle(request: PendingRequest, state: PendingState, video?: UpstreamVideo, error?: PendingRequest['error'], cause?: unknown) {
+    request.state = state;
+    request.settledAt = Date.now();
+    request.submit = undefined;
+    if (video) {
+      request.videoId = String(video.id);
+      request.resolve(video);
+    } else {
+      request.error = error;
+      request.reject(cause ?? new Error(error.message));
+    }
+    this.changes.next(request);
+  }
+
+  private view(request: PendingRequest): UpstreamVideo & Record<string, unknown> {
+    const view: UpstreamVideo & Record<string, unknown> = {
+      id: request.id,
+      object: 'video',
+      status: request.state === 'submitting' ? 'pending_submit' : request.state,
+      ...request.details,
+      created_at: Math.floor(request.enqueuedAt / 1000),
+      provider: request.provider,
+      priority: request.priority,
+    };
+    if (request.state === 'pending_submit') {
+      const ahead = this.waitingInOrder().filter((parked) => parked.credential === request.credential);
+      view.queue_position = ahead.indexOf(request) + 1;
+    }
+    if (request.videoId) view.video_id = request.videoId;
+    if (request.error) view.error = request.error;
+    return view;
+  }
+
+  /**
+   * Requests not submitted yet, in dispatch order: priority class, then arrival
+   */
+  private waitingInOrder(): PendingRequest[] {
+    return Array.from(this.requests.values())
+      .filter((request) => request.state === 'pending_submit' || request.state === 'submitting')
+      .sort((a, b) => ADMISSION_PRIORITIES.indexOf(a.priority) - ADMISSION_PRIORITIES.indexOf(b.priority) || a.seq - b.seq);
+  }
+
+  private hasWaiting(credential: string): boolean {
+    return this.waitingInOrder().some((request) => request.credential === credential);
+  }
+
+  private freeSlots(credential: string, provider: string, now = Date.now()): number {
+    if ((this.blockedUntil.get(credential) ?? 0) > now) return 0;
+    const limit = this.maxInFlight(provider);
+    if (!limit) return Infinity;
+    const inFlight = this.jobsService
+      .listPending()
+      .filter((job) => job.credential === credential && this.jobStatusPoller.isActive(job, now)).length;
+    return limit - inFlight - (this.submitting.get(credential) ?? 0);
+  }
+
+  private maxInFlight(provider: string): number {
+    return Number(this.configService.get<string>(`ADMISSION_MAX_IN_FLIGHT_${provider.toUpperCase()}`))
+      || Number(this.configService.get<string>('ADMISSION_MAX_IN_FLIGHT'))
+      || 0;
+  }
+
+  private adjustSubmitting(credential: string, delta: number) {
+    const next = (this.submitting.get(credential) ?? 0) + delta;
+    if (next > 0) this.submitting.set(credential, next);
+    else this.submitting.delete(credential);
+  }
+
+  /**
+   * Upstream (not proxy quota) 429 on a create: the account is at its concurrency or rate cap
+   */
+  private isUpstreamThrottle(error: UpstreamError & { getStatus?: unknown }): boolean {
+    return error?.response?.status === 429 && typeof error?.getStatus !== 'function';
+  }
+
+  private block(credential: string, error: UpstreamError) {
+    const retryAfter = Number(error?.response?.headers?.['retry-after']);
+    const delayMs = Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : this.retryDelayMs;
+    this.blockedUntil.set(credential, Date.now() + delayMs);
+    this.logger.warn(`Upstream throttled credential ${credential.split('|')[0]}; holding creates for ${delayMs}ms`);
+  }
+
+  private find(id: string, caller: string): PendingRequest {
+    const request = this.requests.get(id);
+    if (!request || request.caller !== caller) {
+      throw new NotFoundException(`Video '${id}' not found`);
+    }
+    return request;
+  }
+
+  private schedule() {
+    this.timer = setTimeout(() => {
+      try {
+        this.drain();
+      } catch (error) {
+        this.logger.error(`Admission tick failed: ${error?.message || error}`);
+      } finally {
+        if (this.timer) this.schedule();
+      }
+    }, this.tickMs);
+  }
+}
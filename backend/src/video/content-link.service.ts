@@ -0,0 +1,145 @@
+import { ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { callerIdFromApiKey, proxyKeyIdFromToken } from '../common/caller-id';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { ProviderOptions } from './providers/video-provider.interface';
+import { DEFAULT_PROVIDER } from './providers/video-provider.registry';
+
+interface ContentLinkClaims {
+  // Video id the link is valid for
+  vid: string;
+  // Expiry, unix seconds
+  exp: number;
+  // Caller id of the requester ('server', 'pk_...' or 'key_...')
+  sub: string;
+  // Handle of a raw upstream key held in memory for this link
+  hk?: string;
+  p?: Pick<ProviderOptions, 'provider' | 'profile' | 'azureEndpoint' | 'azureApiVersion' | 'azureDeployment' | 'profileCleared'>;
+}
+
+export interface ContentLinkOptions {
+  expiresIn?: number;
+  disposition?: string;
+  variant?: string;
+}
+
+export interface ResolvedContentLink {
+  apiKey?: string;
+  providerOpts: ProviderOptions;
+}
+
+/**
+ * Short-lived, HMAC-signed download links for `GET /api/videos/:id/content?token=...`,
+ * so credentials never appear in URLs. Tokens carry the video id, expiry, caller and
+ * provider options; proxy-issued keys are re-resolved by record id at download time, while
+ * raw upstream keys stay in process memory for the lifetime of the link.
+ */
+@Injectable()
+export class ContentLinkService {
+  private readonly logger = new Logger(ContentLinkService.name);
+  private readonly secret: Buffer;
+  private readonly ttlSeconds: number;
+  private readonly maxTtlSeconds: number;
+  private readonly heldKeys = new Map<string, { apiKey: string; expiresAt: number }>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly apiKeysService: ApiKeysService,
+  ) {
+    const secret = this.configService.get<string>('DOWNLOAD_LINK_SECRET');
+    if (!secret) {
+      this.logger.warn('DOWNLOAD_LINK_SECRET is not set; download links will not survive a restart');
+    }
+    this.secret = secret ? Buffer.from(secret) : randomBytes(32);
+    this.maxTtlSeconds = Number(this.configService.get<string>('DOWNLOAD_LINK_MAX_TTL_SECONDS')) || 3600;
+    this.ttlSeconds = Math.min(this.maxTtlSeconds, Number(this.configService.get<string>('DOWNLOAD_LINK_TTL_SECONDS')) || 900);
+  }
+
+  create(videoId: string, apiKey?: string, providerOpts?: ProviderOptions, options: ContentLinkOptions = {}) {
+    const ttl = Math.min(this.maxTtlSeconds, options.expiresIn || this.ttlSeconds);
+    const exp = Math.floor(Date.now() / 1000) + ttl;
+    const claims: ContentLinkClaims = {
+      vid: videoId,
+      exp,
+      sub: callerIdFromApiKey(apiKey),
+      p: {
+        provider: providerOpts?.provider,
+        profile: providerOpts?.profile,
+        azureEndpoint: providerOpts?.azureEndpoint,
+        azureApiVersion: providerOpts?.azureApiVersion,
+        azureDeployment: providerOpts?.azureDeployment,
+        profileCleared: providerOpts?.profileCleared,
+      },
+    };
+    if (apiKey && !proxyKeyIdFromToken(apiKey)) {
+      this.pruneHeldKeys();
+      claims.hk = randomBytes(12).toString('hex');
+      this.heldKeys.set(claims.hk, { apiKey, expiresAt: exp * 1000 });
+    }
+    const body = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    const query = new URLSearchParams({ token: `${body}.${this.sign(body)}` });
+    // The token grants the whole video; variant and disposition stay outside the signed claims
+    if (options.variant) query.set('variant', options.variant);
+    if (options.disposition) query.set('disposition', options.disposition);
+    return {
+      object: 'video.content_link',
+      url: `/api/videos/${encodeURIComponent(videoId)}/content?${query}`,
+      expires_at: exp,
+    };
+  }
+
+  /**
+   * Check a token presented on the content route and recover the credentials to fetch with
+   */
+  resolve(videoId: string, token?: string): ResolvedContentLink {
+    if (!token) {
+      throw new ForbiddenException('A signed download token is required; request one via POST /api/videos/:id/content-link');
+    }
+    const [body, signature] = token.split('.');
+    if (!body || !signature || !this.verify(body, signature)) {
+      throw new ForbiddenException('Invalid download token');
+    }
+    let claims: ContentLinkClaims;
+    try {
+      claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+      throw new ForbiddenException('Invalid download token');
+    }
+    if (claims.vid !== videoId) {
+      throw new ForbiddenException('Download token was issued for a different video');
+    }
+    if (!(claims.exp * 1000 > Date.now())) {
+      throw new ForbiddenException('Download link has expired');
+    }
+
+    const providerOpts: ProviderOptions = { ...claims.p };
+    if (claims.sub === 'server') return { providerOpts };
+    if (claims.sub.startsWith('pk_')) {
+      const apiKey = this.apiKeysService.upstreamKeyForKeyId(claims.sub, providerOpts.provider || DEFAULT_PROVIDER);
+      return { apiKey, providerOpts };
+    }
+    const held = claims.hk ? this.heldKeys.get(claims.hk) : undefined;
+    if (!held) {
+      throw new ForbiddenException('Download link is no longer valid; request a new one');
+    }
+    return { apiKey: held.apiKey, providerOpts };
+  }
+
+  private sign(body: string): string {
+    return createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+
+  private verify(body: string, signature: string): boolean {
+    const expected = Buffer.from(this.sign(body));
+    const provided = Buffer.from(signature);
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  }
+
+  private pruneHeldKeys() {
+    const now = Date.now();
+    for (const [handle, held] of this.heldKeys) {
+      if (held.expiresAt <= now) this.heldKeys.delete(handle);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiHeader, ApiResponse, ApiSecurity } from '@nestjs/swagger';
+import { ADMISSION_PRIORITIES } from '../admission-queue';
+import { ApiErrorDto } from '../dto/video-response.dto';
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'Invalid request body, headers (e.g. unknown provider profile) or upstream 400',
+  401: 'Missing or invalid API key',
+  402: 'A budget covering the caller does not cover the estimated cost (code budget_exceeded)',
+  403: 'The proxy key or provider profile may not use this provider, model or video',
+  404: 'Video not found upstream or not created by this caller',
+  409: 'Idempotency-Key reused with a different request, or still in progress',
+  429: 'Upstream rate limit, proxy key quota or admission queue full',
+  502: 'Upstream error',
+};
+
+/**
+ * Headers selecting and authenticating against the upstream backend, read by @ProviderOpts and @ApiKey
+ */
+export function ApiProviderHeaders() {
+  return applyDecorators(
+    ApiSecurity('api-key'),
+    ApiHeader({ name: 'x-provider', required: false, description: "Video backend; defaults to openai. 'auto' creates on the server's routing order, falling back on 429/5xx", schema: { type: 'string', example: 'openai' } }),
+    ApiHeader({ name: 'x-provider-profile', required: false, description: 'Named server-side profile (GET /api/profiles); replaces x-provider and x-azure-*' }),
+    ApiHeader({ name: 'x-azure-endpoint', required: false, description: 'Azure OpenAI resource endpoint (x-provider: azure); https, on AZURE_ENDPOINT_ALLOWLIST, and used with your own Azure key only' }),
+    ApiHeader({ name: 'x-azure-version', required: false, description: "Azure api-version; video APIs always use 'preview'" }),
+    ApiHeader({ name: 'x-azure-deployment', required: false, description: 'Azure deployment name' }),
+  );
+}
+
+/**
+ * Headers accepted by job-creating routes
+ */
+export function ApiCreateHeaders() {
+  return applyDecorators(
+    ApiHeader({
+      name: 'Idempotency-Key',
+      required: false,
+      description: 'Replays the stored response for a repeated request and allows upstream retries; forwarded upstream hashed with the caller identity',
+    }),
+    ApiHeader({
+      name: 'x-priority',
+      required: false,
+      description: 'Admission queue priority when the upstream account is at capacity; high needs a proxy key with allowHighPriority or the admin token (Authorization: Bearer), otherwise it counts as normal',
+      schema: { type: 'string', enum: [...ADMISSION_PRIORITIES], default: 'normal' },
+    }),
+  );
+}
+
+/**
+ * Error responses (shaped like ApiErrorDto) a route can return
+ */
+export function ApiErrorResponses(...statuses: number[]) {
+  return applyDecorators(
+    ...statuses.map((status) => ApiResponse({ status, description: ERROR_DESCRIPTIONS[status], type: ApiErrorDto })),
+  );
+}
@@ -0,0 +1,23 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { ProviderOptions } from '../providers/video-provider.interface';
+import { callerIdFromApiKey, upstreamIdempotencyKey } from '../../common/caller-id';
+
+export const ProviderOpts = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): ProviderOptions => {
+    const request = ctx.switchToHttp().getRequest();
+    // 从请求头中获取 provider 及 Azure 相关配置
+    return {
+      provider: request.headers['x-provider'],
+      profile: request.headers['x-provider-profile'],
+      azureEndpoint: request.headers['x-azure-endpoint'],
+      azureApiVersion: request.headers['x-azure-version'],
+      azureDeployment: request.headers['x-azure-deployment'],
+      // Scoped to the caller: callers sharing an upstream account may pick the same key
+      idempotencyKey: upstreamIdempotencyKey(
+        callerIdFromApiKey(request.headers['x-api-key'] || request.headers['x-openai-key']),
+        request.headers['idempotency-key'],
+      ),
+      priority: request.headers['x-priority'],
+    };
+  },
+);
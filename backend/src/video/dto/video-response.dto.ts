@@ -0,0 +1,154 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+// Response shapes of /api/videos, used only to describe the API in the OpenAPI document
+
+export class VideoErrorDto {
+  @ApiProperty({ example: 'moderation_blocked' })
+  code: string;
+
+  @ApiProperty()
+  message: string;
+}
+
+export class VideoObjectDto {
+  @ApiProperty({ description: "Upstream video id, or a proxy-side 'pending_...' id while held by the admission queue", example: 'video_68d7512d07848190b3e45da0ecbebcde004da08e1e0678d5' })
+  id: string;
+
+  @ApiProperty({ example: 'video' })
+  object: string;
+
+  @ApiProperty({ enum: ['pending_submit', 'queued', 'in_progress', 'completed', 'failed', 'cancelled'] })
+  status: string;
+
+  @ApiPropertyOptional({ example: 'sora-2' })
+  model?: string;
+
+  @ApiPropertyOptional({ description: 'Render progress, 0-100' })
+  progress?: number;
+
+  @ApiPropertyOptional({ example: '8' })
+  seconds?: string;
+
+  @ApiPropertyOptional({ example: '1280x720' })
+  size?: string;
+
+  @ApiPropertyOptional({ description: 'Unix seconds' })
+  created_at?: number;
+
+  @ApiPropertyOptional({ description: 'Unix seconds' })
+  completed_at?: number;
+
+  @ApiPropertyOptional()
+  remixed_from_video_id?: string;
+
+  @ApiPropertyOptional({ description: 'Pending id this video was created from, once the admission queue submitted it' })
+  pending_id?: string;
+
+  @ApiPropertyOptional({ description: 'Position among requests waiting for the same upstream account (pending_submit only)' })
+  queue_position?: number;
+
+  @ApiPropertyOptional({ type: VideoErrorDto })
+  error?: VideoErrorDto;
+}
+
+export class VideoListDto {
+  @ApiProperty({ example: 'list' })
+  object: string;
+
+  @ApiProperty({ type: [VideoObjectDto] })
+  data: VideoObjectDto[];
+
+  @ApiPropertyOptional()
+  first_id?: string;
+
+  @ApiPropertyOptional()
+  last_id?: string;
+
+  @ApiPropertyOptional()
+  has_more?: boolean;
+}
+
+export class DeletedVideoDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: 'video.deleted' })
+  object: string;
+
+  @ApiProperty()
+  deleted: boolean;
+}
+
+export class VideoEstimateDto {
+  @ApiProperty({ example: 'video.estimate' })
+  object: string;
+
+  @ApiProperty({ example: 'openai' })
+  provider: string;
+
+  @ApiProperty({ nullable: true, example: 'sora-2' })
+  model: string | null;
+
+  @ApiProperty({ nullable: true, example: '1280x720' })
+  size: string | null;
+
+  @ApiProperty({ example: 8 })
+  seconds: number;
+
+  @ApiProperty({ example: 1 })
+  count: number;
+
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ nullable: true, description: 'Price per generated second; null when the model has no price', example: 0.1 })
+  unit_price: number | null;
+
+  @ApiProperty({ nullable: true, example: 0.8 })
+  cost: number | null;
+}
+
+export class ContentLinkDto {
+  @ApiProperty({ example: 'video.content_link' })
+  object: string;
+
+  @ApiProperty({ description: 'Relative URL of GET /api/videos/{id}/content with a signed token', example: '/api/videos/video_123/content?token=...' })
+  url: string;
+
+  @ApiProperty({ description: 'Unix seconds' })
+  expires_at: number;
+}
+
+export class ProviderProfileDto {
+  @ApiProperty({ example: 'azure-eastus-prod' })
+  name: string;
+
+  @ApiProperty({ example: 'azure' })
+  provider: string;
+
+  @ApiPropertyOptional({ description: 'Model sent upstream for creates', example: 'sora-2' })
+  deployment?: string;
+
+  @ApiPropertyOptional({ description: 'Models callers may request; any when absent', type: [String] })
+  models?: string[];
+}
+
+export class ApiErrorDto {
+  @ApiProperty({
+    oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+    description: 'Error message; a list of messages for request validation errors',
+  })
+  message: string | string[];
+
+  @ApiPropertyOptional({ description: "Upstream or proxy error code, e.g. 'rate_limit_exceeded', 'budget_exceeded'" })
+  code?: string;
+
+  @ApiPropertyOptional()
+  type?: string;
+
+  @ApiPropertyOptional({ example: 'openai' })
+  upstream?: string;
+
+  @ApiPropertyOptional({ description: 'Raw upstream error body' })
+  details?: object;
+}
@@ -1,30 +1,107 @@
-import { IsString, IsOptional, IsIn } from 'class-validator';
+import { IsString, IsOptional, IsIn, IsUrl, IsInt, Matches, Min } from 'class-validator';
 import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CONTENT_VARIANTS, ContentVariant } from '../providers/video-provider.interface';
 
 export class GenerateVideoDto {
+  @ApiProperty({ example: 'A calico cat playing a piano on stage' })
   @IsString()
   prompt: string;
 
+  @ApiPropertyOptional({ default: 'sora-2', example: 'sora-2' })
   @IsOptional()
   @IsString()
   model?: string = 'sora-2';
 
+  @ApiPropertyOptional({ enum: ['720x1280', '1280x720'] })
   @IsOptional()
   @IsString()
   @IsIn(['720x1280', '1280x720'])
   size?: string;
 
+  @ApiPropertyOptional({ enum: [4, 8, 12], description: 'Length in seconds; upstream default (4) when omitted' })
   @IsOptional()
   @Type(() => Number)
   @IsIn([4, 8, 12])
   duration?: number;
+
+  @ApiPropertyOptional({ description: 'Webhook called when the job reaches a terminal status' })
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  callbackUrl?: string;
+}
+
+// Multipart body of POST /api/videos/generate/image; only used to document the upload
+export class GenerateVideoFromImageDto extends GenerateVideoDto {
+  @ApiProperty({ type: 'string', format: 'binary', description: 'Reference image used as the first frame' })
+  image: unknown;
 }
 
 export class RemixVideoDto {
+  @ApiProperty({ description: 'Completed video to remix' })
   @IsString()
   videoId: string;
 
+  @ApiProperty()
   @IsString()
   prompt: string;
+
+  @ApiPropertyOptional({ description: 'Webhook called when the job reaches a terminal status' })
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  callbackUrl?: string;
 }
 
+
+export class CreateContentLinkDto {
+  @ApiPropertyOptional({ minimum: 1, description: 'Link lifetime in seconds; capped by DOWNLOAD_LINK_MAX_TTL_SECONDS' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expiresIn?: number;
+
+  // 'inline' for players, 'attachment' (default) for downloads
+  @ApiPropertyOptional({ enum: ['inline', 'attachment'], default: 'attachment' })
+  @IsOptional()
+  @IsIn(['inline', 'attachment'])
+  disposition?: 'inline' | 'attachment';
+
+  // Content variant the link points at; defaults to the MP4
+  @ApiPropertyOptional({ enum: Object.keys(CONTENT_VARIANTS), default: 'video' })
+  @IsOptional()
+  @IsIn(Object.keys(CONTENT_VARIANTS))
+  variant?: ContentVariant;
+}
+
+export class EstimateVideoDto {
+  @ApiPropertyOptional({ default: 'sora-2' })
+  @IsOptional()
+  @IsString()
+  model?: string = 'sora-2';
+
+  @ApiPropertyOptional({ example: '1280x720' })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d+x\d+$/i, { message: 'size must look like 1280x720' })
+  size?: string;
+
+  @ApiPropertyOptional({ enum: [4, 8, 12] })
+  @IsOptional()
+  @Type(() => Number)
+  @IsIn([4, 8, 12])
+  duration?: number;
+
+  // Number of videos with these settings, e.g. the items of a planned batch
+  @ApiPropertyOptional({ minimum: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  count?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Estimate a remix of this video; model, size and length follow the source job' })
+  @IsOptional()
+  @IsString()
+  videoId?: string;
+}
@@ -0,0 +1,124 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JobStatusPoller } from './job-status.poller';
+import { OpenAIService } from './openai.service';
+import { JobsService } from '../jobs/jobs.service';
+
+const BASE_DELAY_MS = 5000;
+const HOUR_MS = 3600 * 1000;
+
+function upstreamError(status: number) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), { response: { status } });
+}
+
+describe('JobStatusPoller', () => {
+  let dataDir: string;
+  let jobs: JobsService;
+  let upstream: { getVideoStatus: jest.Mock };
+  let poller: JobStatusPoller;
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sora-proxy-poller-'));
+    const config = new ConfigService({ DATA_DIR: dataDir, JOB_POLL_ENABLED: 'false', JOB_POLL_INTERVAL_MS: String(BASE_DELAY_MS) });
+    jobs = new JobsService(config);
+    // Fake upstream: every test decides what the status call answers
+    upstream = { getVideoStatus: jest.fn() };
+    poller = new JobStatusPoller(upstream as unknown as OpenAIService, jobs, config);
+    // Subscribes to job events; the timer stays off (JOB_POLL_ENABLED=false) so tests drive tick()
+    poller.onModuleInit();
+  });
+
+  afterEach(() => {
+    poller.onModuleDestroy();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const created = (id: string, caller = 'server', extra = {}) =>
+    jobs.recordCreated({ id, status: 'queued' }, { provider: 'openai', caller, ...extra });
+
+  it('polls a tracked job once it is due and records the upstream status', async () => {
+    const job = created('video_1');
+    poller.track(job.id);
+    upstream.getVideoStatus.mockResolvedValue({ id: job.id, status: 'in_progress', progress: 40 });
+
+    const now = Date.now();
+    await poller.tick(now);
+    expect(upstream.getVideoStatus).not.toHaveBeenCalled();
+
+    await poller.tick(now + BASE_DELAY_MS);
+    expect(upstream.getVideoStatus).toHaveBeenCalledWith('video_1', undefined, expect.objectContaining({ provider: 'openai' }));
+    expect(jobs.get('video_1')).toMatchObject({ status: 'in_progress', progress: 40 });
+  });
+
+  it('stops polling a job once it reaches a terminal status', async () => {
+    const job = created('video_1', 'key_abc');
+    poller.track(job.id, 'sk-caller');
+    upstream.getVideoStatus.mockResolvedValue({ id: job.id, status: 'completed', progress: 100 });
+
+    const now = Date.now() + BASE_DELAY_MS;
+    await poller.tick(now);
+    expect(upstream.getVideoStatus).toHaveBeenCalledWith('video_1', 'sk-caller', expect.anything());
+    expect(jobs.get('video_1').status).toBe('completed');
+    expect(poller.heldKey('video_1')).toBeUndefined();
+
+    await poller.tick(now + HOUR_MS);
+    expect(upstream.getVideoStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it('backs off while the upstream errors, and marks a job gone upstream as failed', async () => {
+    created('video_1');
+    upstream.getVideoStatus.mockRejectedValueOnce(upstreamError(503)).mockRejectedValueOnce(upstreamError(404));
+
+    const now = Date.now();
+    await poller.tick(now);
+    expect(upstream.getVideoStatus).toHaveBeenCalledTimes(1);
+    expect(jobs.get('video_1').status).toBe('queued');
+
+    // Doubled to 10 s, less at most 10% jitter
+    await poller.tick(now + 8000);
+    expect(upstream.getVideoStatus).toHaveBeenCalledTimes(1);
+
+    await poller.tick(now + 11000);
+    expect(upstream.getVideoStatus).toHaveBeenCalledTimes(2);
+    expect(jobs.get('video_1')).toMatchObject({ status: 'failed', error: 'Video not found upstream' });
+  });
+
+  it('skips jobs created with a caller key it no longer holds', async () => {
+    created('video_1', 'key_abc');
+    const job = jobs.get('video_1');
+
+    await poller.tick(Date.now() + BASE_DELAY_MS);
+    expect(upstream.getVideoStatus).not.toHaveBeenCalled();
+    expect(poller.isActive(job)).toBe(false);
+  });
+
+  it('gives up on jobs older than the maximum age', async () => {
+    const job = created('video_1');
+    expect(poller.isActive(job)).toBe(true);
+
+    const later = Date.now() + 25 * HOUR_MS;
+    await poller.tick(later);
+    expect(upstream.getVideoStatus).not.toHaveBeenCalled();
+    expect(poller.isActive(job, later)).toBe(false);
+  });
+
+  it('routes profile jobs through their recorded profile without re-checking the caller', async () => {
+    created('video_1', 'server', { provider: 'azure', profile: 'eastus', azureDeployment: 'sora-2' });
+    upstream.getVideoStatus.mockResolvedValue({ id: 'video_1', status: 'queued' });
+
+    await poller.tick();
+    expect(upstream.getVideoStatus).toHaveBeenCalledWith('video_1', undefined, {
+      provider: 'azure',
+      profile: 'eastus',
+      azureEndpoint: undefined,
+      azureApiVersion: undefined,
+      azureDeployment: 'sora-2',
+      profileCleared: true,
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Subscription } from 'rxjs';
+import { OpenAIService } from './openai.service';
+import { JobsService } from '../jobs/jobs.service';
+import { JobEvent, VideoJob } from '../jobs/interfaces/video-job.interface';
+
+interface PollState {
+  delayMs: number;
+  nextPollAt: number;
+}
+
+/**
+ * Background worker that keeps the job registry up to date without a browser tab open.
+ * Every tick it polls the upstream status of non-terminal jobs that are due, backing off
+ * per job while nothing changes (or the upstream errors) and dropping jobs once terminal,
+ * however they got there (a client lookup or SSE refresh as much as the poller itself).
+ */
+@Injectable()
+export class JobStatusPoller implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(JobStatusPoller.name);
+  private readonly enabled: boolean;
+  private readonly tickMs: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly maxAgeMs: number;
+  private readonly state = new Map<string, PollState>();
+  // Caller-supplied API keys are held in memory only, never written to the registry
+  private readonly credentials = new Map<string, string>();
+  private timer?: NodeJS.Timeout;
+  private subscription?: Subscription;
+  private ticking = false;
+
+  constructor(
+    private readonly openAIService: OpenAIService,
+    private readonly jobsService: JobsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled = this.configService.get<string>('JOB_POLL_ENABLED') !== 'false';
+    this.tickMs = Number(this.configService.get<string>('JOB_POLL_TICK_MS')) || 2000;
+    this.baseDelayMs = Number(this.configService.get<string>('JOB_POLL_INTERVAL_MS')) || 5000;
+    this.maxDelayMs = Number(this.configService.get<string>('JOB_POLL_MAX_INTERVAL_MS')) || 60000;
+    this.maxAgeMs = (Number(this.configService.get<string>('JOB_POLL_MAX_AGE_HOURS')) || 24) * 3600 * 1000;
+  }
+
+  onModuleInit() {
+    this.subscription = this.jobsService.events$.subscribe((event) => this.onJobEvent(event));
+    if (!this.enabled) {
+      this.logger.log('Background job polling disabled (JOB_POLL_ENABLED=false)');
+      return;
+    }
+    this.schedule();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Start tracking a freshly created job; the API key used to create it is reused for polling
+   */
+  track(jobId: string, userApiKey?: string) {
+    if (!jobId) return;
+    if (userApiKey) this.credentials.set(jobId, userApiKey);
+    this.state.set(jobId, { delayMs: this.baseDelayMs, nextPollAt: Date.now() + this.baseDelayMs });
+  }
+
+  /**
+   * Caller key held for a job, if any; lets other workers act on the job while it is tracked
+   */
+  heldKey(jobId: string): string | undefined {
+    return this.credentials.get(jobId);
+  }
+
+  /**
+   * Whether this job can still reach a terminal status through polling: it is young enough and
+   * was created with the server key or a caller key we still hold
+   */
+  isActive(job: VideoJob, now = Date.now()): boolean {
+    if (JobsService.isTerminal(job.status)) return false;
+    if (now - Date.parse(job.createdAt) > this.maxAgeMs) return false;
+    return job.caller === 'server' || this.credentials.has(job.id);
+  }
+
+  untrack(jobId: string) {
+    this.credentials.delete(jobId);
+    this.state.delete(jobId);
+  }
+
+  private onJobEvent(event: JobEvent) {
+    if (!JobsService.isTerminal(event.job.status)) return;
+    if (!this.credentials.has(event.job.id) && !this.state.has(event.job.id)) return;
+    // After the event has reached every subscriber: the archiver reads the held key from it
+    setImmediate(() => this.untrack(event.job.id));
+  }
+
+  /**
+   * Poll every pending job that is due at `now`. Public so tests can drive it without timers.
+   */
+  async tick(now = Date.now()) {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      for (const job of this.jobsService.listPending()) {
+        const state = this.state.get(job.id) ?? { delayMs: this.baseDelayMs, nextPollAt: now };
+        this.state.set(job.id, state);
+        if (state.nextPollAt > now) continue;
+        if (now - Date.parse(job.createdAt) > this.maxAgeMs) {
+          this.logger.warn(`Giving up on job ${job.id}: still '${job.status}' after ${this.maxAgeMs / 3600000}h`);
+          this.credentials.delete(job.id);
+          state.nextPollAt = Infinity;
+          continue;
+        }
+
+        const apiKey = this.credentials.get(job.id);
+        if (!apiKey && job.caller !== 'server') {
+          // Created with a caller key we no longer hold (e.g. after a restart); only client lookups can refresh it
+          continue;
+        }
+        await this.pollJob(job, apiKey, state, now);
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async pollJob(job: VideoJob, apiKey: string | undefined, state: PollState, now: number) {
+    try {
+      const video = await this.openAIService.getVideoStatus(job.id, apiKey, {
+        provider: job.provider,
+        profile: job.profile,
+        azureEndpoint: job.azureEndpoint,
+        azureApiVersion: job.azureApiVersion,
+        azureDeployment: job.azureDeployment,
+        profileCleared: !!job.profile,
+      });
+      const updated = this.jobsService.recordStatus({ ...video, id: job.id }) ?? job;
+      if (JobsService.isTerminal(updated.status)) {
+        this.logger.log(`Job ${job.id} reached terminal status '${updated.status}'`);
+        this.untrack(job.id);
+        return;
+      }
+      const changed = updated.status !== job.status || updated.progress !== job.progress;
+      state.delayMs = changed ? this.baseDelayMs : Math.min(this.maxDelayMs, Math.round(state.delayMs * 1.5));
+    } catch (error) {
+      const status = error?.response?.status;
+      if (status === 404) {
+        this.logger.warn(`Job ${job.id} no longer exists upstream; marking as failed`);
+        this.jobsService.recordStatus({ id: job.id, status: 'failed', error: 'Video not found upstream' });
+        this.untrack(job.id);
+        return;
+      }
+      this.logger.warn(`Polling job ${job.id} failed: ${error?.message || 'Unknown'} | status=${status}`);
+      state.delayMs = Math.min(this.maxDelayMs, state.delayMs * 2);
+    }
+    state.nextPollAt = now + withJitter(state.delayMs);
+  }
+
+  private schedule() {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.tick();
+      } catch (error) {
+        this.logger.error(`Job poll tick failed: ${error?.message || error}`);
+      } finally {
+        if (this.timer) this.schedule();
+      }
+    }, this.tickMs);
+  }
+}
+
+function withJitter(delayMs: number): number {
+  return Math.round(delayMs * (0.9 + Math.random() * 0.2));
+}
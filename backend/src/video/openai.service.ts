@@ -1,78 +1,33 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { HttpService } from '@nestjs/axios';
-import { ConfigService } from '@nestjs/config';
-import { firstValueFrom } from 'rxjs';
-import FormData from 'form-data';
-import { AzureVideoProvider } from './providers/azure.video.provider';
-
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { VideoProviderRegistry } from './providers/video-provider.registry';
+import { ContentOptions, CreateVideoOptions, DEFAULT_PROVIDER, ListVideosParams, ProviderOptions } from './providers/video-provider.interface';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { QuotaReservation } from '../api-keys/interfaces/proxy-api-key.interface';
+import { MetricsService } from '../metrics/metrics.service';
+import { withLogFields } from '../logging/request-context';
+import { ProviderProfiles } from './providers/provider-profiles';
+import { AzureEndpointGuard } from './providers/azure-endpoint-guard';
+
+/**
+ * Entry point for all upstream video calls: validates input, normalizes options shared by
+ * every backend, then dispatches to the VideoProvider selected by `providerOpts.provider` (or
+ * its named profile). Proxy-issued keys are swapped for their upstream credential here (a
+ * profile's credential takes precedence), and creates are checked against the key's and the
+ * profile's allow-lists and the key's quotas. Calls to an Azure endpoint named by the caller
+ * must bring the caller's own Azure key: server-held credentials are never sent there.
+ */
 @Injectable()
 export class OpenAIService {
   private readonly logger = new Logger(OpenAIService.name);
-  private readonly defaultApiKey: string;
-  private readonly baseURL: string;
-  private readonly azureApiKey?: string;
-  private readonly azureEndpoint?: string;
-  private readonly azureApiVersion?: string;
-  private readonly azureDefaultDeployment?: string;
 
   constructor(
-    private readonly httpService: HttpService,
-    private readonly configService: ConfigService,
-    private readonly azureVideoProvider: AzureVideoProvider,
-  ) {
-    this.defaultApiKey = this.configService.get<string>('OPENAI_API_KEY');
-    this.baseURL = this.configService.get<string>('OPENAI_API_BASE_URL') || 'https://api.openai.com/v1';
-    this.azureApiKey = this.configService.get<string>('AZURE_OPENAI_API_KEY');
-    this.azureEndpoint = this.configService.get<string>('AZURE_OPENAI_ENDPOINT');
-    this.azureApiVersion = this.configService.get<string>('AZURE_OPENAI_API_VERSION');
-    this.azureDefaultDeployment = this.configService.get<string>('AZURE_OPENAI_DEPLOYMENT');
-
-    if (!this.defaultApiKey) {
-      this.logger.log('OPENAI_API_KEY is not set. Users must provide their own API keys.');
-    }
-  }
-
-  /**
-   * Get API key from user or fallback to default
-   */
-  private getApiKey(userApiKey?: string): string {
-    return userApiKey || this.defaultApiKey;
-  }
-
-  private resolveProvider(opts?: { provider?: 'openai' | 'azure'; azureEndpoint?: string; azureApiVersion?: string; azureDeployment?: string }): {
-    provider: 'openai' | 'azure';
-    baseUrl: string;
-    headers: Record<string, string>;
-    params: Record<string, any>;
-    deploymentFallback?: string;
-    deploymentHeader?: string;
-  } {
-    const provider = (opts?.provider === 'azure') ? 'azure' : 'openai';
-    if (provider === 'azure') {
-      const endpoint = (opts?.azureEndpoint || this.azureEndpoint || '').replace(/\/$/, '');
-      const version = opts?.azureApiVersion || this.azureApiVersion || '2024-02-15-preview';
-      const apiKey = this.azureApiKey || this.defaultApiKey; // allow passing azure key via x-api-key if desired
-      if (!endpoint) {
-        this.logger.warn('Azure provider selected but AZURE_OPENAI_ENDPOINT not configured. Falling back may fail.');
-      }
-      const baseUrl = `${endpoint}/openai`;
-      return {
-        provider,
-        baseUrl,
-        headers: { 'api-key': apiKey },
-        params: { 'api-version': version },
-        deploymentFallback: this.azureDefaultDeployment,
-        deploymentHeader: opts?.azureDeployment,
-      };
-    }
-    // openai
-    return {
-      provider: 'openai',
-      baseUrl: this.baseURL,
-      headers: { 'Authorization': `Bearer ${this.defaultApiKey}` },
-      params: {},
-    };
-  }
+    private readonly providerRegistry: VideoProviderRegistry,
+    private readonly apiKeysService: ApiKeysService,
+    private readonly metricsService: MetricsService,
+    private readonly providerProfiles: ProviderProfiles,
+    private readonly azureEndpointGuard: AzureEndpointGuard,
+  ) {}
 
   private mapSizeToResolution(size?: string): string | undefined {
     if (!size) return undefined;
@@ -86,103 +41,103 @@ export class OpenAIService {
     return table[normalized];
   }
 
-  private normalizeModel(requested?: string): string {
-    const allowed = ['sora-2', 'sora-2-pro'];
-    if (requested && allowed.includes(requested)) return requested;
-    if (requested && !allowed.includes(requested)) {
-      this.logger.warn(`Unsupported model '${requested}', falling back to 'sora-2'`);
+  /**
+   * Stable identity of the upstream account a call would run on (provider, endpoint and a hash
+   * of the resolved key), so per-account limits can be tracked without keeping the key
+   */
+  credentialId(userApiKey?: string, providerOpts?: ProviderOptions): string {
+    const { provider, opts, upstreamKey } = this.route(userApiKey, providerOpts);
+    const keyHash = createHash('sha256').update(upstreamKey || 'default').digest('hex').slice(0, 16);
+    return [provider.name, opts?.azureEndpoint || opts?.openaiBaseUrl || '', keyHash].join('|');
+  }
+
+  /**
+   * Backend, options (with the profile applied) and upstream key a call runs with
+   */
+  private route(userApiKey: string | undefined, providerOpts?: ProviderOptions) {
+    const opts = this.providerRegistry.primary(providerOpts);
+    const provider = this.providerRegistry.get(opts?.provider);
+    if (provider.name === 'azure' && this.azureEndpointGuard.isCallerEndpoint(opts)
+      && (!userApiKey || ApiKeysService.isProxyToken(userApiKey))) {
+      throw new BadRequestException('x-azure-endpoint requires your own Azure key in x-api-key; server credentials are not sent to caller-supplied endpoints');
     }
-    return 'sora-2';
+    const profileKey = this.providerProfiles.upstreamKey(opts);
+    if (opts?.profile && !opts.profileCleared) {
+      this.apiKeysService.assertProfileAllowed(userApiKey, opts.profile, !!profileKey);
+    }
+    const upstreamKey = profileKey ?? this.apiKeysService.upstreamKeyFor(userApiKey, provider.name);
+    return { provider, opts, upstreamKey };
   }
 
   /**
-   * Create a video job (multipart/form-data per Videos API)
+   * Every upstream call goes through here: failures are logged, each call is timed and counted
+   * per provider and action, and log lines written during it carry the provider and action
    */
-  async generateVideo(prompt: string, model = 'sora-2', options?: any, userApiKey?: string, providerOpts?: { provider?: 'openai' | 'azure'; azureEndpoint?: string; azureApiVersion?: string; azureDeployment?: string }) {
-    const apiKey = this.getApiKey(userApiKey);
+  private async call<T>(action: string, providerOpts: ProviderOptions | undefined, fn: () => Promise<T>): Promise<T> {
+    const started = Date.now();
+    const metricAction = action.replace(/ /g, '_');
+    const provider = providerOpts?.provider || DEFAULT_PROVIDER;
     try {
-      const trimmedPrompt = (prompt ?? '').toString();
-      if (!trimmedPrompt.trim()) {
-        throw new Error("'prompt' is required");
-      }
-
-      const resolution = this.mapSizeToResolution(options?.size);
-      const provider = this.resolveProvider(providerOpts);
-      if (provider.provider === 'azure') {
-        return await this.azureVideoProvider.generateVideo(
-          trimmedPrompt,
-          model,
-          { size: resolution, duration: options?.duration ?? options?.seconds },
-          userApiKey,
-          { azureEndpoint: providerOpts?.azureEndpoint, azureApiVersion: providerOpts?.azureApiVersion, azureDeployment: providerOpts?.azureDeployment },
-        );
-      }
-      const resolvedModel = this.normalizeModel(model);
-      const candidateSeconds = options?.duration ?? options?.seconds;
-      const allowedSeconds = new Set(['4', '8', '12']);
-      let normalizedSeconds: string | undefined;
-      if (candidateSeconds != null) {
-        const asString = String(candidateSeconds);
-        if (allowedSeconds.has(asString)) {
-          normalizedSeconds = asString;
-        } else {
-          this.logger.warn(`Unsupported seconds '${asString}', omitting to use API default (4)`);
-        }
-      }
-
-      // OpenAI JSON create
-      {
-        const jsonBody: any = {
-          model: String(resolvedModel),
-          prompt: trimmedPrompt,
-        };
-        if (normalizedSeconds) jsonBody.seconds = normalizedSeconds;
-        if (resolution) jsonBody.size = resolution;
-
-        this.logger.debug(
-          `Create video JSON body => model=${jsonBody.model}, promptLen=${trimmedPrompt.length}, seconds=${jsonBody.seconds || 'default'}, size=${jsonBody.size || 'default'}`,
-        );
+      const result = await withLogFields({ provider, action: metricAction }, fn);
+      this.metricsService.observeUpstreamCall(providerOpts?.provider, metricAction, (Date.now() - started) / 1000);
+      return result;
+    } catch (error) {
+      this.metricsService.observeUpstreamCall(providerOpts?.provider, metricAction, (Date.now() - started) / 1000, error);
+      this.logger.error({
+        message: `Failed to ${action}: ${error?.message || 'Unknown'}`,
+        provider,
+        action: metricAction,
+        status: error?.response?.status,
+        durationMs: Date.now() - started,
+        // Streamed (content) error bodies are not readable here
+        payload: typeof error?.response?.data?.pipe === 'function' ? undefined : error?.response?.data,
+      });
+      throw error;
+    }
+  }
 
-        const url = `${provider.baseUrl}/videos`;
-        const headers = {
-          ...provider.headers,
-          ...(provider.provider === 'openai' ? { 'Authorization': `Bearer ${apiKey}` } : {}),
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        };
-        this.logger.debug(
-          `POST ${url} | provider=${provider.provider} | params=${safeStringify(provider.params)} | headers=${safeStringify(redactHeaders(headers))} | bodySummary=${safeStringify({ model: jsonBody.model, promptLen: trimmedPrompt.length, seconds: jsonBody.seconds, size: jsonBody.size })}`,
-        );
-        const response = await firstValueFrom(
-          this.httpService.post(
-            url,
-            jsonBody,
-            {
-              headers,
-              params: provider.params,
-              maxBodyLength: Infinity,
-              maxContentLength: Infinity,
-            },
-          ),
-        );
-        return response.data;
-      }
+  /**
+   * Run a job-creating call with quota held for it, settling to the seconds upstream reports
+   */
+  private async metered<T extends { seconds?: string | number }>(reservation: QuotaReservation | undefined, fn: () => Promise<T>): Promise<T> {
+    try {
+      const video = await fn();
+      this.apiKeysService.commit(reservation, Number(video?.seconds));
+      return video;
     } catch (error) {
-      const status = error?.response?.status;
-      const data = error?.response?.data;
-      this.logger.error(
-        `Failed to generate video: ${error?.message || 'Unknown'} | status=${status} | payload=${safeStringify(data)}`,
-      );
+      this.apiKeysService.release(reservation);
       throw error;
     }
   }
 
+  /**
+   * Create a video job
+   */
+  async generateVideo(prompt: string, model = 'sora-2', options?: CreateVideoOptions, userApiKey?: string, providerOpts?: ProviderOptions) {
+    return this.call('generate video', providerOpts, async () => {
+      const trimmedPrompt = (prompt ?? '').toString();
+      if (!trimmedPrompt.trim()) {
+        throw new Error("'prompt' is required");
+      }
+      const { provider, opts, upstreamKey } = this.route(userApiKey, providerOpts);
+      const duration = options?.duration;
+      const upstreamModel = this.providerProfiles.upstreamModel(opts, model);
+      const reservation = this.apiKeysService.reserve(userApiKey, provider.name, model, ApiKeysService.requestedSeconds(duration));
+      return this.metered(reservation, () => provider.generateVideo(
+        trimmedPrompt,
+        upstreamModel,
+        { size: this.mapSizeToResolution(options?.size), duration },
+        upstreamKey,
+        opts,
+      ));
+    });
+  }
+
   /**
    * Create a video from image reference (multipart)
    */
-  async generateVideoFromImage(image: Express.Multer.File, prompt: string, model = 'sora-2', options?: any, userApiKey?: string, providerOpts?: { provider?: 'openai' | 'azure'; azureEndpoint?: string; azureApiVersion?: string; azureDeployment?: string }) {
-    const apiKey = this.getApiKey(userApiKey);
-    try {
+  async generateVideoFromImage(image: Express.Multer.File, prompt: string, model = 'sora-2', options?: CreateVideoOptions, userApiKey?: string, providerOpts?: ProviderOptions) {
+    return this.call('generate video from image', providerOpts, async () => {
       const trimmedPrompt = (prompt ?? '').toString();
       if (!trimmedPrompt.trim()) {
         throw new Error("'prompt' is required");
@@ -190,299 +145,70 @@ export class OpenAIService {
       if (!image?.buffer || !image?.mimetype) {
         throw new Error("'image' file is required");
       }
-      const provider = this.resolveProvider(providerOpts);
-      if (provider.provider === 'azure') {
-        return await this.azureVideoProvider.generateVideoFromImage(
-          image.buffer,
-          image.originalname || 'reference.png',
-          image.mimetype,
-          trimmedPrompt,
-          model,
-          { size: this.mapSizeToResolution(options?.size), duration: options?.duration ?? options?.seconds },
-          userApiKey,
-          { azureEndpoint: providerOpts?.azureEndpoint, azureApiVersion: providerOpts?.azureApiVersion, azureDeployment: providerOpts?.azureDeployment },
-        );
-      } else {
-        // Fallback for OpenAI path: try multipart with 'input_reference'
-        const resolvedModel = this.normalizeModel(model);
-        const form = new FormData();
-        form.append('model', String(resolvedModel));
-        form.append('prompt', trimmedPrompt);
-        const resolution = this.mapSizeToResolution(options?.size);
-        if (resolution) form.append('size', resolution);
-        const seconds = options?.duration ?? options?.seconds;
-        if (seconds != null) form.append('seconds', String(seconds));
-        form.append('input_reference', image.buffer, {
-          filename: image.originalname || 'reference.png',
-          contentType: image.mimetype,
-        } as any);
-        const url = `${provider.baseUrl}/videos`;
-        const headers = {
-          ...provider.headers,
-          'Authorization': `Bearer ${apiKey}`,
-          ...form.getHeaders(),
-        };
-        this.logger.debug(`POST ${url} | provider=openai (image)`);
-        const response = await firstValueFrom(
-          this.httpService.post(url, form, {
-            headers,
-            params: provider.params,
-            maxBodyLength: Infinity,
-            maxContentLength: Infinity,
-          }),
-        );
-        return response.data;
-      }
-    } catch (error) {
-      const status = error?.response?.status;
-      const data = error?.response?.data;
-      this.logger.error(
-        `Failed to generate video from image: ${error?.message || 'Unknown'} | status=${status} | payload=${safeStringify(data)}`,
-      );
-      throw error;
-    }
+      const { provider, opts, upstreamKey } = this.route(userApiKey, providerOpts);
+      const duration = options?.duration;
+      const upstreamModel = this.providerProfiles.upstreamModel(opts, model);
+      const reservation = this.apiKeysService.reserve(userApiKey, provider.name, model, ApiKeysService.requestedSeconds(duration));
+      return this.metered(reservation, () => provider.generateVideoFromImage(
+        image,
+        trimmedPrompt,
+        upstreamModel,
+        { size: this.mapSizeToResolution(options?.size), duration },
+        upstreamKey,
+        opts,
+      ));
+    });
   }
+
   /**
    * Get video generation status
    */
-  async getVideoStatus(videoId: string, userApiKey?: string, providerOpts?: { provider?: 'openai' | 'azure'; azureEndpoint?: string; azureApiVersion?: string }) {
-    const apiKey = this.getApiKey(userApiKey);
-    try {
-      const provider = this.resolveProvider(providerOpts);
-      if (provider.provider === 'azure') {
-        return await this.azureVideoProvider.getVideoStatus(videoId, userApiKey, {
-          azureEndpoint: providerOpts?.azureEndpoint,
-          azureApiVersion: providerOpts?.azureApiVersion,
-        });
-      }
-      else {
-        const url = `${provider.baseUrl}/videos/${videoId}`;
-        const headers = {
-          ...provider.headers,
-          ...(provider.provider === 'openai' ? { 'Authorization': `Bearer ${apiKey}` } : {}),
-        } as Record<string, string>;
-        this.logger.debug(
-          `GET ${url} | provider=openai | params=${safeStringify(provider.params)} | headers=${safeStringify(redactHeaders(headers))}`,
-        );
-        const response = await firstValueFrom(
-          this.httpService.get(
-            url,
-            {
-              headers,
-              params: provider.params,
-            },
-          ),
-        );
-        return response.data;
-      }
-    } catch (error) {
-      const status = error?.response?.status;
-      const data = error?.response?.data;
-      this.logger.error(
-        `Failed to get video status: ${error?.message || 'Unknown'} | status=${status} | payload=${safeStringify(data)}`,
-      );
-      throw error;
-    }
+  async getVideoStatus(videoId: string, userApiKey?: string, providerOpts?: ProviderOptions) {
+    return this.call('get video status', providerOpts, () => {
+      const { provider, opts, upstreamKey } = this.route(userApiKey, providerOpts);
+      return provider.getVideoStatus(videoId, upstreamKey, opts);
+    });
   }
 
   /**
    * List all videos
    */
-  async listVideos(params?: { limit?: number; after?: string; order?: 'asc' | 'desc' }, userApiKey?: string, providerOpts?: { provider?: 'openai' | 'azure'; azureEndpoint?: string; azureApiVersion?: string }) {
-    const apiKey = this.getApiKey(userApiKey);
-    try {
-      const provider = this.resolveProvider(providerOpts);
-      if (provider.provider === 'azure') {
-        // Use Azure-specific list implementation
-        return await this.azureVideoProvider.listVideos(params, userApiKey, {
-          azureEndpoint: providerOpts?.azureEndpoint,
-          azureApiVersion: providerOpts?.azureApiVersion,
-        });
-      } else {
-        const mergedParams = { ...(provider.params || {}), ...(params || {}) };
-        this.logger.debug(
-          `GET ${provider.baseUrl}/videos | provider=${provider.provider} | params=${safeStringify(mergedParams)} | headers=${safeStringify(redactHeaders({
-            ...provider.headers,
-            ...(provider.provider === 'openai' ? { Authorization: `Bearer ${apiKey}` } : {}),
-          }))}`,
-        );
-        const response = await firstValueFrom(
-          this.httpService.get(
-            `${provider.baseUrl}/videos`,
-            {
-              headers: {
-                ...provider.headers,
-                ...(provider.provider === 'openai' ? { 'Authorization': `Bearer ${apiKey}` } : {}),
-              },
-              params: mergedParams,
-            },
-          ),
-        );
-        return response.data;
-      }
-    } catch (error) {
-      const status = error?.response?.status;
-      const data = error?.response?.data;
-      this.logger.error(
-        `Failed to list videos: ${error?.message || 'Unknown'} | status=${status} | payload=${safeStringify(data)}`,
-      );
-      throw error;
-    }
+  async listVideos(params?: ListVideosParams, userApiKey?: string, providerOpts?: ProviderOptions) {
+    return this.call('list videos', providerOpts, () => {
+      const { provider, opts, upstreamKey } = this.route(userApiKey, providerOpts);
+      return provider.listVideos(params || {}, upstreamKey, opts);
+    });
   }
 
   /**
    * Delete a video
    */
-  async deleteVideo(videoId: string, userApiKey?: string, providerOpts?: { provider?: 'openai' | 'azure'; azureEndpoint?: string; azureApiVersion?: string }) {
-    const apiKey = this.getApiKey(userApiKey);
-    try {
-      const provider = this.resolveProvider(providerOpts);
-      if (provider.provider === 'azure') {
-        return await this.azureVideoProvider.deleteVideo(videoId, userApiKey, {
-          azureEndpoint: providerOpts?.azureEndpoint,
-          azureApiVersion: providerOpts?.azureApiVersion,
-        });
-      } else {
-        this.logger.debug(
-          `DELETE ${provider.baseUrl}/videos/${videoId} | provider=${provider.provider} | params=${safeStringify(provider.params)} | headers=${safeStringify(redactHeaders({
-            ...provider.headers,
-            ...(provider.provider === 'openai' ? { Authorization: `Bearer ${apiKey}` } : {}),
-          }))}`,
-        );
-        const response = await firstValueFrom(
-          this.httpService.delete(
-            `${provider.baseUrl}/videos/${videoId}`,
-            {
-              headers: {
-                ...provider.headers,
-                ...(provider.provider === 'openai' ? { 'Authorization': `Bearer ${apiKey}` } : {}),
-              },
-              params: provider.params,
-            },
-          ),
-        );
-        return response.data;
-      }
-    } catch (error) {
-      const status = error?.response?.status;
-      const data = error?.response?.data;
-      this.logger.error(
-        `Failed to delete video: ${error?.message || 'Unknown'} | status=${status} | payload=${safeStringify(data)}`,
-      );
-      throw error;
-    }
+  async deleteVideo(videoId: string, userApiKey?: string, providerOpts?: ProviderOptions) {
+    return this.call('delete video', providerOpts, () => {
+      const { provider, opts, upstreamKey } = this.route(userApiKey, providerOpts);
+      return provider.deleteVideo(videoId, upstreamKey, opts);
+    });
   }
 
   /**
    * Download video content stream
    */
-  async downloadVideoContent(videoId: string, userApiKey?: string, providerOpts?: { provider?: 'openai' | 'azure'; azureEndpoint?: string; azureApiVersion?: string }) {
-    const apiKey = this.getApiKey(userApiKey);
-    try {
-      const provider = this.resolveProvider(providerOpts);
-      if (provider.provider === 'azure') {
-        return await this.azureVideoProvider.downloadVideoContent(videoId, userApiKey, {
-          azureEndpoint: providerOpts?.azureEndpoint,
-          azureApiVersion: providerOpts?.azureApiVersion,
-        });
-      } else {
-        const url = `${provider.baseUrl}/videos/${videoId}/content`;
-        const headers = {
-          ...provider.headers,
-          ...(provider.provider === 'openai' ? { 'Authorization': `Bearer ${apiKey}` } : {}),
-        } as Record<string, string>;
-        this.logger.debug(
-          `GET ${url} | provider=openai | params=${safeStringify(provider.params)} | headers=${safeStringify(redactHeaders(headers))}`,
-        );
-        const response = await firstValueFrom(
-          this.httpService.get(
-            url,
-            {
-              headers,
-              params: provider.params,
-              responseType: 'stream',
-            },
-          ),
-        );
-        return response.data;
-      }
-    } catch (error) {
-      const status = error?.response?.status;
-      const data = error?.response?.data;
-      this.logger.error(
-        `Failed to download video content: ${error?.message || 'Unknown'} | status=${status} | payload=${safeStringify(data)}`,
-      );
-      throw error;
-    }
+  async downloadVideoContent(videoId: string, userApiKey?: string, providerOpts?: ProviderOptions, content?: ContentOptions) {
+    return this.call('download video content', providerOpts, () => {
+      const { provider, opts, upstreamKey } = this.route(userApiKey, providerOpts);
+      return provider.downloadVideoContent(videoId, upstreamKey, opts, content);
+    });
   }
 
   /**
    * Remix a completed video with a new prompt
    */
-  async remixVideo(videoId: string, prompt: string, userApiKey?: string, providerOpts?: { provider?: 'openai' | 'azure'; azureEndpoint?: string; azureApiVersion?: string }) {
-    const apiKey = this.getApiKey(userApiKey);
-    try {
-      const provider = this.resolveProvider(providerOpts);
-      if (provider.provider === 'azure') {
-        const response = await this.azureVideoProvider.remixVideo(videoId, prompt, userApiKey, {
-          azureEndpoint: providerOpts?.azureEndpoint,
-          azureApiVersion: providerOpts?.azureApiVersion,
-        });
-        return response;
-      } else {
-        const body = { prompt };
-        const url = `${provider.baseUrl}/videos/${videoId}/remix`;
-        const headers = {
-          ...provider.headers,
-          ...(provider.provider === 'openai' ? { Authorization: `Bearer ${apiKey}` } : {}),
-          'Content-Type': 'application/json',
-        } as Record<string, string>;
-        this.logger.debug(
-          `POST ${url} | provider=openai | params=${safeStringify(provider.params)} | headers=${safeStringify(redactHeaders(headers))} | body=${safeStringify(body)}`,
-        );
-        const response = await firstValueFrom(
-          this.httpService.post(
-            url,
-            body,
-            {
-              headers,
-              params: provider.params,
-            },
-          ),
-        );
-        return response.data;
-      }
-    } catch (error) {
-      const status = error?.response?.status;
-      const data = error?.response?.data;
-      this.logger.error(
-        `Failed to remix video: ${error?.message || 'Unknown'} | status=${status} | payload=${safeStringify(data)}`,
-      );
-      throw error;
-    }
-  }
-}
-
-function safeStringify(value: any): string {
-  try {
-    if (value === undefined) return 'undefined';
-    if (typeof value === 'string') return value;
-    return JSON.stringify(value);
-  } catch {
-    return '[unserializable]';
+  async remixVideo(videoId: string, prompt: string, userApiKey?: string, providerOpts?: ProviderOptions) {
+    return this.call('remix video', providerOpts, () => {
+      const { provider, opts, upstreamKey } = this.route(userApiKey, providerOpts);
+      // Remix length follows the source video; seconds are settled from the upstream response
+      const reservation = this.apiKeysService.reserve(userApiKey, provider.name, undefined, 0);
+      return this.metered(reservation, () => provider.remixVideo(videoId, prompt, upstreamKey, opts));
+    });
   }
 }
-
-function redactHeaders(headers: Record<string, any>): Record<string, any> {
-  const redacted: Record<string, any> = {};
-  for (const [k, v] of Object.entries(headers || {})) {
-    const key = k.toLowerCase();
-    if (key === 'authorization' || key === 'api-key' || key === 'x-api-key') {
-      redacted[k] = '[REDACTED]';
-    } else {
-      redacted[k] = v;
-    }
-  }
-  return redacted;
-}
-
@@ -0,0 +1,22 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiSecurity, ApiTags } from '@nestjs/swagger';
+import { ProviderProfiles } from './providers/provider-profiles';
+import { ProviderProfileDto } from './dto/video-response.dto';
+
+@ApiTags('profiles')
+@Controller('api/profiles')
+export class ProfilesController {
+  constructor(private readonly providerProfiles: ProviderProfiles) {}
+
+  /**
+   * Provider profiles clients can select with x-provider-profile (endpoints and credentials stay server-side)
+   * GET /api/profiles
+   */
+  @Get()
+  @ApiSecurity('api-key')
+  @ApiOperation({ summary: 'List provider profiles selectable with x-provider-profile' })
+  @ApiOkResponse({ type: [ProviderProfileDto] })
+  list() {
+    return { object: 'list', data: this.providerProfiles.list() };
+  }
+}
@@ -0,0 +1,76 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as https from 'https';
+import { ProviderOptions } from './video-provider.interface';
+import { assertPublicHost, guardedLookup, urlHost } from '../../common/public-address';
+
+const DEFAULT_ALLOWLIST = '*.openai.azure.com,*.cognitiveservices.azure.com,*.services.ai.azure.com';
+
+/**
+ * Guards Azure endpoints supplied by callers through x-azure-endpoint (and the job records and
+ * content links that carry them on) against server-side request forgery.
+ *
+ * An endpoint is caller-supplied unless it is AZURE_OPENAI_ENDPOINT or comes from a provider
+ * profile; pool entries are never combined with a caller endpoint. Caller endpoints must be
+ * https, match a host pattern in AZURE_ENDPOINT_ALLOWLIST (`*.example.com` for subdomains, `*`
+ * for any host) and resolve only to public addresses. Requests to them go through `httpsAgent`,
+ * which repeats the address check on every connection so a DNS answer that changes after
+ * validation cannot reach an internal host. Server credentials are never sent to them.
+ */
+@Injectable()
+export class AzureEndpointGuard {
+  private readonly patterns: string[];
+  private readonly serverEndpoint?: string;
+  readonly httpsAgent = new https.Agent({ keepAlive: true, lookup: guardedLookup });
+
+  constructor(private readonly configService: ConfigService) {
+    this.patterns = (this.configService.get<string>('AZURE_ENDPOINT_ALLOWLIST') || DEFAULT_ALLOWLIST)
+      .split(',')
+      .map((pattern) => pattern.trim().toLowerCase())
+      .filter(Boolean);
+    this.serverEndpoint = normalizeEndpoint(this.configService.get<string>('AZURE_OPENAI_ENDPOINT'));
+  }
+
+  /**
+   * Whether the call targets an Azure endpoint chosen by the caller rather than the server
+   */
+  isCallerEndpoint(opts?: ProviderOptions): boolean {
+    if (!opts?.azureEndpoint || opts.profile) return false;
+    return normalizeEndpoint(opts.azureEndpoint) !== this.serverEndpoint;
+  }
+
+  /**
+   * Reject a caller endpoint that is not https, is not on the allowlist or resolves to a
+   * private or reserved address
+   */
+  async assertAllowed(endpoint: string): Promise<void> {
+    let url: URL;
+    try {
+      url = new URL(endpoint);
+    } catch {
+      throw new BadRequestException(`x-azure-endpoint '${endpoint}' is not a valid URL`);
+    }
+    if (url.protocol !== 'https:' || url.username || url.password) {
+      throw new BadRequestException('x-azure-endpoint must be an https URL without credentials');
+    }
+    const host = urlHost(url);
+    if (!this.patterns.some((pattern) => hostMatches(host, pattern))) {
+      throw new BadRequestException(`x-azure-endpoint host '${host}' is not allowed (see AZURE_ENDPOINT_ALLOWLIST)`);
+    }
+    try {
+      await assertPublicHost(host);
+    } catch (error) {
+      throw new BadRequestException(`x-azure-endpoint host '${host}' ${error.message}`);
+    }
+  }
+}
+
+function normalizeEndpoint(endpoint?: string): string | undefined {
+  return endpoint ? endpoint.trim().replace(/\/+$/, '').toLowerCase() : undefined;
+}
+
+function hostMatches(host: string, pattern: string): boolean {
+  if (pattern === '*') return true;
+  if (pattern.startsWith('*.')) return host.endsWith(pattern.slice(1)) && host.length > pattern.length - 1;
+  return host === pattern;
+}
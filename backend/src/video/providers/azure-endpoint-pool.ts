@@ -0,0 +1,218 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import { JsonFileStore, resolveDataFile } from '../../common/json-file-store';
+import { credentialEnvName, resolveCredential } from '../../common/credentials';
+import { MetricsService } from '../../metrics/metrics.service';
+import { UpstreamError } from './video-provider.interface';
+
+/**
+ * One Azure OpenAI resource the pool can route jobs to, as configured in AZURE_POOL_FILE
+ */
+export interface AzurePoolEntryConfig {
+  id: string;
+  endpoint: string;
+  // Sent as the `model` of creates; Azure's v1 video API addresses deployments by name
+  deployment?: string;
+  apiVersion?: string;
+  // Name of the upstream credential (UPSTREAM_CREDENTIAL_<NAME>) holding this resource's key
+  credential?: string;
+  // Relative share of new jobs while healthy; defaults to 1
+  weight?: number;
+}
+
+export interface AzurePoolEntry extends AzurePoolEntryConfig {
+  weight: number;
+  apiKey?: string;
+}
+
+interface EntryHealth {
+  // Exponentially weighted share of recent attempts that did not fail with 429/5xx/network errors
+  successRate: number;
+  consecutiveFailures: number;
+  ejectedUntil: number;
+  lastError?: string;
+}
+
+// Which entry created a video, so later calls for it go to the same resource
+interface PoolAssignment {
+  id: string;
+  entry: string;
+  createdAt: string;
+}
+
+const UNHEALTHY_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const SUCCESS_RATE_DECAY = 0.2;
+const MIN_SUCCESS_RATE = 0.05;
+
+/**
+ * Weighted pool of Azure endpoint/deployment/key entries for requests that do not name an
+ * endpoint themselves (x-azure-endpoint).
+ *
+ * New jobs go to a random available entry, weighted by its configured weight times its recent
+ * success rate. An entry that fails AZURE_POOL_EJECT_AFTER attempts in a row with 429, 5xx or a
+ * network error is ejected for AZURE_POOL_EJECT_SECONDS (or the upstream's Retry-After, if
+ * longer); one more failure after it returns ejects it again. Every video remembers the entry
+ * that created it, so status, content, remix and delete calls stick to that resource.
+ */
+@Injectable()
+export class AzureEndpointPool implements OnModuleInit {
+  private readonly logger = new Logger(AzureEndpointPool.name);
+  private readonly entries: AzurePoolEntry[];
+  private readonly health = new Map<string, EntryHealth>();
+  private readonly assignments: JsonFileStore<PoolAssignment>;
+  private readonly ejectAfter: number;
+  private readonly ejectMs: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly metricsService: MetricsService,
+  ) {
+    this.entries = loadPoolEntries(this.configService);
+    this.ejectAfter = Number(this.configService.get('AZURE_POOL_EJECT_AFTER')) || 3;
+    this.ejectMs = (Number(this.configService.get('AZURE_POOL_EJECT_SECONDS')) || 60) * 1000;
+    this.assignments = new JsonFileStore<PoolAssignment>(resolveDataFile(this.configService, 'azure-pool.json'));
+    for (const entry of this.entries) {
+      this.health.set(entry.id, { successRate: 1, consecutiveFailures: 0, ejectedUntil: 0 });
+    }
+    if (this.entries.length) {
+      this.logger.log(`Azure endpoint pool: ${this.entries.map((entry) => `${entry.id} (weight ${entry.weight})`).join(', ')}`);
+    }
+  }
+
+  onModuleInit() {
+    if (!this.entries.length) return;
+    this.metricsService.gauge('azure_pool_entry_available', 'Whether an Azure pool entry receives new jobs (0 while ejected)', ['entry'], (gauge) => {
+      const now = Date.now();
+      for (const entry of this.entries) gauge.set({ entry: entry.id }, this.health.get(entry.id).ejectedUntil > now ? 0 : 1);
+    });
+  }
+
+  get enabled(): boolean {
+    return this.entries.length > 0;
+  }
+
+  /**
+   * Entry for a new job: weighted random among available entries, or the one returning soonest
+   */
+  choose(now = Date.now()): AzurePoolEntry {
+    const available = this.entries.filter((entry) => this.health.get(entry.id).ejectedUntil <= now);
+    if (!available.length) {
+      return this.entries.reduce((soonest, entry) =>
+        this.health.get(entry.id).ejectedUntil < this.health.get(soonest.id).ejectedUntil ? entry : soonest);
+    }
+    const scores = available.map((entry) => entry.weight * Math.max(MIN_SUCCESS_RATE, this.health.get(entry.id).successRate));
+    let pick = Math.random() * scores.reduce((sum, score) => sum + score, 0);
+    for (let i = 0; i < available.length; i++) {
+      pick -= scores[i];
+      if (pick < 0) return available[i];
+    }
+    return available[available.length - 1];
+  }
+
+  // First configured entry, for calls that are not about one video (listing)
+  primary(): AzurePoolEntry | undefined {
+    return this.entries[0];
+  }
+
+  /**
+   * Entry that created `videoId`, if it was created through the pool
+   */
+  entryFor(videoId: string): AzurePoolEntry | undefined {
+    const assignment = this.assignments.get(videoId);
+    return assignment ? this.entries.find((entry) => entry.id === assignment.entry) : undefined;
+  }
+
+  assign(videoId: string | undefined, entry: AzurePoolEntry) {
+    if (!videoId || this.assignments.has(videoId)) return;
+    this.assignments.upsert({ id: videoId, entry: entry.id, createdAt: new Date().toISOString() });
+  }
+
+  /**
+   * Run one upstream attempt against `entry` and record its outcome
+   */
+  async track<T>(entry: AzurePoolEntry | undefined, attempt: () => Promise<T>): Promise<T> {
+    if (!entry) return attempt();
+    try {
+      const result = await attempt();
+      this.recordSuccess(entry);
+      return result;
+    } catch (error) {
+      const status = error?.response?.status;
+      if (status == null || UNHEALTHY_STATUSES.has(status)) this.recordFailure(entry, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Health of every entry, for readiness reporting
+   */
+  snapshot(now = Date.now()) {
+    return this.entries.map((entry) => {
+      const health = this.health.get(entry.id);
+      return {
+        id: entry.id,
+        endpoint: entry.endpoint,
+        weight: entry.weight,
+        status: health.ejectedUntil > now ? 'ejected' : 'available',
+        successRate: Math.round(health.successRate * 100) / 100,
+        consecutiveFailures: health.consecutiveFailures,
+        ejectedUntil: health.ejectedUntil > now ? new Date(health.ejectedUntil).toISOString() : undefined,
+        lastError: health.lastError,
+      };
+    });
+  }
+
+  /**
+   * Settings the pool needs but cannot find (credentials named by entries)
+   */
+  missingConfig(): string[] {
+    return this.entries
+      .filter((entry) => entry.credential && !entry.apiKey)
+      .map((entry) => credentialEnvName(entry.credential));
+  }
+
+  private recordSuccess(entry: AzurePoolEntry) {
+    const health = this.health.get(entry.id);
+    health.successRate += SUCCESS_RATE_DECAY * (1 - health.successRate);
+    health.consecutiveFailures = 0;
+  }
+
+  private recordFailure(entry: AzurePoolEntry, error: UpstreamError) {
+    const health = this.health.get(entry.id);
+    health.successRate -= SUCCESS_RATE_DECAY * health.successRate;
+    health.consecutiveFailures += 1;
+    health.lastError = String(error?.response?.status ?? error?.code ?? error?.message ?? 'error');
+    if (health.consecutiveFailures < this.ejectAfter) return;
+    const retryAfterMs = Number(error?.response?.headers?.['retry-after']) * 1000;
+    const ejectMs = Math.max(this.ejectMs, Number.isFinite(retryAfterMs) ? retryAfterMs : 0);
+    health.ejectedUntil = Date.now() + ejectMs;
+    this.logger.warn(`Ejecting Azure pool entry ${entry.id} for ${Math.round(ejectMs / 1000)}s after ${health.consecutiveFailures} failures (last: ${health.lastError})`);
+  }
+}
+
+/**
+ * Pool entries from the JSON array in AZURE_POOL_FILE; empty when unset
+ */
+function loadPoolEntries(configService: ConfigService): AzurePoolEntry[] {
+  const file = configService.get<string>('AZURE_POOL_FILE');
+  if (!file) return [];
+  let configs: AzurePoolEntryConfig[];
+  try {
+    configs = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`AZURE_POOL_FILE '${file}' could not be read: ${error?.message || error}`);
+  }
+  const valid = Array.isArray(configs)
+    && configs.every((entry) => typeof entry?.id === 'string' && typeof entry?.endpoint === 'string'
+      && (entry.weight == null || (Number.isFinite(entry.weight) && entry.weight > 0)));
+  if (!valid || new Set(configs.map((entry) => entry.id)).size !== configs.length) {
+    throw new Error(`AZURE_POOL_FILE '${file}' must be an array of entries with a unique id, an endpoint and an optional positive weight`);
+  }
+  return configs.map((entry) => ({
+    ...entry,
+    endpoint: entry.endpoint.replace(/\/$/, ''),
+    weight: entry.weight ?? 1,
+    apiKey: entry.credential ? resolveCredential(configService, entry.credential) : undefined,
+  }));
+}
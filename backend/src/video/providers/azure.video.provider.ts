@@ -3,11 +3,17 @@ import { HttpService } from '@nestjs/axios';
 import { ConfigService } from '@nestjs/config';
 import { firstValueFrom } from 'rxjs';
 import FormData from 'form-data';
+import { ContentOptions, CreateVideoOptions, ListVideosParams, ProviderOptions, UpstreamVideo, VideoProvider } from './video-provider.interface';
+import { RetryOptions, UpstreamOperation, UpstreamRetry } from './upstream-retry';
+import { AzureEndpointPool, AzurePoolEntry } from './azure-endpoint-pool';
+import { AzureEndpointGuard } from './azure-endpoint-guard';
+import { contentRequestHeaders, contentVariantParams, toContentStream, upstreamRequestLog } from './provider.utils';
 
-type AzureOpts = { azureEndpoint?: string; azureApiVersion?: string; azureDeployment?: string };
+type AzureOpts = Pick<ProviderOptions, 'azureEndpoint' | 'azureApiVersion' | 'azureDeployment' | 'idempotencyKey' | 'profile'>;
 
 @Injectable()
-export class AzureVideoProvider {
+export class AzureVideoProvider implements VideoProvider {
+  readonly name = 'azure';
   private readonly logger = new Logger(AzureVideoProvider.name);
   private readonly azureApiKey?: string;
   private readonly defaultEndpoint?: string;
@@ -17,6 +23,9 @@ export class AzureVideoProvider {
   constructor(
     private readonly httpService: HttpService,
     private readonly configService: ConfigService,
+    private readonly upstreamRetry: UpstreamRetry,
+    private readonly pool: AzureEndpointPool,
+    private readonly endpointGuard: AzureEndpointGuard,
   ) {
     this.azureApiKey = this.configService.get<string>('AZURE_OPENAI_API_KEY');
     this.defaultEndpoint = this.configService.get<string>('AZURE_OPENAI_ENDPOINT');
@@ -24,37 +33,81 @@ export class AzureVideoProvider {
     this.defaultDeployment = this.configService.get<string>('AZURE_OPENAI_DEPLOYMENT');
   }
 
-  private buildBase(userApiKey?: string, opts?: AzureOpts) {
-    const endpoint = (opts?.azureEndpoint || this.defaultEndpoint || '').replace(/\/$/, '');
+  missingConfig(): string[] {
+    if (this.pool.enabled) return this.pool.missingConfig();
+    const missing: string[] = [];
+    if (!this.defaultEndpoint) missing.push('AZURE_OPENAI_ENDPOINT');
+    if (!this.azureApiKey) missing.push('AZURE_OPENAI_API_KEY');
+    return missing;
+  }
+
+  /**
+   * Pool entry for a call: none when the caller names an endpoint; for an existing video the
+   * entry that created it (see fallbackEntry if the pool did not create it); for a new job the
+   * pool's pick
+   */
+  private poolEntry(opts?: AzureOpts, videoId?: string): AzurePoolEntry | undefined {
+    if (!this.pool.enabled || opts?.azureEndpoint) return undefined;
+    if (!videoId) return this.pool.choose();
+    return this.pool.entryFor(videoId) ?? this.fallbackEntry(opts);
+  }
+
+  // Calls not tied to a pool-created video go to the default endpoint, else the first entry
+  private fallbackEntry(opts?: AzureOpts): AzurePoolEntry | undefined {
+    if (opts?.azureEndpoint || this.defaultEndpoint) return undefined;
+    return this.pool.primary();
+  }
+
+  /**
+   * Upstream call with retries, each attempt counted towards the pool entry's health
+   */
+  private send<T>(entry: AzurePoolEntry | undefined, operation: UpstreamOperation, request: () => Promise<T>, options?: RetryOptions) {
+    return this.upstreamRetry.execute(operation, () => this.pool.track(entry, request), options);
+  }
+
+  /**
+   * Base URL, query and headers of a call. Endpoints named by the caller are checked against the
+   * allowlist, connected to through the guarded agent and never sent the server's key.
+   */
+  private async buildBase(userApiKey?: string, opts?: AzureOpts, entry?: AzurePoolEntry) {
+    const endpoint = (entry?.endpoint || opts?.azureEndpoint || this.defaultEndpoint || '').replace(/\/$/, '');
+    const callerEndpoint = !entry && this.endpointGuard.isCallerEndpoint(opts);
+    if (callerEndpoint) await this.endpointGuard.assertAllowed(endpoint);
     // Video APIs require 'preview' per Azure quickstart; normalize to avoid 400 'API version not supported'
-    const requestedVersion = opts?.azureApiVersion || this.defaultApiVersion || 'preview';
+    const requestedVersion = entry?.apiVersion || opts?.azureApiVersion || this.defaultApiVersion || 'preview';
     const apiVersion = requestedVersion === 'preview' ? 'preview' : 'preview';
     if (requestedVersion !== apiVersion) {
       this.logger.warn(`Azure video API forcing api-version='preview' (was '${requestedVersion}')`);
     }
     const baseUrl = `${endpoint}/openai`;
     const headers = { 
-      'api-key': (userApiKey || this.azureApiKey || ''),
+      // A pool entry's own key wins: keys are per Azure resource
+      'api-key': (entry?.apiKey || userApiKey || (callerEndpoint ? '' : this.azureApiKey) || ''),
       'Content-Type': 'application/json',
       'Accept': 'application/json',
+      ...(opts?.idempotencyKey ? { 'Idempotency-Key': opts.idempotencyKey } : {}),
     } as Record<string, string>;
-    return { baseUrl, params: { 'api-version': apiVersion }, headers };
+    // No redirects: a Location header could point past the guard to a plain-http or internal URL
+    const transport = callerEndpoint ? { httpsAgent: this.endpointGuard.httpsAgent, maxRedirects: 0 } : {};
+    return { baseUrl, params: { 'api-version': apiVersion }, headers, transport };
   }
 
-  private addFailureReasonIfAny(payload: any): any {
+  private addFailureReasonIfAny(payload: UpstreamVideo): UpstreamVideo {
     try {
       if (!payload || typeof payload !== 'object') return payload;
-      const clone = JSON.parse(JSON.stringify(payload));
-      const failure = (clone && (clone.failure_reason ?? clone.failureReason)) as any;
-      const err = (clone && clone.error) as any;
+      const clone: UpstreamVideo = JSON.parse(JSON.stringify(payload));
+      const failure = clone.failure_reason ?? clone.failureReason;
+      const err = clone.error;
       let message: string | undefined;
       if (failure != null) {
+        const failureMessage = (failure as { message?: unknown }).message;
         if (typeof failure === 'string') message = failure;
-        else if (typeof failure?.message === 'string') message = failure.message;
+        else if (typeof failureMessage === 'string') message = failureMessage;
         else message = JSON.stringify(failure);
       } else if (err != null) {
+        const errMessage = (err as { message?: unknown }).message;
         if (typeof err === 'string') message = err;
-        else if (typeof err?.message === 'string') message = err.message;
+        else if (typeof errMessage === 'string') message = errMessage;
       }
       if (message && !clone.error) {
         clone.error = message;
@@ -65,25 +118,26 @@ export class AzureVideoProvider {
     }
   }
 
-  async generateVideo(prompt: string, model: string, options?: any, userApiKey?: string, azure?: AzureOpts) {
+  async generateVideo(prompt: string, model: string, options?: CreateVideoOptions, userApiKey?: string, azure?: AzureOpts) {
     if (!prompt?.trim()) {
       throw new Error("'prompt' is required");
     }
-    const { baseUrl, params, headers } = this.buildBase(userApiKey, azure);
+    const entry = this.poolEntry(azure);
+    const { baseUrl, headers, transport } = await this.buildBase(userApiKey, azure, entry);
 
     // Azure Sora 2 当前仅支持 720x1280（竖）与 1280x720（横），否则会 400 user_error
     const candidateSize = options?.size as string | undefined; // WxH
     const allowedSizes = new Set(['720x1280', '1280x720']);
     const resolution = candidateSize && allowedSizes.has(String(candidateSize)) ? String(candidateSize) : undefined;
-    const seconds = options?.duration ?? options?.seconds;
+    const seconds = options?.duration;
 
     const normalizedModel = (() => {
-      const m = (model || '').trim();
+      const m = (entry?.deployment || model || '').trim();
       if (m) return m; // use as provided
       return 'sora-2';
     })();
 
-    const body: any = {
+    const body: { prompt: string; model: string; size?: string; seconds?: string } = {
       prompt,
       model: normalizedModel,
     };
@@ -92,31 +146,32 @@ export class AzureVideoProvider {
 
     // Per console example: POST {endpoint}/openai/v1/videos
     const primaryUrl = `${baseUrl}/v1/videos`;
-    this.logger.debug(`POST ${primaryUrl} | provider=azure | body=${JSON.stringify({ ...body, promptLen: body.prompt?.length })}`);
-    try {
-      const response = await firstValueFrom(
-        this.httpService.post(primaryUrl, body, { headers, proxy: false }),
-      );
-      return response.data;
-    } catch (err: any) {
-      throw err;
-    }
+    this.logger.debug(upstreamRequestLog('POST', primaryUrl, {
+      body: { model: body.model, size: body.size, seconds: body.seconds, promptLen: prompt.length },
+    }));
+    const response = await this.send(entry, 'create', () => firstValueFrom(
+      this.httpService.post(primaryUrl, body, { headers, proxy: false, ...transport }),
+    ), { idempotencyKey: azure?.idempotencyKey });
+    if (entry) this.pool.assign(response.data?.id, entry);
+    return response.data;
   }
 
   async generateVideoFromImage(
-    imageBuffer: Buffer,
-    filename: string,
-    contentType: string,
+    image: Express.Multer.File,
     prompt: string,
     model: string,
-    options?: any,
+    options?: CreateVideoOptions,
     userApiKey?: string,
     azure?: AzureOpts,
   ) {
-    const { baseUrl, params, headers } = this.buildBase(userApiKey, azure);
+    const entry = this.poolEntry(azure);
+    const { baseUrl, params, headers, transport } = await this.buildBase(userApiKey, azure, entry);
     const allowedSizes = new Set(['720x1280', '1280x720']);
     const size = options?.size && allowedSizes.has(String(options.size)) ? String(options.size) : '720x1280';
-    const seconds = options?.duration ?? options?.seconds;
+    const seconds = options?.duration;
+    const imageBuffer = image.buffer;
+    const contentType = image.mimetype;
+    let filename = image.originalname || 'reference.png';
 
     // Ensure image size matches requested WxH per Azure requirement
     let processed = imageBuffer;
@@ -124,160 +179,175 @@ export class AzureVideoProvider {
     try {
       // Lazy-load sharp and make it optional for local dev
       // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const sharp: any = require('sharp');
+      const sharp = require('sharp');
       const [w, h] = String(size).split('x').map((n) => parseInt(n, 10));
       processed = await sharp(imageBuffer).resize(w, h, { fit: 'cover' }).png().toBuffer();
       uploadContentType = 'image/png';
       filename = filename?.endsWith('.png') ? filename : 'reference.png';
     } catch (err) {
-      this.logger.warn(`Image normalize skipped (sharp unavailable or failed): ${(err as any)?.message || err}`);
+      this.logger.warn(`Image normalize skipped (sharp unavailable or failed): ${(err as Error)?.message || err}`);
     }
 
     const form = new FormData();
     form.append('prompt', prompt);
-    if (model) form.append('model', model);
+    if (entry?.deployment || model) form.append('model', entry?.deployment || model);
     if (size) form.append('size', size);
     if (seconds != null) form.append('seconds', String(seconds));
-    form.append('input_reference', processed, { filename, contentType: uploadContentType } as any);
+    form.append('input_reference', processed, { filename, contentType: uploadContentType });
 
     const url = `${baseUrl}/v1/videos`;
     const mergedHeaders = { ...headers, ...form.getHeaders() } as Record<string, string>;
-    this.logger.debug(`POST ${url} (image) | provider=azure | params=${JSON.stringify(params)}`);
-    const res = await firstValueFrom(
-      this.httpService.post(url, form, {
+    this.logger.debug(upstreamRequestLog('POST', url, { params, image: true, promptLen: prompt?.length }));
+    // Serialize once: a FormData stream can only be consumed by a single attempt
+    const payload = form.getBuffer();
+    const res = await this.send(entry, 'create', () => firstValueFrom(
+      this.httpService.post(url, payload, {
         headers: mergedHeaders,
         params,
         maxBodyLength: Infinity,
         maxContentLength: Infinity,
-        proxy: false,
+        proxy: false, ...transport,
       }),
-    );
+    ), { idempotencyKey: azure?.idempotencyKey });
+    if (entry) this.pool.assign(res.data?.id, entry);
     return res.data;
   }
   async getVideoStatus(videoId: string, userApiKey?: string, azure?: AzureOpts) {
-    const { baseUrl, params, headers } = this.buildBase(userApiKey, azure);
+    const entry = this.poolEntry(azure, videoId);
+    const { baseUrl, params, headers, transport } = await this.buildBase(userApiKey, azure, entry);
     // Align with videos API
     const primaryUrl = `${baseUrl}/v1/videos/${videoId}`;
-    this.logger.debug(`GET ${primaryUrl} | provider=azure`);
+    this.logger.debug(upstreamRequestLog('GET', primaryUrl, { params }));
     try {
-      const response = await firstValueFrom(
-        this.httpService.get(primaryUrl, { headers, params, proxy: false }),
-      );
+      const response = await this.send(entry, 'status', () => firstValueFrom(
+        this.httpService.get(primaryUrl, { headers, params, proxy: false, ...transport }),
+      ));
       return this.addFailureReasonIfAny(response.data);
-    } catch (err: any) {
+    } catch (err) {
       if (err?.response?.status === 404) {
         // Fallback to JOB status if ID refers to a job (per Azure quickstart)
         const altUrl = `${baseUrl}/v1/video/generations/jobs/${videoId}`;
-        this.logger.warn(`404 on ${primaryUrl}, trying ${altUrl}`);
-        const altRes = await firstValueFrom(
-          this.httpService.get(altUrl, { headers, params, proxy: false }),
-        );
+        this.logger.warn({ message: 'upstream 404, trying fallback', upstreamUrl: primaryUrl, fallbackUrl: altUrl });
+        const altRes = await this.send(entry, 'status', () => firstValueFrom(
+          this.httpService.get(altUrl, { headers, params, proxy: false, ...transport }),
+        ));
         return this.addFailureReasonIfAny(altRes.data);
       }
       throw err;
     }
   }
 
-  async listVideos(paramsIn?: { limit?: number; after?: string; order?: 'asc' | 'desc' }, userApiKey?: string, azure?: AzureOpts) {
-    const { baseUrl, params, headers } = this.buildBase(userApiKey, azure);
-    const mergedParams: Record<string, any> = { ...(params || {}) };
+  async listVideos(paramsIn?: ListVideosParams, userApiKey?: string, azure?: AzureOpts) {
+    // Listing is not merged across pool entries
+    const entry = this.fallbackEntry(azure);
+    const { baseUrl, params, headers, transport } = await this.buildBase(userApiKey, azure, entry);
+    const mergedParams: Record<string, string | number> = { ...(params || {}) };
     if (paramsIn?.limit != null) mergedParams['limit'] = paramsIn.limit;
     if (paramsIn?.after) mergedParams['after'] = paramsIn.after;
     if (paramsIn?.order) mergedParams['order'] = paramsIn.order;
 
     const url = `${baseUrl}/v1/videos`;
-    this.logger.debug(`GET ${url} | provider=azure | params=${JSON.stringify(mergedParams)}`);
-    const res = await firstValueFrom(
-      this.httpService.get(url, { headers, params: mergedParams, proxy: false }),
-    );
+    this.logger.debug(upstreamRequestLog('GET', url, { params: mergedParams }));
+    const res = await this.send(entry, 'list', () => firstValueFrom(
+      this.httpService.get(url, { headers, params: mergedParams, proxy: false, ...transport }),
+    ));
     const body = res.data;
     if (body && Array.isArray(body.data)) {
-      body.data = body.data.map((v: any) => this.addFailureReasonIfAny(v));
+      body.data = body.data.map((v: UpstreamVideo) => this.addFailureReasonIfAny(v));
     }
     return body;
   }
 
   async remixVideo(videoId: string, prompt: string, userApiKey?: string, azure?: AzureOpts) {
-    const { baseUrl, params, headers } = this.buildBase(userApiKey, azure);
+    // The source video only exists on the resource that rendered it
+    const entry = this.poolEntry(azure, videoId);
+    const { baseUrl, params, headers, transport } = await this.buildBase(userApiKey, azure, entry);
     const url = `${baseUrl}/v1/videos/${videoId}/remix`;
     const body = { prompt };
-    this.logger.debug(`POST ${url} | provider=azure | params=${JSON.stringify(params)} | body=${JSON.stringify({ ...body, promptLen: prompt?.length })}`);
-    const res = await firstValueFrom(
-      this.httpService.post(url, body, { headers, params, proxy: false }),
-    );
+    this.logger.debug(upstreamRequestLog('POST', url, { params, body: { promptLen: prompt?.length } }));
+    const res = await this.send(entry, 'remix', () => firstValueFrom(
+      this.httpService.post(url, body, { headers, params, proxy: false, ...transport }),
+    ), { idempotencyKey: azure?.idempotencyKey });
+    if (entry) this.pool.assign(res.data?.id, entry);
     return res.data;
   }
 
-  async downloadVideoContent(videoId: string, userApiKey?: string, azure?: AzureOpts) {
-    const { baseUrl, params, headers } = this.buildBase(userApiKey, azure);
+  async downloadVideoContent(videoId: string, userApiKey?: string, azure?: AzureOpts, content?: ContentOptions) {
+    const entry = this.poolEntry(azure, videoId);
+    const { baseUrl, params, headers: baseHeaders, transport } = await this.buildBase(userApiKey, azure, entry);
+    const headers = { ...baseHeaders, ...contentRequestHeaders(content) };
+    // Generations API serves variants as path segments: /content/video, /content/thumbnail
+    const variant = content?.variant || 'video';
 
     // Try videos content first for compatibility, then fall back to generations content per docs
     const videosUrl = `${baseUrl}/v1/videos/${videoId}/content`;
-    const gensUrl = `${baseUrl}/v1/video/generations/${videoId}/content/video`;
-    this.logger.debug(`GET ${videosUrl} | provider=azure | params=${JSON.stringify(params)} | (content primary)`);
+    const videosParams = { ...params, ...contentVariantParams(content) };
+    const gensUrl = `${baseUrl}/v1/video/generations/${videoId}/content/${variant}`;
+    this.logger.debug(upstreamRequestLog('GET', videosUrl, { params: videosParams }));
     try {
-      const res = await firstValueFrom(
-        this.httpService.get(videosUrl, { headers, params, responseType: 'stream', proxy: false }),
-      );
-      return res.data;
-    } catch (err: any) {
+      const res = await this.send(entry, 'content', () => firstValueFrom(
+        this.httpService.get(videosUrl, { headers, params: videosParams, responseType: 'stream', proxy: false, ...transport }),
+      ));
+      return toContentStream(res);
+    } catch (err) {
       if (err?.response?.status !== 404) throw err;
-      this.logger.warn(`404 on ${videosUrl}, trying ${gensUrl}`);
+      this.logger.warn({ message: 'upstream 404, trying fallback', upstreamUrl: videosUrl, fallbackUrl: gensUrl });
       try {
-        const res2 = await firstValueFrom(
-          this.httpService.get(gensUrl, { headers, params, responseType: 'stream', proxy: false }),
-        );
-        return res2.data;
-      } catch (err2: any) {
+        const res2 = await this.send(entry, 'content', () => firstValueFrom(
+          this.httpService.get(gensUrl, { headers, params, responseType: 'stream', proxy: false, ...transport }),
+        ));
+        return toContentStream(res2);
+      } catch (err2) {
         if (err2?.response?.status !== 404) throw err2;
         // As a final fallback: treat given id as JOB id, resolve generation id via job status
         const jobUrl = `${baseUrl}/v1/video/generations/jobs/${videoId}`;
-        this.logger.warn(`404 on ${gensUrl}, trying to resolve generation via ${jobUrl}`);
-        const jobRes = await firstValueFrom(
-          this.httpService.get(jobUrl, { headers, params, proxy: false }),
-        );
+        this.logger.warn({ message: 'upstream 404, resolving generation via job', upstreamUrl: gensUrl, fallbackUrl: jobUrl });
+        const jobRes = await this.send(entry, 'content', () => firstValueFrom(
+          this.httpService.get(jobUrl, { headers: baseHeaders, params, proxy: false, ...transport }),
+        ));
         const generations = (jobRes?.data?.generations || []) as Array<{ id?: string }>;
         const genId = generations.find(g => g?.id)?.id;
         if (!genId) {
           throw err2; // No generation id to try
         }
-        const finalUrl = `${baseUrl}/v1/video/generations/${genId}/content/video`;
-        const res3 = await firstValueFrom(
-          this.httpService.get(finalUrl, { headers, params, responseType: 'stream', proxy: false }),
-        );
-        return res3.data;
+        const finalUrl = `${baseUrl}/v1/video/generations/${genId}/content/${variant}`;
+        const res3 = await this.send(entry, 'content', () => firstValueFrom(
+          this.httpService.get(finalUrl, { headers, params, responseType: 'stream', proxy: false, ...transport }),
+        ));
+        return toContentStream(res3);
       }
     }
   }
 
   async deleteVideo(videoId: string, userApiKey?: string, azure?: AzureOpts) {
-    const { baseUrl, params, headers } = this.buildBase(userApiKey, azure);
+    const entry = this.poolEntry(azure, videoId);
+    const { baseUrl, params, headers, transport } = await this.buildBase(userApiKey, azure, entry);
     const videosUrl = `${baseUrl}/v1/videos/${videoId}`;
     const gensUrl = `${baseUrl}/v1/video/generations/${videoId}`;
     const jobsUrl = `${baseUrl}/v1/video/generations/jobs/${videoId}`;
-    this.logger.debug(`DELETE ${videosUrl} | provider=azure | params=${JSON.stringify(params)}`);
+    this.logger.debug(upstreamRequestLog('DELETE', videosUrl, { params }));
     try {
-      const res = await firstValueFrom(
-        this.httpService.delete(videosUrl, { headers, params, proxy: false }),
-      );
+      const res = await this.send(entry, 'delete', () => firstValueFrom(
+        this.httpService.delete(videosUrl, { headers, params, proxy: false, ...transport }),
+      ));
       return res.data;
-    } catch (err: any) {
+    } catch (err) {
       if (err?.response?.status !== 404) throw err;
-      this.logger.warn(`404 on DELETE ${videosUrl}, trying ${gensUrl}`);
+      this.logger.warn({ message: 'upstream 404, trying fallback', upstreamMethod: 'DELETE', upstreamUrl: videosUrl, fallbackUrl: gensUrl });
       try {
-        const res2 = await firstValueFrom(
-          this.httpService.delete(gensUrl, { headers, params, proxy: false }),
-        );
+        const res2 = await this.send(entry, 'delete', () => firstValueFrom(
+          this.httpService.delete(gensUrl, { headers, params, proxy: false, ...transport }),
+        ));
         return res2.data;
-      } catch (err2: any) {
+      } catch (err2) {
         if (err2?.response?.status !== 404) throw err2;
-        this.logger.warn(`404 on DELETE ${gensUrl}, trying ${jobsUrl}`);
+        this.logger.warn({ message: 'upstream 404, trying fallback', upstreamMethod: 'DELETE', upstreamUrl: gensUrl, fallbackUrl: jobsUrl });
         try {
-          const res3 = await firstValueFrom(
-            this.httpService.delete(jobsUrl, { headers, params, proxy: false }),
-          );
+          const res3 = await this.send(entry, 'delete', () => firstValueFrom(
+            this.httpService.delete(jobsUrl, { headers, params, proxy: false, ...transport }),
+          ));
           return res3.data;
-        } catch (err3: any) {
+        } catch (err3) {
           if (err3?.response?.status === 404) {
             // Treat as idempotent success if nothing exists
             return {};
@@ -0,0 +1,113 @@
+/**
+ * 2-second 128x72 H.264 test pattern (ffmpeg testsrc, baseline profile, faststart),
+ * served as the content of every completed mock video.
+ */
+export const MOCK_VIDEO_MP4 = Buffer.from(
+  'AAAAIGZ0eXBpc29tAAACAGlzb21pc28yYXZjMW1wNDEAAANRbW9vdgAAAGxtdmhkAAAAAAAAAAAAAAAAAAAD6AAAB9AAAQAA' +
+  'AQAAAAAAAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA' +
+  'AAAAAgAAAnt0cmFrAAAAXHRraGQAAAADAAAAAAAAAAAAAAABAAAAAAAAB9AAAAAAAAAAAAAAAAAAAAAAAAEAAAAAAAAAAAAA' +
+  'AAAAAAABAAAAAAAAAAAAAAAAAABAAAAAAIAAAABIAAAAAAAkZWR0cwAAABxlbHN0AAAAAAAAAAEAAAfQAAAAAAABAAAAAAHz' +
+  'bWRpYQAAACBtZGhkAAAAAAAAAAAAAAAAAABAAAAAgABVxAAAAAAALWhkbHIAAAAAAAAAAHZpZGUAAAAAAAAAAAAAAABWaWRl' +
+  'b0hhbmRsZXIAAAABnm1pbmYAAAAUdm1oZAAAAAEAAAAAAAAAAAAAACRkaW5mAAAAHGRyZWYAAAAAAAAAAQAAAAx1cmwgAAAA' +
+  'AQAAAV5zdGJsAAAApnN0c2QAAAAAAAAAAQAAAJZhdmMxAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAAAAIAASABIAAAASAAAAAAA' +
+  'AAABAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAGP//AAAAMGF2Y0MBQsAK/+EAGGdCwArZAgv5cBEAAAMAAQAA' +
+  'AwAQDxImSAEABWjLgJSyAAAAEHBhc3AAAAABAAAAAQAAABhzdHRzAAAAAAAAAAEAAAAQAAAIAAAAABRzdHNzAAAAAAAAAAEA' +
+  'AAABAAAAHHN0c2MAAAAAAAAAAQAAAAEAAAAQAAAAAQAAAFRzdHN6AAAAAAAAAAAAAAAQAAAGagAAACkAAAA5AAAAVgAAADwA' +
+  'AABOAAAAVQAAAEEAAAB9AAAAUAAAAD0AAABQAAAARwAAAFwAAAA4AAAAOwAAABRzdGNvAAAAAAAAAAEAAAOBAAAAYnVkdGEA' +
+  'AABabWV0YQAAAAAAAAAhaGRscgAAAAAAAAAAbWRpcmFwcGwAAAAAAAAAAAAAAAAtaWxzdAAAACWpdG9vAAAAHWRhdGEAAAAB' +
+  'AAAAAExhdmY1OC4yNC4xMDAAAAAIZnJlZQAACrptZGF0AAACcAYF//9s3EXpvebZSLeWLNgg2SPu73gyNjQgLSBjb3JlIDE1' +
+  'NyByMjkzNSA1NDVkZTJmIC0gSC4yNjQvTVBFRy00IEFWQyBjb2RlYyAtIENvcHlsZWZ0IDIwMDMtMjAxOCAtIGh0dHA6Ly93' +
+  'd3cudmlkZW9sYW4ub3JnL3gyNjQuaHRtbCAtIG9wdGlvbnM6IGNhYmFjPTAgcmVmPTMgZGVibG9jaz0xOjA6MCBhbmFseXNl' +
+  'PTB4MToweDExMSBtZT1oZXggc3VibWU9NyBwc3k9MSBwc3lfcmQ9MS4wMDowLjAwIG1peGVkX3JlZj0xIG1lX3JhbmdlPTE2' +
+  'IGNocm9tYV9tZT0xIHRyZWxsaXM9MSA4eDhkY3Q9MCBjcW09MCBkZWFkem9uZT0yMSwxMSBmYXN0X3Bza2lwPTEgY2hyb21h' +
+  'X3FwX29mZnNldD0tMiB0aHJlYWRzPTEgbG9va2FoZWFkX3RocmVhZHM9MSBzbGljZWRfdGhyZWFkcz0wIG5yPTAgZGVjaW1h' +
+  'dGU9MSBpbnRlcmxhY2VkPTAgYmx1cmF5X2NvbXBhdD0wIGNvbnN0cmFpbmVkX2ludHJhPTAgYmZyYW1lcz0wIHdlaWdodHA9' +
+  'MCBrZXlpbnQ9MjUwIGtleWludF9taW49OCBzY2VuZWN1dD00MCBpbnRyYV9yZWZyZXNoPTAgcmNfbG9va2FoZWFkPTQwIHJj' +
+  'PWNyZiBtYnRyZWU9MSBjcmY9MzUuMCBxY29tcD0wLjYwIHFwbWluPTAgcXBtYXg9NjkgcXBzdGVwPTQgaXBfcmF0aW89MS40' +
+  'MCBhcT0xOjEuMDAAgAAAA/JliIQEPJigACTX4bkUmYvGggFAD4E36yXyFlRcOR8IuPR8QEViAAFgAzgSczMegSWNpvgAuzmd' +
+  'CgxVgAqaxqpAIvtgxEEJ4AAivxIAAg1IcAASsojFAAEVmOAAIMkcAARbYjFAAE7SOAAJfccAAQXoiIFAAEMeOAAIGkcAAQ3/' +
+  'A9PmApBgGAJdg7G06YI8cNPDcW78gWA4RQQEEHBQSAskct+BqgyQACjlsC47r/B77fgYdhFAw+eBEEIoAAipRAAgACCOhAAE' +
+  'AARSl//4QQhqABDKWZ6JGah2h8v5AVwBx68+ePafdu7wLAmCCwDhILr2Hi8vFwZdEQESMwfBg+ALB4MEw3T0+H/+LBcHsABI' +
+  'o0Jc8x6TPwuDLVRFaNF8FM0ETMuDwe8HIHv6R/2GhNeAF59XO/9v4MBLAyAAIAIDQJpugWSIxrkC5O0PiIvxpIAQQNuQ//7C' +
+  'Yj4AEG6a2TTYf3Gq2lNeGDf//0gh8AMytNGtXhTDYkLA5eh0PPCeCZaen/0+ChYcBF+fTW1p+zqp96f3+UIpkgcYATqZMAHy' +
+  'REyo3n7/dpZLPOdkX9+/wgWIcIBIY/BkUvgeQUvDDjD7BWCUi6l/ENEBXo9jtYysf/b7BACLADc0VDccXcf4/wDxozB1Yvyk' +
+  'TZrgcDgoHAHAgnoMSlzINnLJmXM2sPH/IDA4Iv9vfVfhgGFg4A1A+MrmHjSWO3LWAnXJD1VlSfRxxwiGAf8FfEJFw0EUDAAJ' +
+  'AxcPGaWHjNL7DxmlhyGJLn4BgHxyAr4Onih2EAcB/Dx6WUGllR5Bx+MfoGP0HjtfhgAB/DXB7wdZdlwDgAEQKwHPDojyw4hC' +
+  'y7sPMUsolLu+AYB/odxI4XObF8SCQUABq/vDojyw4hCy7v/D/gvLmzXCDnMEBghQHRHlh0RZcyUSlu0t9ohgH/BWYyv/0974' +
+  'SKQYHPDARet3Kg0jlh0hy/NC4DgAHDgBAABBnTBAAEAAQDogACAAIEOIAKCZ+AaHDBWAReu2+eDnhg1kxwlAMoQBFBz0CE6N' +
+  'AXAA3AhbgA5w7YgtPKe2QLAAEAS4KQTAcBKUAAQWUwSAAIECHAAEU70JhdkXLKi5fiyFFAAEMeGAAIAwAYAAiGAAIC3ABYqE' +
+  'ygqBMoKAE1YsAJqw8AOngB0GAAbIcABM4YB/8FZBQABAC8IgARwABElCCBPAAUolqJf79+MUUAAQBI4AAgQRwABCl/k3w4D/' +
+  '0NCXASczAgI9ADB3tgh8DkP48JMAwADBARAMOAI6m409/xwANzwCJuSMDUwn5gGFUlIkkQmAAIAlwODhAP/grC4G2AAIDEt8' +
+  'IAEQElwMAAILIAAghV/LEtRL+AAAACVBmjgIeF+qelhqgWOaz0d/qZFXqNprC1a16savRWHoQJacF+IgAAAANUGaVAIeGV4W' +
+  'glBZjTJUy3Yr/o6MVeHOoB2vC3L4JP5OXAb2Vfq2v0WY/DgitRipNpt/4RxEAAAAUkGaYBDwyqwVUC7LJ+lwa+GRerhWmE3Q' +
+  'PGSXzaDbl+8IA0zxu4h3/XhKeRaOyznf9eSjMa/PY+XS73gs2hI2LXhRAkFVr8cHfsI+9Ahc7+/v76gAAAA4QZqAEPDK8LUC' +
+  '59foW/54L/5tvrwxBETd2NfhXlwuZctLpd/r8EXNisa7ClCRFJrw7QxFPQJ89+AAAABKQZqgEPDLw1zgwZ9MK5frsMUN8/Dm' +
+  'tREkl0LMv/L/YWhTr85l8uiHe8KbOfi77YWGXjrsNLXiYXNmw2VrxaG1Os214KaDLy0FfXUAAABRQZrAEPDKrBRBCC7Nhsc1' +
+  'WSHhu5cy473xOvCuW7f9GG1GvC0NdIuESXUv7wtwQ9IxGTZfBVwScER82NUV65dRGXrxsE4jmyL16SwvQIa7+/vqAAAAPUGa' +
+  '4BDwy8OcEIKObNAr14Uo7j5xA2u2Xf67C0hc9DXX6I28LaQkuHzlEtWFcv/XhqHhnNmbNa4FpjUvPiYAAAB5QZsAEPHdGBBg' +
+  'ArkxNeROKer4KSprN9oR0CeGyY/OUuJngn6HgnHWmeARvZi+PBX9+AuhRUVXrX/VrwQUKc15YIROXEotf67PBKTKSHfcTsa/' +
+  'ORfbHZfruznzYt/65Wkf+vULjObK15fm0al5I1ULhBAj/4X9BX19eAAAAExBmyAQ8MrwxOCpfNpt9/KcSNr+bb/oVdl/jwtC' +
+  'VHh6/BF1NjbwWdQfnrkCk5+pm3+sEnBcKATi9uPf+tfF1nDZEk0m/6hBCf+E98dgAAAAOUGbQBDwy8NdAsRafOLAzoVy6XX/' +
+  'rw9DQjlxQsy//L4eef6/PY+Oy276/R82vwRdRPMtfo0i0EcVgAAAAExBm2AQ8Mq8CByft8vgkBFVVi1fgiEZcSjauXBIJrXM' +
+  'a8LQSm5szYrfqMU1yBb0CyDCAJnbbdPf+90Cr+batpYFH4XCCBHmqvoL/hbAAAAAQ0GbgBDwy8LcNAs3e/4Vy/84sRS4daP/' +
+  'rsJUIfL4Uyfr7XteGJ5km0GKl/68LoEpebM2FI9r1V7beCP4TCCD7+E1f4AAAABYQZugP8MqsFHJ+ly+cEFWy7/VQU4VEZs8' +
+  'uIYNf4HjNLDxkl/agm4XE82LKqgSr8Q73hroQW/UYprwtDXaNmcm02/1+HN76LT0yGauwTh44Zf59a96E5SfgAAAADRBm8A/' +
+  'wy8KdAuN9eOobWvGddZ6VeXUv5xBVfLrf9RimvC0M9Vf5tE96/Ph/m2rfhv8ISfgAAAAN0Gb4DvDPnBYZMQ7/L/4SoSS13kJ' +
+  'lx6/RW/OYBGxPf68OT8o1Lj/1+CHtNOa/Dm91826ugn65Pw=',
+  'base64',
+);
+
+/**
+ * 128x72 WebP still of the same test pattern, served as the mock `thumbnail` variant.
+ */
+export const MOCK_THUMBNAIL_WEBP = Buffer.from(
+  'UklGRh4BAABXRUJQVlA4IBIBAADwDACdASqAAEgAPqFImkmmJKKhONa4AMAUCWYAz2EVfxA06H46firyYRBr+c/clv/+czfp' +
+  'nrIH6q+wB+wHr/9X+EC3ZmvXnaJAwm7eu81KvPgGi4d04BQtE2T8xts/2cgnRR8WjtrwZEZRfVxavepcAP7vqQbVTV9G45vX' +
+  'E7k+DqGuA5dIJgX4h9oKgykIBUgzzxfLGEvA2S2Un7ILQH25Dq+asI78X5FtYolIK43pguyl80aPu9XLmN+Dv5QNtxJlpcJ/' +
+  'o2d/L5+HODMus91r69CJv0Lh/1uRlEA9WLWLt/rUuycvJm/wIGYNmwB7kRQ+7mQl77RJV7Yebq8lno86qE0dJ72ioRc/BBzj' +
+  'U9MZAAAA',
+  'base64',
+);
+
+/**
+ * Four 128x72 frames tiled horizontally (JPEG), served as the mock `spritesheet` variant.
+ */
+export const MOCK_SPRITESHEET_JPG = Buffer.from(
+  '/9j/2wBDABALDA4MChAODQ4SERATGCgaGBYWGDEjJR0oOjM9PDkzODdASFxOQERXRTc4UG1RV19iZ2hnPk1xeXBkeFxlZ2P/' +
+  '2wBDARESEhgVGC8aGi9jQjhCY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2P/wAAR' +
+  'CABIAgADASIAAhEBAxEB/8QAGgAAAwEBAQEAAAAAAAAAAAAAAAMEAgUHBv/EAB8QAQABBQEAAwEAAAAAAAAAAAACAQMyM3EE' +
+  'BTVzsv/EABkBAQADAQEAAAAAAAAAAAAAAAYDBAUCAP/EACARAAEDBAMBAQAAAAAAAAAAAAABAjMEBXGBMTI0sQP/2gAMAwEA' +
+  'AhEDEQA/APoAA8eJ72yrDd7ZVgYqJnZUmTgR68I9SqvXhHqUltfmTf0N3H0LozPCXEqqeEuJVa5d24KjAQ3dsurkN3bLqezS' +
+  'OwJLBK/Bgm/lThxN/KnGrXwLoWs5FFenTU0r06asiknZlDmqhfhSMAGYRJAAJFg9gADx4nvbKsN3tlWBiomdlSZOBHrwj1Kq' +
+  '9eEepSW1+ZN/Q3cfQujM8JcSqp4S4lVrl3bgqMBDd2y6uQ3dsup7NI7AksEr8GCb+VOHE38qcatfAuhazkUV6dNTSvTpqyKS' +
+  'dmUOaqF+FOQ3Z2UYbs7KLlPM3KBheCgAE5AelfFfU+L8IfzRWk+K+p8X4Q/misV/TupYQnvbKsN3tlWBWomdlSZOBHrwj1Kq' +
+  '9eEepSW1+ZN/Q3cfQujM8JcSqp4S4lVrl3bgqMBDd2y6uQ3dsup7NI7AksEr8GCb+VOHE38qcatfAuhazk+edD43XPrnuh8b' +
+  'rn1lfr1MSgnTZYV6dNTSvTpq5pJ2ZQ2aqF+FIwAZhE9K+K+p8X4Q/mitJ8V9T4vwh/NFYr+ndSwhPe2VYbvbKsCtRM7KkycC' +
+  'PXhHqVV68I9Sktr8yb+hu4+hdGZ4S4lVTwlxKrXLu3BUYCG7tl1chu7ZdT2aR2BJYJX4PtgAkJSe9sqw3e2VYGKiZ2VJk4Ee' +
+  'vCPUqr14R6lJbX5k39Ddx9C6MzwlxKqnhLiVWuXduCowEN3bLq5Dd2y6ns0jsCSwSvwYJv5U4cTfypxq18C6FrORRXp01NK9' +
+  'OmrIpJ2ZQ5qoX4UjABmESQACRYPYAA8eJ72yrDd7ZVgYqJnZUmTgR68I9SqvXhHqUltfmTf0N3H0LozPCXEqqeEuJVa5d24K' +
+  'jAQ3dsurkN3bLqezSOwJLBK/Bgm/lThxN/KnGrXwLoWs5FFenTU0r06asiknZlDmqhfhTkN2dlGG7Oyi5TzNygYXgoABOQHp' +
+  'XxX1Pi/CH80VpPivqfF+EP5orFf07qWEJ72yrDd7ZVgVqJnZUmTgR68I9SqvXhHqUltfmTf0N3H0LozPCXEqqeEuJVa5d24K' +
+  'jAQ3dsurkN3bLqezSOwJLBK/Bgm/lThxN/KnGrXwLoWs5PnnQ+N1z657ofG659ZX69TEoJ02WFenTU0r06auaSdmUNmqhfhS' +
+  'MAGYRPSvivqfF+EP5orSfFfU+L8IfzRWK/p3UsIT3tlWG72yrArUTOypMnAj14R6lVevCPUpLa/Mm/obuPoXRmeEuJVU8JcS' +
+  'q1y7twVGAhu7ZdXIbu2XU9mkdgSWCV+D7YAJCUnvbKsN3tlWBiomdlSZOBHrwj1Kq9eEepSW1+ZN/Q3cfQujM8JcSqp4S4lV' +
+  'rl3bgqMBDd2y6uQ3dsup7NI7AksEr8GCb+VOHE38qcatfAuhazkUV6dNTSvTpqyKSdmUOaqF+FIwAZhEkAAkWD2AAPHie9sq' +
+  'w3e2VYGKiZ2VJk4EevCPUqr14R6lJbX5k39Ddx9C6MzwlxKqnhLiVWuXduCowEN3bLq5Dd2y6ns0jsCSwSvwYJv5U4cTfypx' +
+  'q18C6FrORRXp01NK9OmrIpJ2ZQ5qoX4U5DdnZRhuzsouU8zcoGF4KAATkB6V8V9T4vwh/NFaT4r6nxfhD+aKxX9O6lhCe9sq' +
+  'w3e2VYFaiZ2VJk4EevCPUqr14R6lJbX5k39Ddx9C6MzwlxKqnhLiVWuXduCowEN3bLq5Dd2y6ns0jsCSwSvwYJv5U4cTfypx' +
+  'q18C6FrOT550Pjdc+ue6HxuufWV+vUxKCdNlhXp01NK9OmrmknZlDZqoX4UjABmET0r4r6nxfhD+aK0nxX1Pi/CH80Viv6d1' +
+  'LCE97ZVhu9sqwK1EzsqTJwI9eEepVXrwj1KS2vzJv6G7j6F0ZnhLiVVPCXEqtcu7cFRgIbu2XVyG7tl1PZpHYElglfg+2ACQ' +
+  'lJ72yrDd7ZVgYqJnZUmTgR68I9SqvXhHqUltfmTf0N3H0LozPCXEqqeEuJVa5d24KjAQ3dsurkN3bLqezSOwJLBK/Bgm/lTh' +
+  'xN/KnGrXwLoWs5FFenTU0r06asiknZlDmqhfhSMAGYRJAAJFg9gADx4nvbKsN3tlWBiomdlSZOBHrwj1Kq9eEepSW1+ZN/Q3' +
+  'cfQujM8JcSqp4S4lVrl3bgqMBDd2y6uQ3dsup7NI7AksEr8GCb+VOHE38qcatfAuhazkUV6dNTSvTpqyKSdmUOaqF+FOQ3Z2' +
+  'UYbs7KLlPM3KBheCgAE5AelfFfU+L8IfzRWk+K+p8X4Q/misV/TupYQnvbKsN3tlWBWomdlSZOBHrwj1Kq9eEepSW1+ZN/Q3' +
+  'cfQujM8JcSqp4S4lVrl3bgqMBDd2y6uQ3dsup7NI7AksEr8GCb+VOHE38qcatfAuhazk+edD43XPrnuh8brn1lfr1MSgnTZY' +
+  'V6dNTSvTpq5pJ2ZQ2aqF+FIwAZhE9K+K+p8X4Q/mitJ8V9T4vwh/NFYr+ndSwhPe2VYbvbKsCtRM7KkycCPXhHqVV68I9Skt' +
+  'r8yb+hu4+hdGZ4S4lVTwlxKrXLu3BUYCG7tl1chu7ZdT2aR2BJYJX4PtgAkJSe9sqwAMVEzsqTJwI9eEepQCW1+ZN/Q3cfQu' +
+  'jM8JcSgK1y7twVGAhu7ZdAT2aR2BJYJX4ME38qcAatfAuhazkUV6dNQGRSTsyhzVQvwpGADMIkgAEiwewAB48T3tlWABiomd' +
+  'lSZOBHrwj1KAS2vzJv6G7j6F0ZnhLiUBWuXduCowEN3bLoCezSOwJLBK/Bgm/lTgDVr4F0LWciivTpqAyKSdmUOaqF+FOQ3Z' +
+  '2UAXKeZuUDC8FAAJyA9K+K+p8X4Q/misAV/TupYQnvbKsACtRM7KkycCPXhHqUAltfmTf0N3H0LozPCXEoCtcu7cFRgIbu2X' +
+  'QE9mkdgSWCV+DBN/KnAGrXwLoWs5PnnQ+N1z6Ayv16mJQTpssK9OmoDmknZlDZqoX4UjABmET0r4r6nxfhD+aKwBX9O6lhCe' +
+  '9sqwAK1EzsqTJwI9eEepQCW1+ZN/Q3cfQujM8JcSgK1y7twVGAhu7ZdAT2aR2BJYJX4P/9k=',
+  'base64',
+);
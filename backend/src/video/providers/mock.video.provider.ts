@@ -0,0 +1,196 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import { CONTENT_VARIANTS, ContentOptions, CreateVideoOptions, ListVideosParams, ProviderOptions, UpstreamError, VideoContentStream, VideoProvider } from './video-provider.interface';
+import { resolveByteRange } from '../../common/http-range';
+import { MOCK_SPRITESHEET_JPG, MOCK_THUMBNAIL_WEBP, MOCK_VIDEO_MP4 } from './mock-video.fixture';
+
+const MOCK_CONTENT = {
+  video: MOCK_VIDEO_MP4,
+  thumbnail: MOCK_THUMBNAIL_WEBP,
+  spritesheet: MOCK_SPRITESHEET_JPG,
+};
+
+interface MockVideo {
+  id: string;
+  object: 'video';
+  model: string;
+  prompt: string;
+  size: string;
+  seconds: string;
+  status: 'queued' | 'in_progress' | 'completed' | 'failed';
+  progress: number;
+  created_at: number;
+  completed_at?: number;
+  remixed_from_video_id?: string;
+  error?: { code: string; message: string };
+}
+
+interface MockState {
+  video: MockVideo;
+  createdAtMs: number;
+  willFail: boolean;
+}
+
+/**
+ * Build an error shaped like an axios upstream failure so callers (toHttpException,
+ * the job poller) treat mock errors exactly like real upstream ones.
+ */
+function upstreamError(status: number, message: string, code: string, headers: Record<string, string> = {}) {
+  const error: Error & UpstreamError = new Error(message);
+  error.response = { status, headers, data: { error: { message, code, type: 'invalid_request_error' } } };
+  return error;
+}
+
+/**
+ * Offline stand-in for the Videos API, selected with `x-provider: mock`.
+ * Jobs live in memory and advance with wall-clock time: queued for MOCK_QUEUE_DELAY_MS,
+ * then in_progress for MOCK_RENDER_DURATION_MS, then completed (or failed with probability
+ * MOCK_FAILURE_RATE). Completed jobs serve a small bundled MP4.
+ */
+@Injectable()
+export class MockVideoProvider implements VideoProvider {
+  readonly name = 'mock';
+  private readonly logger = new Logger(MockVideoProvider.name);
+  private readonly videos = new Map<string, MockState>();
+  private readonly queueDelayMs: number;
+  private readonly renderDurationMs: number;
+  private readonly failureRate: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.queueDelayMs = this.numberSetting('MOCK_QUEUE_DELAY_MS', 2000);
+    this.renderDurationMs = this.numberSetting('MOCK_RENDER_DURATION_MS', 8000);
+    this.failureRate = Math.min(1, Math.max(0, this.numberSetting('MOCK_FAILURE_RATE', 0)));
+  }
+
+  private numberSetting(key: string, fallback: number): number {
+    const raw = this.configService.get<string>(key);
+    const value = raw == null || raw === '' ? NaN : Number(raw);
+    return Number.isFinite(value) ? value : fallback;
+  }
+
+  private create(prompt: string, model: string, options: CreateVideoOptions, remixOf?: MockVideo): MockVideo {
+    const now = Date.now();
+    const video: MockVideo = {
+      id: `video_mock_${randomBytes(12).toString('hex')}`,
+      object: 'video',
+      model: remixOf?.model || model || 'sora-2',
+      prompt,
+      size: remixOf?.size || options?.size || '720x1280',
+      seconds: remixOf?.seconds || String(options?.duration ?? 4),
+      status: 'queued',
+      progress: 0,
+      created_at: Math.floor(now / 1000),
+      remixed_from_video_id: remixOf?.id,
+    };
+    this.videos.set(video.id, { video, createdAtMs: now, willFail: Math.random() < this.failureRate });
+    this.logger.debug(`Mock video ${video.id} created${remixOf ? ` (remix of ${remixOf.id})` : ''}`);
+    return this.refresh(video.id);
+  }
+
+  /**
+   * Advance a job to the state implied by the time elapsed since creation
+   */
+  private refresh(videoId: string): MockVideo {
+    const state = this.videos.get(videoId);
+    if (!state) {
+      throw upstreamError(404, `Video '${videoId}' not found`, 'video_not_found');
+    }
+    const { video } = state;
+    if (video.status === 'completed' || video.status === 'failed') return { ...video };
+
+    const elapsed = Date.now() - state.createdAtMs;
+    if (elapsed < this.queueDelayMs) {
+      video.status = 'queued';
+      video.progress = 0;
+    } else if (elapsed < this.queueDelayMs + this.renderDurationMs) {
+      video.status = 'in_progress';
+      video.progress = Math.floor(((elapsed - this.queueDelayMs) / this.renderDurationMs) * 100);
+    } else if (state.willFail) {
+      video.status = 'failed';
+      video.completed_at = Math.floor(Date.now() / 1000);
+      video.error = { code: 'mock_failure', message: 'Simulated failure (MOCK_FAILURE_RATE)' };
+    } else {
+      video.status = 'completed';
+      video.progress = 100;
+      video.completed_at = Math.floor(Date.now() / 1000);
+    }
+    return { ...video };
+  }
+
+  async generateVideo(prompt: string, model: string, options: CreateVideoOptions) {
+    return this.create(prompt, model, options);
+  }
+
+  async generateVideoFromImage(image: Express.Multer.File, prompt: string, model: string, options: CreateVideoOptions) {
+    this.logger.debug(`Mock image reference ignored (${image?.mimetype}, ${image?.size ?? image?.buffer?.length} bytes)`);
+    return this.create(prompt, model, options);
+  }
+
+  async getVideoStatus(videoId: string) {
+    return this.refresh(videoId);
+  }
+
+  async listVideos(params: ListVideosParams) {
+    const order = params?.order === 'asc' ? 1 : -1;
+    const all = Array.from(this.videos.keys())
+      .map((id) => this.refresh(id))
+      .sort((a, b) => (a.created_at - b.created_at || a.id.localeCompare(b.id)) * order);
+    let start = 0;
+    if (params?.after) {
+      const idx = all.findIndex((v) => v.id === params.after);
+      start = idx >= 0 ? idx + 1 : all.length;
+    }
+    const limit = Number(params?.limit) || 20;
+    const data = all.slice(start, start + limit);
+    return {
+      object: 'list',
+      data,
+      first_id: data[0]?.id ?? null,
+      last_id: data[data.length - 1]?.id ?? null,
+      has_more: start + limit < all.length,
+    };
+  }
+
+  async deleteVideo(videoId: string) {
+    this.refresh(videoId);
+    this.videos.delete(videoId);
+    return { id: videoId, object: 'video.deleted', deleted: true };
+  }
+
+  async remixVideo(videoId: string, prompt: string) {
+    const source = this.refresh(videoId);
+    if (source.status !== 'completed') {
+      throw upstreamError(400, `Video '${videoId}' must be completed before it can be remixed`, 'invalid_video_state');
+    }
+    return this.create(prompt, source.model, {}, source);
+  }
+
+  async downloadVideoContent(videoId: string, _userApiKey?: string, _opts?: ProviderOptions, content?: ContentOptions): Promise<VideoContentStream> {
+    const video = this.refresh(videoId);
+    if (video.status !== 'completed') {
+      throw upstreamError(404, `Video '${videoId}' has no content (status: ${video.status})`, 'video_not_ready');
+    }
+    const variant = content?.variant || 'video';
+    const body = MOCK_CONTENT[variant];
+    const contentType = CONTENT_VARIANTS[variant].contentType;
+    const size = body.length;
+    const range = resolveByteRange(content?.range, size);
+    if (range === null) {
+      throw upstreamError(416, `Range '${content.range}' not satisfiable`, 'range_not_satisfiable', {
+        'content-range': `bytes */${size}`,
+      });
+    }
+    if (range) {
+      const bytes = body.subarray(range.start, range.end + 1);
+      return {
+        stream: Readable.from([bytes]),
+        contentType,
+        contentLength: bytes.length,
+        contentRange: `bytes ${range.start}-${range.end}/${size}`,
+      };
+    }
+    return { stream: Readable.from([body]), contentType, contentLength: size };
+  }
+}
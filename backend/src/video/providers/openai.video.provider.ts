@@ -0,0 +1,216 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import FormData from 'form-data';
+import { ContentOptions, CreateVideoOptions, ListVideosParams, ProviderOptions, VideoProvider } from './video-provider.interface';
+import { contentRequestHeaders, contentVariantParams, redactHeaders, toContentStream, upstreamRequestLog } from './provider.utils';
+import { UpstreamRetry } from './upstream-retry';
+
+@Injectable()
+export class OpenAIVideoProvider implements VideoProvider {
+  readonly name = 'openai';
+  private readonly logger = new Logger(OpenAIVideoProvider.name);
+  private readonly defaultApiKey: string;
+  private readonly baseURL: string;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+    private readonly upstreamRetry: UpstreamRetry,
+  ) {
+    this.defaultApiKey = this.configService.get<string>('OPENAI_API_KEY');
+    this.baseURL = this.configService.get<string>('OPENAI_API_BASE_URL') || 'https://api.openai.com/v1';
+
+    if (!this.defaultApiKey) {
+      this.logger.log('OPENAI_API_KEY is not set. Users must provide their own API keys.');
+    }
+  }
+
+  missingConfig(): string[] {
+    return this.defaultApiKey ? [] : ['OPENAI_API_KEY'];
+  }
+
+  /**
+   * Get API key from user or fallback to default
+   */
+  private authHeaders(userApiKey?: string): Record<string, string> {
+    return { 'Authorization': `Bearer ${userApiKey || this.defaultApiKey}` };
+  }
+
+  // A profile's base URL, else OPENAI_API_BASE_URL
+  private baseUrlFor(opts?: ProviderOptions): string {
+    return opts?.openaiBaseUrl || this.baseURL;
+  }
+
+  /**
+   * Forward the caller-scoped Idempotency-Key so upstream can deduplicate retried creates
+   */
+  private idempotencyHeaders(opts?: ProviderOptions): Record<string, string> {
+    return opts?.idempotencyKey ? { 'Idempotency-Key': opts.idempotencyKey } : {};
+  }
+
+  private normalizeModel(requested?: string): string {
+    const allowed = ['sora-2', 'sora-2-pro'];
+    if (requested && allowed.includes(requested)) return requested;
+    if (requested && !allowed.includes(requested)) {
+      this.logger.warn(`Unsupported model '${requested}', falling back to 'sora-2'`);
+    }
+    return 'sora-2';
+  }
+
+  /**
+   * Create a video job (JSON per Videos API)
+   */
+  async generateVideo(prompt: string, model: string, options: CreateVideoOptions, userApiKey?: string, opts?: ProviderOptions) {
+    const resolvedModel = this.normalizeModel(model);
+    const candidateSeconds = options?.duration;
+    const allowedSeconds = new Set(['4', '8', '12']);
+    let normalizedSeconds: string | undefined;
+    if (candidateSeconds != null) {
+      const asString = String(candidateSeconds);
+      if (allowedSeconds.has(asString)) {
+        normalizedSeconds = asString;
+      } else {
+        this.logger.warn(`Unsupported seconds '${asString}', omitting to use API default (4)`);
+      }
+    }
+
+    const jsonBody: { model: string; prompt: string; seconds?: string; size?: string } = {
+      model: String(resolvedModel),
+      prompt,
+    };
+    if (normalizedSeconds) jsonBody.seconds = normalizedSeconds;
+    if (options?.size) jsonBody.size = options.size;
+
+    const url = `${this.baseUrlFor(opts)}/videos`;
+    const headers = {
+      ...this.authHeaders(userApiKey),
+      ...this.idempotencyHeaders(opts),
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    };
+    this.logger.debug(upstreamRequestLog('POST', url, {
+      headers: redactHeaders(headers),
+      body: { model: jsonBody.model, promptLen: prompt.length, seconds: jsonBody.seconds, size: jsonBody.size },
+    }));
+    const response = await this.upstreamRetry.execute('create', () => firstValueFrom(
+      this.httpService.post(
+        url,
+        jsonBody,
+        {
+          headers,
+          maxBodyLength: Infinity,
+          maxContentLength: Infinity,
+        },
+      ),
+    ), { idempotencyKey: opts?.idempotencyKey });
+    return response.data;
+  }
+
+  /**
+   * Create a video from image reference (multipart with 'input_reference')
+   */
+  async generateVideoFromImage(image: Express.Multer.File, prompt: string, model: string, options: CreateVideoOptions, userApiKey?: string, opts?: ProviderOptions) {
+    const resolvedModel = this.normalizeModel(model);
+    const form = new FormData();
+    form.append('model', String(resolvedModel));
+    form.append('prompt', prompt);
+    if (options?.size) form.append('size', options.size);
+    if (options?.duration != null) form.append('seconds', String(options.duration));
+    form.append('input_reference', image.buffer, {
+      filename: image.originalname || 'reference.png',
+      contentType: image.mimetype,
+    });
+    const url = `${this.baseUrlFor(opts)}/videos`;
+    const headers = {
+      ...this.authHeaders(userApiKey),
+      ...this.idempotencyHeaders(opts),
+      ...form.getHeaders(),
+    };
+    this.logger.debug(upstreamRequestLog('POST', url, { image: true, promptLen: prompt.length }));
+    // Serialize once: a FormData stream can only be consumed by a single attempt
+    const payload = form.getBuffer();
+    const response = await this.upstreamRetry.execute('create', () => firstValueFrom(
+      this.httpService.post(url, payload, {
+        headers,
+        maxBodyLength: Infinity,
+        maxContentLength: Infinity,
+      }),
+    ), { idempotencyKey: opts?.idempotencyKey });
+    return response.data;
+  }
+
+  /**
+   * Get video generation status
+   */
+  async getVideoStatus(videoId: string, userApiKey?: string, opts?: ProviderOptions) {
+    const url = `${this.baseUrlFor(opts)}/videos/${videoId}`;
+    const headers = this.authHeaders(userApiKey);
+    this.logger.debug(upstreamRequestLog('GET', url, { headers: redactHeaders(headers) }));
+    const response = await this.upstreamRetry.execute('status', () =>
+      firstValueFrom(this.httpService.get(url, { headers })),
+    );
+    return response.data;
+  }
+
+  /**
+   * List all videos
+   */
+  async listVideos(params: ListVideosParams, userApiKey?: string, opts?: ProviderOptions) {
+    const url = `${this.baseUrlFor(opts)}/videos`;
+    const headers = this.authHeaders(userApiKey);
+    this.logger.debug(upstreamRequestLog('GET', url, { params, headers: redactHeaders(headers) }));
+    const response = await this.upstreamRetry.execute('list', () =>
+      firstValueFrom(this.httpService.get(url, { headers, params })),
+    );
+    return response.data;
+  }
+
+  /**
+   * Delete a video
+   */
+  async deleteVideo(videoId: string, userApiKey?: string, opts?: ProviderOptions) {
+    const url = `${this.baseUrlFor(opts)}/videos/${videoId}`;
+    const headers = this.authHeaders(userApiKey);
+    this.logger.debug(upstreamRequestLog('DELETE', url, { headers: redactHeaders(headers) }));
+    const response = await this.upstreamRetry.execute('delete', () =>
+      firstValueFrom(this.httpService.delete(url, { headers })),
+    );
+    return response.data;
+  }
+
+  /**
+   * Remix a completed video with a new prompt
+   */
+  async remixVideo(videoId: string, prompt: string, userApiKey?: string, opts?: ProviderOptions) {
+    const body = { prompt };
+    const url = `${this.baseUrlFor(opts)}/videos/${videoId}/remix`;
+    const headers = {
+      ...this.authHeaders(userApiKey),
+      ...this.idempotencyHeaders(opts),
+      'Content-Type': 'application/json',
+    } as Record<string, string>;
+    this.logger.debug(upstreamRequestLog('POST', url, { headers: redactHeaders(headers), body: { promptLen: prompt.length } }));
+    const response = await this.upstreamRetry.execute(
+      'remix',
+      () => firstValueFrom(this.httpService.post(url, body, { headers })),
+      { idempotencyKey: opts?.idempotencyKey },
+    );
+    return response.data;
+  }
+
+  /**
+   * Download a content variant (video, thumbnail or spritesheet) as a stream
+   */
+  async downloadVideoContent(videoId: string, userApiKey?: string, opts?: ProviderOptions, content?: ContentOptions) {
+    const url = `${this.baseUrlFor(opts)}/videos/${videoId}/content`;
+    const headers = { ...this.authHeaders(userApiKey), ...contentRequestHeaders(content) };
+    const params = contentVariantParams(content);
+    this.logger.debug(upstreamRequestLog('GET', url, { params, headers: redactHeaders(headers) }));
+    const response = await this.upstreamRetry.execute('content', () => firstValueFrom(
+      this.httpService.get(url, { headers, params, responseType: 'stream' }),
+    ));
+    return toContentStream(response);
+  }
+}
@@ -0,0 +1,141 @@
+import { BadRequestException, ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import { credentialEnvName, resolveCredential } from '../../common/credentials';
+import { ProviderOptions } from './video-provider.interface';
+
+/**
+ * A named upstream target defined in PROVIDER_PROFILES_FILE and selected with x-provider-profile
+ */
+export interface ProviderProfile {
+  name: string;
+  // Registered backend the profile runs on, e.g. 'azure'
+  provider: string;
+  // Azure resource endpoint, or the OpenAI API base URL
+  endpoint?: string;
+  apiVersion?: string;
+  // Sent upstream as the model of creates (Azure deployment name)
+  deployment?: string;
+  // Name of the upstream credential (UPSTREAM_CREDENTIAL_<NAME>) the profile's calls use
+  credential?: string;
+  // Models callers may request through the profile; any when unset
+  models?: string[];
+}
+
+/**
+ * Profile as shown to clients: no endpoint or credential
+ */
+export interface ProviderProfileView {
+  name: string;
+  provider: string;
+  deployment?: string;
+  models?: string[];
+}
+
+/**
+ * Server-side named profiles, so clients pick an upstream target with one header instead of
+ * sending x-provider and x-azure-* on every call. A profile fixes the backend, endpoint, API
+ * version and deployment of a call, and its credential is used instead of the caller's
+ * upstream key. Jobs remember the profile they were created with.
+ */
+@Injectable()
+export class ProviderProfiles {
+  private readonly logger = new Logger(ProviderProfiles.name);
+  private readonly profiles: Map<string, ProviderProfile>;
+
+  constructor(private readonly configService: ConfigService) {
+    this.profiles = new Map(loadProfiles(this.configService).map((profile) => [profile.name, profile]));
+    if (this.profiles.size) {
+      this.logger.log(`Provider profiles: ${this.names().join(', ')}`);
+    }
+  }
+
+  names(): string[] {
+    return Array.from(this.profiles.keys());
+  }
+
+  list(): ProviderProfileView[] {
+    return Array.from(this.profiles.values()).map(({ name, provider, deployment, models }) => ({ name, provider, deployment, models }));
+  }
+
+  get(name: string): ProviderProfile {
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      throw new BadRequestException(`Unknown provider profile '${name}'. Available: ${this.names().join(', ') || 'none'}`);
+    }
+    return profile;
+  }
+
+  /**
+   * Options with the request's profile (if any) filled in; the profile overrides x-provider and x-azure-*
+   */
+  apply(opts?: ProviderOptions): ProviderOptions | undefined {
+    if (!opts?.profile) return opts;
+    const profile = this.get(opts.profile);
+    const azure = profile.provider === 'azure';
+    return {
+      ...opts,
+      provider: profile.provider,
+      azureEndpoint: azure ? profile.endpoint : undefined,
+      azureApiVersion: azure ? profile.apiVersion : undefined,
+      azureDeployment: azure ? profile.deployment : undefined,
+      openaiBaseUrl: profile.provider === 'openai' ? profile.endpoint : undefined,
+    };
+  }
+
+  /**
+   * Upstream key of the call's profile, when the profile names a credential
+   */
+  upstreamKey(opts?: ProviderOptions): string | undefined {
+    const credential = opts?.profile ? this.get(opts.profile).credential : undefined;
+    return credential ? resolveCredential(this.configService, credential) : undefined;
+  }
+
+  /**
+   * Model to send upstream for a create: the profile's deployment, else the requested model.
+   * Rejects models the profile does not allow.
+   */
+  upstreamModel(opts: ProviderOptions | undefined, model: string): string {
+    if (!opts?.profile) return model;
+    const profile = this.get(opts.profile);
+    if (profile.models?.length && !profile.models.includes(model)) {
+      throw new ForbiddenException(`Provider profile '${profile.name}' does not allow model '${model}'. Allowed: ${profile.models.join(', ')}`);
+    }
+    return profile.deployment || model;
+  }
+
+  /**
+   * Settings the profiles need but cannot find (credentials they name)
+   */
+  missingConfig(): string[] {
+    return Array.from(this.profiles.values())
+      .filter((profile) => profile.credential && !resolveCredential(this.configService, profile.credential))
+      .map((profile) => credentialEnvName(profile.credential));
+  }
+}
+
+/**
+ * Profiles from the JSON array in PROVIDER_PROFILES_FILE; empty when unset
+ */
+function loadProfiles(configService: ConfigService): ProviderProfile[] {
+  const file = configService.get<string>('PROVIDER_PROFILES_FILE');
+  if (!file) return [];
+  let profiles: ProviderProfile[];
+  try {
+    profiles = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`PROVIDER_PROFILES_FILE '${file}' could not be read: ${error?.message || error}`);
+  }
+  const valid = Array.isArray(profiles)
+    && profiles.every((profile) => typeof profile?.name === 'string' && /^[\w.-]{1,64}$/.test(profile.name)
+      && typeof profile.provider === 'string'
+      && (profile.models == null || (Array.isArray(profile.models) && profile.models.every((model) => typeof model === 'string'))));
+  if (!valid || new Set(profiles.map((profile) => profile.name)).size !== profiles.length) {
+    throw new Error(`PROVIDER_PROFILES_FILE '${file}' must be an array of profiles with a unique name (letters, digits, '_', '.', '-'), a provider and optional models`);
+  }
+  return profiles.map((profile) => ({
+    ...profile,
+    provider: profile.provider.toLowerCase(),
+    endpoint: profile.endpoint?.replace(/\/$/, ''),
+  }));
+}
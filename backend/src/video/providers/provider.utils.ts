@@ -0,0 +1,51 @@
+import { AxiosResponse } from 'axios';
+import { isSingleByteRange } from '../../common/http-range';
+import { ContentOptions, VideoContentStream } from './video-provider.interface';
+
+export function redactHeaders(headers: Record<string, unknown>): Record<string, unknown> {
+  const redacted: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(headers || {})) {
+    const key = k.toLowerCase();
+    if (key === 'authorization' || key === 'api-key' || key === 'x-api-key') {
+      redacted[k] = '[REDACTED]';
+    } else {
+      redacted[k] = v;
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Structured debug entry for an outgoing upstream call; the response is logged by the
+ * upstream client instrumentation with the same upstreamMethod/upstreamUrl fields
+ */
+export function upstreamRequestLog(method: string, url: string, fields?: Record<string, unknown>) {
+  return { message: 'upstream request', upstreamMethod: method, upstreamUrl: url, ...fields };
+}
+
+/**
+ * Extra request headers for a content download; only single ranges are forwarded
+ */
+export function contentRequestHeaders(content?: ContentOptions): Record<string, string> {
+  return content?.range && isSingleByteRange(content.range) ? { Range: content.range } : {};
+}
+
+/**
+ * Query params selecting a non-default content variant (`/videos/:id/content?variant=`)
+ */
+export function contentVariantParams(content?: ContentOptions): Record<string, string> {
+  return content?.variant && content.variant !== 'video' ? { variant: content.variant } : {};
+}
+
+/**
+ * Wrap a streamed axios response as a VideoContentStream
+ */
+export function toContentStream(response: AxiosResponse): VideoContentStream {
+  const length = Number(response.headers?.['content-length']);
+  return {
+    stream: response.data,
+    contentType: response.headers?.['content-type'] ? String(response.headers['content-type']) : undefined,
+    contentLength: Number.isFinite(length) ? length : undefined,
+    contentRange: response.status === 206 ? String(response.headers?.['content-range']) : undefined,
+  };
+}
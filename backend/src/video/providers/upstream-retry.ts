@@ -0,0 +1,123 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MetricsService } from '../../metrics/metrics.service';
+import { UpstreamError } from './video-provider.interface';
+
+export type UpstreamOperation = 'create' | 'remix' | 'status' | 'list' | 'delete' | 'content';
+
+export interface RetryPolicy {
+  // Total attempts including the first one; 1 disables retries
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Retry-After values above this are not waited for; the error is surfaced instead
+  maxRetryAfterMs: number;
+}
+
+export interface RetryOptions {
+  // Present when the caller sent an Idempotency-Key; required to retry create/remix
+  idempotencyKey?: string;
+}
+
+// Operations that start a new (billed) job upstream
+const NON_IDEMPOTENT: UpstreamOperation[] = ['create', 'remix'];
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'EPIPE', 'ENETUNREACH']);
+
+/**
+ * Shared retry policy for upstream calls: jittered exponential backoff that honors
+ * Retry-After / retry-after-ms, configurable per operation via
+ * UPSTREAM_RETRY_<OPERATION>_MAX_ATTEMPTS (falling back to UPSTREAM_RETRY_MAX_ATTEMPTS).
+ * Job-creating operations are only retried when an idempotency key is present.
+ */
+@Injectable()
+export class UpstreamRetry {
+  private readonly logger = new Logger(UpstreamRetry.name);
+  private readonly policies = new Map<UpstreamOperation, RetryPolicy>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly metricsService: MetricsService,
+  ) {
+    const base: RetryPolicy = {
+      maxAttempts: this.numberSetting('UPSTREAM_RETRY_MAX_ATTEMPTS', 3),
+      baseDelayMs: this.numberSetting('UPSTREAM_RETRY_BASE_DELAY_MS', 500),
+      maxDelayMs: this.numberSetting('UPSTREAM_RETRY_MAX_DELAY_MS', 8000),
+      maxRetryAfterMs: this.numberSetting('UPSTREAM_RETRY_MAX_RETRY_AFTER_MS', 30000),
+    };
+    const operations: UpstreamOperation[] = ['create', 'remix', 'status', 'list', 'delete', 'content'];
+    for (const operation of operations) {
+      const prefix = `UPSTREAM_RETRY_${operation.toUpperCase()}`;
+      this.policies.set(operation, {
+        maxAttempts: this.numberSetting(`${prefix}_MAX_ATTEMPTS`, base.maxAttempts),
+        baseDelayMs: this.numberSetting(`${prefix}_BASE_DELAY_MS`, base.baseDelayMs),
+        maxDelayMs: this.numberSetting(`${prefix}_MAX_DELAY_MS`, base.maxDelayMs),
+        maxRetryAfterMs: base.maxRetryAfterMs,
+      });
+    }
+  }
+
+  private numberSetting(key: string, fallback: number): number {
+    const raw = this.configService.get<string>(key);
+    const value = raw == null || raw === '' ? NaN : Number(raw);
+    return Number.isFinite(value) ? value : fallback;
+  }
+
+  policyFor(operation: UpstreamOperation): RetryPolicy {
+    return this.policies.get(operation);
+  }
+
+  async execute<T>(operation: UpstreamOperation, fn: () => Promise<T>, options?: RetryOptions): Promise<T> {
+    const policy = this.policyFor(operation);
+    const canRetry = !NON_IDEMPOTENT.includes(operation) || !!options?.idempotencyKey;
+    const maxAttempts = canRetry ? Math.max(1, policy.maxAttempts) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await fn();
+        this.metricsService.observeUpstreamAttempt(operation);
+        return result;
+      } catch (error) {
+        this.metricsService.observeUpstreamAttempt(operation, error);
+        if (attempt >= maxAttempts || !isRetryable(error)) throw error;
+
+        const retryAfterMs = parseRetryAfter(error?.response?.headers);
+        if (retryAfterMs != null && retryAfterMs > policy.maxRetryAfterMs) {
+          this.logger.warn(`${operation}: upstream asked to retry after ${retryAfterMs}ms, exceeding limit; giving up`);
+          throw error;
+        }
+        const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+        const delayMs = retryAfterMs ?? Math.round(backoff / 2 + Math.random() * (backoff / 2));
+        this.logger.warn(
+          `${operation}: attempt ${attempt}/${maxAttempts} failed (${error?.response?.status ?? error?.code ?? error?.message}); retrying in ${delayMs}ms`,
+        );
+        await this.sleep(delayMs);
+      }
+    }
+  }
+
+  protected sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Whether an upstream error is worth another attempt: 408, 429, 5xx or a dropped connection
+ */
+export function isRetryable(error: UpstreamError): boolean {
+  const status = error?.response?.status;
+  if (status != null) return RETRYABLE_STATUSES.has(status);
+  return RETRYABLE_CODES.has(error?.code);
+}
+
+function parseRetryAfter(headers?: Record<string, unknown>): number | undefined {
+  if (!headers) return undefined;
+  const ms = Number(headers['retry-after-ms']);
+  if (Number.isFinite(ms) && ms >= 0) return ms;
+  const raw = headers['retry-after'];
+  if (raw == null || raw === '') return undefined;
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(raw));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,136 @@
+import { Readable } from 'stream';
+
+/**
+ * Per-request provider selection, taken from the x-provider / x-azure-* / x-provider-profile
+ * headers (or the claims of a signed content link)
+ */
+export interface ProviderOptions {
+  provider?: string;
+  // Named server-side profile (see ProviderProfiles); overrides the fields below once applied
+  profile?: string;
+  azureEndpoint?: string;
+  azureApiVersion?: string;
+  azureDeployment?: string;
+  // OpenAI API base URL of a profile; never taken from request headers
+  openaiBaseUrl?: string;
+  // Set by background work on a job whose creation was cleared to use its profile; never taken from request headers
+  profileCleared?: boolean;
+  // Idempotency-Key derived from the client's and its caller id (see upstreamIdempotencyKey);
+  // allows job-creating calls to be retried safely
+  idempotencyKey?: string;
+  // Admission queue priority class for creates: 'high' | 'normal' | 'low'
+  priority?: string;
+}
+
+export interface CreateVideoOptions {
+  // Normalized WxH resolution
+  size?: string;
+  duration?: number;
+}
+
+/**
+ * Video object in the shape of the upstream Videos API (fields the proxy reads)
+ */
+export interface UpstreamVideo {
+  id: string;
+  object?: string;
+  status?: string;
+  progress?: number;
+  model?: string;
+  size?: string;
+  seconds?: string | number;
+  error?: unknown;
+  failure_reason?: unknown;
+  failureReason?: unknown;
+}
+
+export interface UpstreamVideoList {
+  object?: string;
+  data: UpstreamVideo[];
+  first_id?: string | null;
+  last_id?: string | null;
+  has_more?: boolean;
+}
+
+/**
+ * What upstream calls fail with: axios errors (with `response` once the upstream answered)
+ * and Node network errors
+ */
+export interface UpstreamError {
+  message?: string;
+  code?: string;
+  response?: {
+    status?: number;
+    headers?: Record<string, unknown>;
+    data?: unknown;
+  };
+}
+
+export interface ListVideosParams {
+  limit?: number;
+  after?: string;
+  order?: 'asc' | 'desc';
+}
+
+/**
+ * Content variants exposed by the Videos API, with the type and file extension each is served as
+ */
+export const CONTENT_VARIANTS = {
+  video: { contentType: 'video/mp4', extension: 'mp4' },
+  thumbnail: { contentType: 'image/webp', extension: 'webp' },
+  spritesheet: { contentType: 'image/jpeg', extension: 'jpg' },
+} as const;
+
+export type ContentVariant = keyof typeof CONTENT_VARIANTS;
+
+export interface ContentOptions {
+  // Single-range `Range` header to forward upstream
+  range?: string;
+  // Defaults to 'video'
+  variant?: ContentVariant;
+}
+
+/**
+ * Content bytes from upstream along with what upstream said about them
+ */
+export interface VideoContentStream {
+  stream: Readable;
+  contentType?: string;
+  // Length of the bytes in `stream`, when upstream sent Content-Length
+  contentLength?: number;
+  // Set when upstream answered the Range request with 206: 'bytes start-end/size'
+  contentRange?: string;
+}
+
+/**
+ * A video generation backend. Implementations are registered in VideoModule under
+ * VIDEO_PROVIDERS and looked up by `name` through VideoProviderRegistry.
+ */
+export interface VideoProvider {
+  readonly name: string;
+
+  generateVideo(prompt: string, model: string, options: CreateVideoOptions, userApiKey?: string, opts?: ProviderOptions): Promise<UpstreamVideo>;
+
+  generateVideoFromImage(image: Express.Multer.File, prompt: string, model: string, options: CreateVideoOptions, userApiKey?: string, opts?: ProviderOptions): Promise<UpstreamVideo>;
+
+  getVideoStatus(videoId: string, userApiKey?: string, opts?: ProviderOptions): Promise<UpstreamVideo>;
+
+  listVideos(params: ListVideosParams, userApiKey?: string, opts?: ProviderOptions): Promise<UpstreamVideoList>;
+
+  deleteVideo(videoId: string, userApiKey?: string, opts?: ProviderOptions): Promise<Record<string, unknown>>;
+
+  remixVideo(videoId: string, prompt: string, userApiKey?: string, opts?: ProviderOptions): Promise<UpstreamVideo>;
+
+  downloadVideoContent(videoId: string, userApiKey?: string, opts?: ProviderOptions, content?: ContentOptions): Promise<VideoContentStream>;
+
+  // Server settings the backend needs to work without per-request credentials; empty when complete
+  missingConfig?(): string[];
+}
+
+export const VIDEO_PROVIDERS = Symbol('VIDEO_PROVIDERS');
+
+// Backend used when a request does not send x-provider
+export const DEFAULT_PROVIDER = 'openai';
+
+// x-provider value that lets the server's routing policy pick the backend (see VideoProviderRegistry)
+export const AUTO_PROVIDER = 'auto';
@@ -0,0 +1,100 @@
+import { BadRequestException, Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AUTO_PROVIDER, DEFAULT_PROVIDER, ProviderOptions, VIDEO_PROVIDERS, VideoProvider } from './video-provider.interface';
+import { MetricsService } from '../../metrics/metrics.service';
+import { ProviderProfiles } from './provider-profiles';
+
+export { AUTO_PROVIDER, DEFAULT_PROVIDER };
+
+/**
+ * Registered video backends, looked up by the request's x-provider, or by the backend of the
+ * named profile in x-provider-profile.
+ *
+ * `x-provider: auto` hands the choice to the server's routing policy: PROVIDER_ROUTING_ORDER
+ * lists backends in order of preference (default `openai,azure`). Calls resolve to the first
+ * one; creates may move down the list when a backend is unavailable (see `candidates`).
+ */
+@Injectable()
+export class VideoProviderRegistry {
+  private readonly logger = new Logger(VideoProviderRegistry.name);
+  private readonly providers = new Map<string, VideoProvider>();
+  private readonly routingOrder: string[];
+
+  constructor(
+    @Inject(VIDEO_PROVIDERS) providers: VideoProvider[],
+    private readonly configService: ConfigService,
+    private readonly metricsService: MetricsService,
+    private readonly profiles: ProviderProfiles,
+  ) {
+    for (const provider of providers) {
+      this.register(provider);
+    }
+    this.metricsService.registerProvider(AUTO_PROVIDER);
+    this.routingOrder = this.loadRoutingOrder();
+    const misplaced = this.profiles.list().filter((profile) => !this.providers.has(profile.provider));
+    if (misplaced.length) {
+      throw new Error(`Provider profiles name unregistered providers: ${misplaced.map((profile) => `${profile.name} (${profile.provider})`).join(', ')}`);
+    }
+  }
+
+  static isAuto(opts?: ProviderOptions): boolean {
+    return opts?.provider?.toLowerCase() === AUTO_PROVIDER;
+  }
+
+  register(provider: VideoProvider) {
+    const name = provider.name.toLowerCase();
+    if (this.providers.has(name)) {
+      this.logger.warn(`Video provider '${name}' registered twice; keeping the latest`);
+    }
+    this.providers.set(name, provider);
+    this.metricsService.registerProvider(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  get(name?: string): VideoProvider {
+    const key = (name || DEFAULT_PROVIDER).toLowerCase();
+    const provider = this.providers.get(key);
+    if (!provider) {
+      throw new BadRequestException(`Unknown provider '${name}'. Available: ${[...this.names(), AUTO_PROVIDER].join(', ')}`);
+    }
+    return provider;
+  }
+
+  resolve(opts?: ProviderOptions): VideoProvider {
+    return this.get(this.primary(opts)?.provider);
+  }
+
+  /**
+   * Provider options a create is attempted with, in order: the request's own backend (or its
+   * profile's), or for `x-provider: auto` every backend of the routing order
+   */
+  candidates(opts?: ProviderOptions): Array<ProviderOptions | undefined> {
+    const applied = this.profiles.apply(opts);
+    if (!VideoProviderRegistry.isAuto(applied)) return [applied];
+    return this.routingOrder.map((provider) => ({ ...applied, provider }));
+  }
+
+  /**
+   * Options with the profile applied and `x-provider: auto` replaced by the first backend of
+   * the routing order
+   */
+  primary(opts?: ProviderOptions): ProviderOptions | undefined {
+    return this.candidates(opts)[0];
+  }
+
+  private loadRoutingOrder(): string[] {
+    const configured = (this.configService.get<string>('PROVIDER_ROUTING_ORDER') || 'openai,azure')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean);
+    const unknown = configured.filter((name) => !this.providers.has(name));
+    if (unknown.length) {
+      this.logger.warn(`PROVIDER_ROUTING_ORDER names unregistered providers, ignoring: ${unknown.join(', ')}`);
+    }
+    const order = [...new Set(configured.filter((name) => this.providers.has(name)))];
+    return order.length ? order : [DEFAULT_PROVIDER];
+  }
+}
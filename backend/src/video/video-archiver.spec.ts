@@ -0,0 +1,44 @@
+import { Logger, NotFoundException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { VideoArchiver } from './video-archiver';
+import { OpenAIService } from './openai.service';
+import { JobStatusPoller } from './job-status.poller';
+import { JobsService } from '../jobs/jobs.service';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { VideoJob } from '../jobs/interfaces/video-job.interface';
+import { VideoStorage } from '../storage/interfaces/video-storage.interface';
+
+describe('VideoArchiver', () => {
+  const archive = { storage: 'local', key: 'videos/video_1.mp4', size: 16, archivedAt: '2026-01-01T00:00:00.000Z' };
+  let jobs: Map<string, Partial<VideoJob>>;
+  let storage: { open: jest.Mock };
+  let archiver: VideoArchiver;
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    jobs = new Map();
+    storage = { open: jest.fn(async () => Readable.from([Buffer.from('video')])) };
+    const jobsService = { get: (id: string) => jobs.get(id) };
+    archiver = new VideoArchiver(
+      storage as unknown as VideoStorage,
+      {} as OpenAIService,
+      jobsService as unknown as JobsService,
+      {} as JobStatusPoller,
+      {} as ApiKeysService,
+    );
+  });
+
+  it('opens the archived copy under its recorded key', async () => {
+    jobs.set('video_1', { id: 'video_1', archive });
+    await archiver.read('video_1', { start: 0, end: 3 });
+    expect(storage.open).toHaveBeenCalledWith('videos/video_1.mp4', { start: 0, end: 3 });
+  });
+
+  it('answers 404 when the job or its archive went away after stat()', async () => {
+    await expect(archiver.read('video_1')).rejects.toBeInstanceOf(NotFoundException);
+    jobs.set('video_1', { id: 'video_1' });
+    await expect(archiver.read('video_1')).rejects.toBeInstanceOf(NotFoundException);
+    expect(storage.open).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import { Inject, Injectable, Logger, NotFoundException, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OpenAIService } from './openai.service';
+import { JobStatusPoller } from './job-status.poller';
+import { JobsService } from '../jobs/jobs.service';
+import { JobEvent, VideoJob } from '../jobs/interfaces/video-job.interface';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { StoredObjectInfo, VIDEO_STORAGE, VideoStorage } from '../storage/interfaces/video-storage.interface';
+import { ByteRange } from '../common/http-range';
+
+/**
+ * Copies finished videos into storage the proxy owns, because upstream content expires.
+ * A job is archived as soon as it completes when its credentials are at hand (server key,
+ * proxy-issued key, or a caller key the poller still holds); otherwise the first download
+ * through the proxy triggers the copy.
+ */
+@Injectable()
+export class VideoArchiver implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(VideoArchiver.name);
+  private readonly inFlight = new Set<string>();
+  private subscription?: Subscription;
+
+  constructor(
+    @Inject(VIDEO_STORAGE) private readonly storage: VideoStorage | null,
+    private readonly openAIService: OpenAIService,
+    private readonly jobsService: JobsService,
+    private readonly jobStatusPoller: JobStatusPoller,
+    private readonly apiKeysService: ApiKeysService,
+  ) {}
+
+  onModuleInit() {
+    if (!this.storage) {
+      this.logger.log('Video archiving disabled (ARCHIVE_STORAGE=none)');
+      return;
+    }
+    this.subscription = this.jobsService.events$.subscribe((event) => this.onJobEvent(event));
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Size and type of the archived copy of a video, if there is one
+   */
+  async stat(videoId: string): Promise<StoredObjectInfo | undefined> {
+    const archive = this.jobsService.get(videoId)?.archive;
+    if (!this.storage || !archive) return undefined;
+    const info = await this.storage.stat(archive.key);
+    if (!info) {
+      this.logger.warn(`Archived copy of ${videoId} is missing from ${archive.storage} storage`);
+      this.jobsService.recordArchive(videoId, undefined);
+    }
+    return info;
+  }
+
+  /**
+   * Stream the archived copy (or a byte range of it); call stat() first. The job or its archive
+   * may go away in between (delete, cleanup of a missing copy), which is a 404 like any other miss.
+   */
+  async read(videoId: string, range?: ByteRange): Promise<Readable> {
+    const archive = this.jobsService.get(videoId)?.archive;
+    if (!this.storage || !archive) {
+      throw new NotFoundException(`Video '${videoId}' has no archived copy`);
+    }
+    return this.storage.open(archive.key, range);
+  }
+
+  /**
+   * Archive a completed job in the background with credentials the caller just used
+   */
+  archiveInBackground(videoId: string, apiKey?: string) {
+    const job = this.jobsService.get(videoId);
+    if (!this.storage || !job || job.archive || job.status !== 'completed') return;
+    this.archive(job, apiKey).catch((error) =>
+      this.logger.warn(`Archiving ${videoId} failed: ${error?.message || error}`),
+    );
+  }
+
+  async remove(videoId: string) {
+    const archive = this.jobsService.get(videoId)?.archive;
+    if (!this.storage || !archive) return;
+    try {
+      await this.storage.delete(archive.key);
+    } catch (error) {
+      this.logger.warn(`Failed to delete archived copy of ${videoId}: ${error?.message || error}`);
+    }
+  }
+
+  private onJobEvent(event: JobEvent) {
+    const { job, previousStatus } = event;
+    if (event.type !== 'updated' || job.status !== 'completed' || previousStatus === 'completed' || job.archive) return;
+    // Resolve credentials synchronously: the poller drops a caller's key right after this event
+    let apiKey: string | undefined;
+    try {
+      const credentials = this.credentialsFor(job);
+      if (!credentials) return;
+      apiKey = credentials.apiKey;
+    } catch (error) {
+      this.logger.warn(`Not archiving ${job.id}: ${error?.message || error}`);
+      return;
+    }
+    this.archiveInBackground(job.id, apiKey);
+  }
+
+  private credentialsFor(job: VideoJob): { apiKey?: string } | undefined {
+    if (job.caller === 'server') return {};
+    if (job.caller.startsWith('pk_')) {
+      return { apiKey: this.apiKeysService.upstreamKeyForKeyId(job.caller, job.provider) };
+    }
+    const held = this.jobStatusPoller.heldKey(job.id);
+    return held ? { apiKey: held } : undefined;
+  }
+
+  private async archive(job: VideoJob, apiKey?: string) {
+    if (this.inFlight.has(job.id)) return;
+    this.inFlight.add(job.id);
+    const key = `videos/${job.id}.mp4`;
+    const tmp = path.join(os.tmpdir(), `sora-archive-${randomBytes(6).toString('hex')}.mp4`);
+    try {
+      const content = await this.openAIService.downloadVideoContent(job.id, apiKey, {
+        provider: job.provider,
+        profile: job.profile,
+        azureEndpoint: job.azureEndpoint,
+        azureApiVersion: job.azureApiVersion,
+        azureDeployment: job.azureDeployment,
+        profileCleared: !!job.profile,
+      });
+      await pipeline(content.stream, fs.createWriteStream(tmp));
+      const { size } = await this.storage.put(key, tmp, 'video/mp4');
+      this.jobsService.recordArchive(job.id, {
+        storage: this.storage.name,
+        key,
+        size,
+        archivedAt: new Date().toISOString(),
+      });
+      this.logger.log(`Archived ${job.id} to ${this.storage.name} storage (${size} bytes)`);
+    } finally {
+      this.inFlight.delete(job.id);
+      await fs.promises.rm(tmp, { force: true });
+    }
+  }
+}
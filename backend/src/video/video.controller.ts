@@ -6,38 +6,82 @@ import {
   Body,
   Param,
   Query,
-  Headers,
   HttpException,
   HttpStatus,
+  Logger,
+  Headers,
   Res,
+  Req,
   UseInterceptors,
   UploadedFile,
+  Sse,
+  MessageEvent,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiCreatedResponse,
+  ApiHeader,
+  ApiOkResponse,
+  ApiOperation,
+  ApiProduces,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Observable } from 'rxjs';
 import { VideoService } from './video.service';
 import { 
   GenerateVideoDto, 
-  RemixVideoDto 
+  RemixVideoDto,
+  CreateContentLinkDto,
+  EstimateVideoDto,
+  GenerateVideoFromImageDto,
 } from './dto/video.dto';
+import { ContentLinkDto, DeletedVideoDto, VideoEstimateDto, VideoListDto, VideoObjectDto } from './dto/video-response.dto';
+import { ApiCreateHeaders, ApiErrorResponses, ApiProviderHeaders } from './decorators/api-docs.decorator';
 import { ApiKey } from './decorators/api-key.decorator';
-import { Response } from 'express';
+import { ProviderOpts } from './decorators/provider-options.decorator';
+import { CONTENT_VARIANTS, ProviderOptions, UpstreamError } from './providers/video-provider.interface';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
+import { BudgetWarningInterceptor } from '../budgets/budget-warning.interceptor';
+import { SkipProxyKey } from '../api-keys/decorators/skip-proxy-key.decorator';
+import { MetricsService } from '../metrics/metrics.service';
+import { Request, Response } from 'express';
 
+// Error body of an upstream response or HttpException, in either the OpenAI or the flat shape
+interface UpstreamErrorBody {
+  error?: { message?: string; code?: string; type?: string };
+  message?: string;
+  code?: string;
+  type?: string;
+}
+
+@ApiTags('videos')
 @Controller('api/videos')
 export class VideoController {
-  constructor(private readonly videoService: VideoService) {}
+  private readonly logger = new Logger(VideoController.name);
+
+  constructor(
+    private readonly videoService: VideoService,
+    private readonly metricsService: MetricsService,
+  ) {}
 
-  private toHttpException(error: any): HttpException {
+  private toHttpException(error: UpstreamError & { getStatus?: () => number; getResponse?: () => unknown }): HttpException {
     const status = error?.response?.status
       ?? (typeof error?.getStatus === 'function' ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR);
     const dataRaw = error?.response?.data
       ?? (typeof error?.getResponse === 'function' ? error.getResponse() : null);
+    const data: UpstreamErrorBody = dataRaw && typeof dataRaw === 'object' ? dataRaw : {};
 
-    const message = dataRaw?.error?.message
-      ?? dataRaw?.message
+    const message = data.error?.message
+      ?? data.message
       ?? (typeof dataRaw === 'string' ? dataRaw : error?.message)
       ?? 'Unknown error';
 
     // Safely clone details to avoid circular structure errors in JSON serialization
-    const safeClone = (val: any) => {
+    const safeClone = (val: unknown) => {
       try {
         if (val === undefined) return undefined;
         if (typeof val === 'string') return val;
@@ -49,8 +93,8 @@ export class VideoController {
 
     const body = {
       message,
-      code: dataRaw?.error?.code ?? dataRaw?.code,
-      type: dataRaw?.error?.type ?? dataRaw?.type,
+      code: data.error?.code ?? data.code,
+      type: data.error?.type ?? data.type,
       upstream: 'openai',
       details: safeClone(dataRaw),
     };
@@ -63,16 +107,24 @@ export class VideoController {
    * POST /api/videos/generate
    */
   @Post('generate')
+  @ApiOperation({ summary: 'Create a video from a text prompt' })
+  @ApiProviderHeaders()
+  @ApiCreateHeaders()
+  @ApiCreatedResponse({
+    type: VideoObjectDto,
+    description: "The new job; status 'pending_submit' with a pending id when held by the admission queue",
+    headers: { 'X-Budget-Warning': { description: 'Set once a budget covering the caller passed its soft limit', schema: { type: 'string' } } },
+  })
+  @ApiErrorResponses(400, 401, 402, 403, 409, 429, 502)
+  @UseInterceptors(IdempotencyInterceptor, BudgetWarningInterceptor)
   async generateVideo(
     @Body() dto: GenerateVideoDto,
-    @Headers('x-provider') provider?: 'openai' | 'azure',
-    @Headers('x-azure-endpoint') azureEndpoint?: string,
-    @Headers('x-azure-version') azureApiVersion?: string,
-    @Headers('x-azure-deployment') azureDeployment?: string,
+    @ProviderOpts() providerOpts?: ProviderOptions,
     @ApiKey() apiKey?: string,
+    @Headers('authorization') authorization?: string,
   ) {
     try {
-      return await this.videoService.generateVideo(dto, apiKey, { provider, azureEndpoint, azureApiVersion, azureDeployment });
+      return await this.videoService.generateVideo(dto, apiKey, providerOpts, authorization);
     } catch (error) {
       throw this.toHttpException(error);
     }
@@ -83,18 +135,23 @@ export class VideoController {
    * POST /api/videos/generate/image
    */
   @Post('generate/image')
-  @UseInterceptors(require('@nestjs/platform-express').FileInterceptor('image'))
+  @ApiOperation({ summary: 'Create a video from a text prompt and a reference image' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ type: GenerateVideoFromImageDto })
+  @ApiProviderHeaders()
+  @ApiCreateHeaders()
+  @ApiCreatedResponse({ type: VideoObjectDto })
+  @ApiErrorResponses(400, 401, 402, 403, 409, 429, 502)
+  @UseInterceptors(FileInterceptor('image'), IdempotencyInterceptor, BudgetWarningInterceptor)
   async generateVideoFromImage(
     @UploadedFile() image: Express.Multer.File,
     @Body() dto: GenerateVideoDto,
-    @Headers('x-provider') provider?: 'openai' | 'azure',
-    @Headers('x-azure-endpoint') azureEndpoint?: string,
-    @Headers('x-azure-version') azureApiVersion?: string,
-    @Headers('x-azure-deployment') azureDeployment?: string,
+    @ProviderOpts() providerOpts?: ProviderOptions,
     @ApiKey() apiKey?: string,
+    @Headers('authorization') authorization?: string,
   ) {
     try {
-      return await this.videoService.generateVideoFromImage(image, dto, apiKey, { provider, azureEndpoint, azureApiVersion, azureDeployment });
+      return await this.videoService.generateVideoFromImage(image, dto, apiKey, providerOpts, authorization);
     } catch (error) {
       throw this.toHttpException(error);
     }
@@ -105,16 +162,44 @@ export class VideoController {
    * GET /api/videos/:id
    */
   @Get(':id')
+  @ApiOperation({ summary: 'Get the status of a video (or of a pending id)' })
+  @ApiProviderHeaders()
+  @ApiOkResponse({ type: VideoObjectDto })
+  @ApiErrorResponses(401, 403, 404, 502)
   async getVideoStatus(
     @Param('id') id: string,
-    @Headers('x-provider') provider?: 'openai' | 'azure',
-    @Headers('x-azure-endpoint') azureEndpoint?: string,
-    @Headers('x-azure-version') azureApiVersion?: string,
-    @Headers('x-azure-deployment') azureDeployment?: string,
+    @ProviderOpts() providerOpts?: ProviderOptions,
     @ApiKey() apiKey?: string,
   ) {
     try {
-      return await this.videoService.getVideoStatus(id, apiKey, { provider, azureEndpoint, azureApiVersion, azureDeployment });
+      return await this.videoService.getVideoStatus(id, apiKey, providerOpts);
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
+
+  /**
+   * Stream status and progress updates for a video (Server-Sent Events)
+   * GET /api/videos/:id/events
+   */
+  @Sse(':id/events')
+  @ApiOperation({ summary: 'Stream status and progress updates (Server-Sent Events)' })
+  @ApiProviderHeaders()
+  @ApiHeader({ name: 'Authorization', required: false, description: 'Bearer <ADMIN_TOKEN> to watch a job created by another caller' })
+  @ApiProduces('text/event-stream')
+  @ApiOkResponse({
+    description: "`job` events carry the job record (id, status, progress, error, ...); the stream ends after a terminal status. "
+      + "`ping` events are sent every 15 s. Pending ids emit `job` events until submitted, then one with `video_id`.",
+    schema: { type: 'string' },
+  })
+  @ApiErrorResponses(401, 403, 404)
+  streamVideoEvents(
+    @Param('id') id: string,
+    @ApiKey() apiKey?: string,
+    @Headers('authorization') authorization?: string,
+  ): Observable<MessageEvent> {
+    try {
+      return this.videoService.watchVideo(id, apiKey, authorization);
     } catch (error) {
       throw this.toHttpException(error);
     }
@@ -125,18 +210,22 @@ export class VideoController {
    * GET /api/videos
    */
   @Get()
+  @ApiOperation({ summary: 'List videos (only those created by the caller when using a proxy key)' })
+  @ApiProviderHeaders()
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'after', required: false, description: 'Cursor: id of the last video of the previous page' })
+  @ApiQuery({ name: 'order', required: false, enum: ['asc', 'desc'] })
+  @ApiOkResponse({ type: VideoListDto })
+  @ApiErrorResponses(401, 502)
   async listVideos(
     @Query('limit') limit?: number,
     @Query('after') after?: string,
     @Query('order') order?: 'asc' | 'desc',
-    @Headers('x-provider') provider?: 'openai' | 'azure',
-    @Headers('x-azure-endpoint') azureEndpoint?: string,
-    @Headers('x-azure-version') azureApiVersion?: string,
-    @Headers('x-azure-deployment') azureDeployment?: string,
+    @ProviderOpts() providerOpts?: ProviderOptions,
     @ApiKey() apiKey?: string,
   ) {
     try {
-      return await this.videoService.listVideos(limit as any, after, apiKey, order, { provider, azureEndpoint, azureApiVersion, azureDeployment });
+      return await this.videoService.listVideos(limit, after, apiKey, order, providerOpts);
     } catch (error) {
       throw this.toHttpException(error);
     }
@@ -147,16 +236,17 @@ export class VideoController {
    * DELETE /api/videos/:id
    */
   @Delete(':id')
+  @ApiOperation({ summary: 'Delete a video, or cancel a request waiting in the admission queue' })
+  @ApiProviderHeaders()
+  @ApiOkResponse({ type: DeletedVideoDto })
+  @ApiErrorResponses(401, 403, 404, 502)
   async deleteVideo(
     @Param('id') id: string,
-    @Headers('x-provider') provider?: 'openai' | 'azure',
-    @Headers('x-azure-endpoint') azureEndpoint?: string,
-    @Headers('x-azure-version') azureApiVersion?: string,
-    @Headers('x-azure-deployment') azureDeployment?: string,
+    @ProviderOpts() providerOpts?: ProviderOptions,
     @ApiKey() apiKey?: string,
   ) {
     try {
-      return await this.videoService.deleteVideo(id, apiKey, { provider, azureEndpoint, azureApiVersion, azureDeployment });
+      return await this.videoService.deleteVideo(id, apiKey, providerOpts);
     } catch (error) {
       throw this.toHttpException(error);
     }
@@ -167,65 +257,146 @@ export class VideoController {
    * POST /api/videos/remix
    */
   @Post('remix')
+  @ApiOperation({ summary: 'Remix a completed video with a new prompt' })
+  @ApiProviderHeaders()
+  @ApiCreateHeaders()
+  @ApiCreatedResponse({ type: VideoObjectDto })
+  @ApiErrorResponses(400, 401, 402, 403, 404, 409, 429, 502)
+  @UseInterceptors(IdempotencyInterceptor, BudgetWarningInterceptor)
   async remixVideo(
     @Body() dto: RemixVideoDto,
-    @Headers('x-provider') provider?: 'openai' | 'azure',
-    @Headers('x-azure-endpoint') azureEndpoint?: string,
-    @Headers('x-azure-version') azureApiVersion?: string,
-    @Headers('x-azure-deployment') azureDeployment?: string,
+    @ProviderOpts() providerOpts?: ProviderOptions,
     @ApiKey() apiKey?: string,
+    @Headers('authorization') authorization?: string,
   ) {
     try {
-      return await this.videoService.remixVideo(dto, apiKey, { provider, azureEndpoint, azureApiVersion, azureDeployment });
+      return await this.videoService.remixVideo(dto, apiKey, providerOpts, authorization);
     } catch (error) {
       throw this.toHttpException(error);
     }
   }
 
   /**
-   * Download video content
-   * GET /api/videos/:id/content
+   * Expected cost of a create or remix; nothing is sent upstream
+   * POST /api/videos/estimate
+   */
+  @Post('estimate')
+  @ApiOperation({ summary: 'Estimate the cost of a create or remix without calling upstream' })
+  @ApiProviderHeaders()
+  @ApiCreatedResponse({ type: VideoEstimateDto })
+  @ApiErrorResponses(400, 401, 404)
+  estimateVideo(
+    @Body() dto: EstimateVideoDto,
+    @ProviderOpts() providerOpts?: ProviderOptions,
+    @ApiKey() apiKey?: string,
+  ) {
+    return this.videoService.estimateVideo(dto, apiKey, providerOpts);
+  }
+
+  /**
+   * Issue a short-lived signed URL for the video content
+   * POST /api/videos/:id/content-link
+   */
+  @Post(':id/content-link')
+  @ApiOperation({ summary: 'Issue a short-lived signed URL for the video content' })
+  @ApiProviderHeaders()
+  @ApiCreatedResponse({ type: ContentLinkDto })
+  @ApiErrorResponses(400, 401, 403)
+  createContentLink(
+    @Param('id') id: string,
+    @Body() dto: CreateContentLinkDto,
+    @ProviderOpts() providerOpts?: ProviderOptions,
+    @ApiKey() apiKey?: string,
+  ) {
+    return this.videoService.createContentLink(id, apiKey, providerOpts, dto);
+  }
+
+  /**
+   * Download video content using a signed link (<video src> / <a href> cannot send headers).
+   * Supports ?variant=video|thumbnail|spritesheet, single byte ranges (206), If-None-Match (304)
+   * and ?disposition=inline|attachment.
+   * GET /api/videos/:id/content?token=
    */
   @Get(':id/content')
+  @SkipProxyKey()
+  @ApiOperation({ summary: 'Download video content with a signed link; no API key needed' })
+  @ApiQuery({ name: 'token', required: true, description: 'Token from POST /api/videos/{id}/content-link' })
+  @ApiQuery({ name: 'variant', required: false, enum: Object.keys(CONTENT_VARIANTS) })
+  @ApiQuery({ name: 'disposition', required: false, enum: ['inline', 'attachment'] })
+  @ApiHeader({ name: 'Range', required: false, description: 'A single byte range, e.g. bytes=0-1023' })
+  @ApiHeader({ name: 'If-None-Match', required: false })
+  @ApiProduces(...Object.values(CONTENT_VARIANTS).map((variant) => variant.contentType))
+  @ApiOkResponse({ description: 'The full content, streamed', schema: { type: 'string', format: 'binary' } })
+  @ApiResponse({ status: 206, description: 'The requested byte range', schema: { type: 'string', format: 'binary' } })
+  @ApiResponse({ status: 304, description: 'Matches If-None-Match' })
+  @ApiResponse({ status: 416, description: 'Range not satisfiable' })
+  @ApiErrorResponses(403, 404, 502)
   async downloadContent(
     @Param('id') id: string,
+    @Req() req: Request,
     @Res() res: Response,
-    @Query('apiKey') apiKeyQuery?: string,
-    @Query('provider') providerQuery?: 'openai' | 'azure',
-    @Query('azureEndpoint') azureEndpointQuery?: string,
-    @Query('azureVersion') azureApiVersionQuery?: string,
-    @Query('azureDeployment') azureDeploymentQuery?: string,
-    @Headers('x-provider') provider?: 'openai' | 'azure',
-    @Headers('x-azure-endpoint') azureEndpoint?: string,
-    @Headers('x-azure-version') azureApiVersion?: string,
-    @Headers('x-azure-deployment') azureDeployment?: string,
-    @ApiKey() apiKey?: string,
+    @Query('token') token?: string,
+    @Query('variant') variant?: string,
+    @Query('disposition') disposition?: string,
   ) {
     try {
-      // Prefer query parameters (since <a href> cannot send custom headers)
-      const effectiveApiKey = (apiKeyQuery || apiKey) as (string | undefined);
-      const effectiveProvider = (providerQuery || provider) as ('openai' | 'azure' | undefined);
-      const opts = {
-        provider: effectiveProvider,
-        azureEndpoint: azureEndpointQuery || azureEndpoint,
-        azureApiVersion: azureApiVersionQuery || azureApiVersion,
-        azureDeployment: azureDeploymentQuery || azureDeployment,
-      } as {
-        provider?: 'openai' | 'azure';
-        azureEndpoint?: string;
-        azureApiVersion?: string;
-        azureDeployment?: string;
-      };
-
-      const stream = await this.videoService.downloadVideoContent(id, effectiveApiKey, opts);
-      // Pass through streaming response
-      res.setHeader('Content-Type', 'video/mp4');
-      res.setHeader('Content-Disposition', `attachment; filename="video-${id}.mp4"`);
-      res.setHeader('Cache-Control', 'no-store');
-      stream.pipe(res);
+      const content = await this.videoService.downloadLinkedContent(id, token, {
+        range: req.headers.range,
+        ifNoneMatch: req.headers['if-none-match'],
+        variant,
+      });
+      res.setHeader('ETag', content.etag);
+      res.setHeader('Accept-Ranges', 'bytes');
+      // Content of a completed video never changes; links are per-user, so only private caches
+      res.setHeader('Cache-Control', 'private, max-age=86400, immutable');
+      if (content.lastModified) res.setHeader('Last-Modified', content.lastModified.toUTCString());
+      if (content.status === 304) {
+        res.status(304).end();
+        return;
+      }
+      if (content.status === 416) {
+        res.status(416);
+        if (content.size != null) res.setHeader('Content-Range', `bytes */${content.size}`);
+        res.end();
+        return;
+      }
+
+      res.setHeader('Content-Type', content.contentType);
+      const suffix = content.variant === 'video' ? '' : `-${content.variant}`;
+      const fileName = `video-${id}${suffix}.${CONTENT_VARIANTS[content.variant].extension}`;
+      res.setHeader('Content-Disposition', `${disposition === 'inline' ? 'inline' : 'attachment'}; filename="${fileName}"`);
+      if (content.status === 206) {
+        const { start, end } = content.range;
+        res.status(206);
+        res.setHeader('Content-Range', `bytes ${start}-${end}/${content.size ?? '*'}`);
+        res.setHeader('Content-Length', String(end - start + 1));
+      } else if (content.size != null) {
+        res.setHeader('Content-Length', String(content.size));
+      }
+      // Stop reading upstream/storage when the player aborts (e.g. on seek)
+      res.on('close', () => content.stream.destroy());
+      const labels = { variant: content.variant, status: String(content.status) };
+      content.stream.on('data', (chunk: Buffer) => this.metricsService.contentBytes.inc(labels, chunk.length));
+      content.stream.on('error', (error) => this.failContentResponse(id, res, error));
+      content.stream.pipe(res);
     } catch (error) {
       throw this.toHttpException(error);
     }
   }
-}
 
+  /**
+   * A content source (archive file, S3 body, upstream response) failed mid-download: answer 502
+   * while nothing has been sent yet, otherwise cut the connection so the client sees a truncated body
+   */
+  private failContentResponse(id: string, res: Response, error: Error) {
+    this.logger.warn(`Streaming content of video ${id} failed: ${error?.message || error}`);
+    if (res.headersSent) {
+      res.destroy(error);
+      return;
+    }
+    for (const header of ['Content-Type', 'Content-Length', 'Content-Range', 'Content-Disposition', 'ETag', 'Cache-Control', 'Last-Modified']) {
+      res.removeHeader(header);
+    }
+    res.status(HttpStatus.BAD_GATEWAY).json({ statusCode: HttpStatus.BAD_GATEWAY, message: 'Video content could not be read' });
+  }
+}
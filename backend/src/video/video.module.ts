@@ -1,14 +1,64 @@
-import { Module } from '@nestjs/common';
-import { HttpModule } from '@nestjs/axios';
+import { Module, OnModuleInit } from '@nestjs/common';
+import { HttpModule, HttpService } from '@nestjs/axios';
 import { VideoController } from './video.controller';
+import { ProfilesController } from './profiles.controller';
 import { VideoService } from './video.service';
 import { OpenAIService } from './openai.service';
 import { AzureVideoProvider } from './providers/azure.video.provider';
+import { OpenAIVideoProvider } from './providers/openai.video.provider';
+import { MockVideoProvider } from './providers/mock.video.provider';
+import { VideoProviderRegistry } from './providers/video-provider.registry';
+import { UpstreamRetry } from './providers/upstream-retry';
+import { AzureEndpointPool } from './providers/azure-endpoint-pool';
+import { ProviderProfiles } from './providers/provider-profiles';
+import { AzureEndpointGuard } from './providers/azure-endpoint-guard';
+import { VIDEO_PROVIDERS, VideoProvider } from './providers/video-provider.interface';
+import { JobStatusPoller } from './job-status.poller';
+import { ContentLinkService } from './content-link.service';
+import { VideoArchiver } from './video-archiver';
+import { AdmissionQueue } from './admission-queue';
+import { JobsModule } from '../jobs/jobs.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { StorageModule } from '../storage/storage.module';
+import { UsageModule } from '../usage/usage.module';
+import { BudgetsModule } from '../budgets/budgets.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { instrumentUpstreamClient } from '../logging/upstream-logging';
 
 @Module({
-  imports: [HttpModule],
-  controllers: [VideoController],
-  providers: [VideoService, OpenAIService, AzureVideoProvider],
+  imports: [HttpModule, JobsModule, WebhooksModule, IdempotencyModule, ApiKeysModule, StorageModule, UsageModule, BudgetsModule, MetricsModule],
+  controllers: [VideoController, ProfilesController],
+  providers: [
+    VideoService,
+    OpenAIService,
+    JobStatusPoller,
+    ContentLinkService,
+    VideoArchiver,
+    AdmissionQueue,
+    VideoProviderRegistry,
+    UpstreamRetry,
+    AzureEndpointPool,
+    ProviderProfiles,
+    AzureEndpointGuard,
+    // Video backends: add a class implementing VideoProvider here to make it selectable via x-provider
+    OpenAIVideoProvider,
+    AzureVideoProvider,
+    MockVideoProvider,
+    {
+      provide: VIDEO_PROVIDERS,
+      useFactory: (...providers: VideoProvider[]) => providers,
+      inject: [OpenAIVideoProvider, AzureVideoProvider, MockVideoProvider],
+    },
+  ],
+  exports: [VideoService, VideoProviderRegistry, AdmissionQueue, AzureEndpointPool, ProviderProfiles],
 })
-export class VideoModule {}
+export class VideoModule implements OnModuleInit {
+  constructor(private readonly httpService: HttpService) {}
 
+  onModuleInit() {
+    // Shared by the OpenAI and Azure providers
+    instrumentUpstreamClient(this.httpService.axiosRef);
+  }
+}
@@ -1,55 +1,460 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, HttpException, Injectable, Logger, MessageEvent, NotFoundException } from '@nestjs/common';
+import { Observable, map } from 'rxjs';
+import { Readable } from 'stream';
 import { OpenAIService } from './openai.service';
+import { JobsService } from '../jobs/jobs.service';
+import { JobStatusPoller } from './job-status.poller';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { ContentLinkOptions, ContentLinkService } from './content-link.service';
+import { VideoArchiver } from './video-archiver';
+import { AdmissionQueue } from './admission-queue';
+import { UsageService } from '../usage/usage.service';
+import { BudgetsService } from '../budgets/budgets.service';
+import { UsageEstimateRequest } from '../usage/interfaces/usage.interface';
+import { VideoProviderRegistry } from './providers/video-provider.registry';
+import { MetricsService } from '../metrics/metrics.service';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { callerIdFromApiKey, proxyKeyIdFromToken } from '../common/caller-id';
+import { withHeartbeat } from '../common/sse';
+import { CONTENT_VARIANTS, ContentOptions, ContentVariant, ProviderOptions, UpstreamError, UpstreamVideo, VideoContentStream } from './providers/video-provider.interface';
+import { ByteRange, etagMatches, parseContentRange, resolveByteRange, sliceStream } from '../common/http-range';
 import { 
   GenerateVideoDto, 
-  RemixVideoDto 
+  RemixVideoDto,
+  EstimateVideoDto,
 } from './dto/video.dto';
 
+export interface ContentRequest {
+  range?: string;
+  ifNoneMatch?: string;
+  // 'video' (default), 'thumbnail' or 'spritesheet'
+  variant?: string;
+}
+
+export interface VideoContent {
+  // 200 full body, 206 partial content, 304 not modified, 416 range not satisfiable
+  status: 200 | 206 | 304 | 416;
+  variant: ContentVariant;
+  etag: string;
+  stream?: Readable;
+  contentType?: string;
+  // Total size of the video, when known
+  size?: number;
+  // Bytes carried by a 206
+  range?: ByteRange;
+  lastModified?: Date;
+}
+
 @Injectable()
 export class VideoService {
   private readonly logger = new Logger(VideoService.name);
 
-  constructor(private readonly openAIService: OpenAIService) {}
+  constructor(
+    private readonly openAIService: OpenAIService,
+    private readonly jobsService: JobsService,
+    private readonly jobStatusPoller: JobStatusPoller,
+    private readonly webhooksService: WebhooksService,
+    private readonly contentLinkService: ContentLinkService,
+    private readonly videoArchiver: VideoArchiver,
+    private readonly admissionQueue: AdmissionQueue,
+    private readonly usageService: UsageService,
+    private readonly budgetsService: BudgetsService,
+    private readonly providerRegistry: VideoProviderRegistry,
+    private readonly metricsService: MetricsService,
+    private readonly apiKeysService: ApiKeysService,
+  ) {}
+
+  /**
+   * Proxy-issued keys can share one upstream credential, so their holders may only
+   * reach videos created with their own key
+   */
+  private assertOwnedByCaller(videoId: string, userApiKey?: string) {
+    if (!proxyKeyIdFromToken(userApiKey)) return;
+    if (this.jobsService.get(videoId)?.caller !== callerIdFromApiKey(userApiKey)) {
+      throw new NotFoundException(`Video '${videoId}' not found`);
+    }
+  }
+
+  /**
+   * Provider options for a call about an existing video. A job recorded by the proxy goes to
+   * the backend, profile and Azure resource that created it, whatever the request's headers say;
+   * other ids follow the request, with `x-provider: auto` meaning the routing order's first.
+   * A profile job may run on the profile's server credential, so only its creator reaches it.
+   */
+  private routeFor(videoId: string, userApiKey: string | undefined, provider?: ProviderOptions): ProviderOptions | undefined {
+    const job = this.jobsService.get(videoId);
+    if (!job) return this.providerRegistry.primary(provider);
+    if (job.profile && job.caller !== callerIdFromApiKey(userApiKey)) {
+      throw new NotFoundException(`Video '${videoId}' not found`);
+    }
+    return {
+      ...provider,
+      provider: job.provider,
+      profile: job.profile,
+      azureEndpoint: job.azureEndpoint,
+      azureApiVersion: job.azureApiVersion,
+      azureDeployment: job.azureDeployment,
+      // Checked against the caller when the job was created
+      profileCleared: !!job.profile,
+    };
+  }
 
-  async generateVideo(dto: GenerateVideoDto, userApiKey?: string, provider?: { provider?: 'openai' | 'azure'; azureEndpoint?: string; azureApiVersion?: string; azureDeployment?: string }) {
+  /**
+   * Run a create on each candidate backend in turn (just the requested one, unless the request
+   * sent `x-provider: auto`) until one does not fail with 429/5xx; resolves with the video and
+   * the options of the backend that served it
+   */
+  private async createWithFallback(
+    provider: ProviderOptions | undefined,
+    create: (candidate: ProviderOptions | undefined) => Promise<UpstreamVideo>,
+  ): Promise<{ video: UpstreamVideo; served: ProviderOptions | undefined }> {
+    const candidates = this.providerRegistry.candidates(provider);
+    let lastError: unknown;
+    for (const [i, candidate] of candidates.entries()) {
+      try {
+        return { video: await create(candidate), served: candidate };
+      } catch (error) {
+        // A fallback the caller may not use (allow-list, quota) is skipped rather than reported
+        if (i > 0 && error instanceof HttpException) continue;
+        // Only an answered 429/5xx proves the create did not run: after a timeout or dropped
+        // connection the first backend may have taken it, and a fallback would render it twice
+        if (!shouldFallBack(error)) throw error;
+        lastError = error;
+        const next = candidates[i + 1];
+        if (next) {
+          this.logger.warn(`Create on ${candidate.provider} failed (${error.response.status}); falling back to ${next.provider}`);
+          this.metricsService.observeProviderFallback(candidate.provider, next.provider);
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Run a job-creating call through the admission queue, which may hold it under a
+   * `pending_...` id until the upstream credential has a free slot. `x-provider: auto`
+   * creates wait on the routing order's first backend.
+   *
+   * The estimated cost is reserved against the caller's budgets before admission, so an
+   * over-budget create gets 402 instead of a place in the queue. The reservation is committed
+   * once `create` has recorded the job, and released if the create fails or never runs.
+   */
+  private async admit(
+    userApiKey: string | undefined,
+    provider: ProviderOptions | undefined,
+    details: Record<string, unknown>,
+    estimate: Omit<UsageEstimateRequest, 'provider'>,
+    authorization: string | undefined,
+    create: (credential: string, pendingId?: string) => Promise<UpstreamVideo>,
+  ): Promise<UpstreamVideo> {
+    const caller = callerIdFromApiKey(userApiKey);
+    const credential = this.openAIService.credentialId(userApiKey, provider);
+    const providerName = this.providerRegistry.resolve(provider).name;
+    const reservation = this.budgetsService.reserve(caller, { ...estimate, provider: providerName });
+    try {
+      const video = await this.admissionQueue.admit({
+        caller,
+        credential,
+        provider: providerName,
+        priority: this.apiKeysService.admissionPriority(userApiKey, provider?.priority, authorization),
+        details,
+        submit: async (pendingId) => {
+          const created = await create(credential, pendingId);
+          this.budgetsService.commit(reservation);
+          return created;
+        },
+      });
+      if (AdmissionQueue.isPendingId(String(video.id))) {
+        // Parked (also after a 429): the queue reports whether it was ever created
+        this.admissionQueue.whenSubmitted(String(video.id)).catch(() => this.budgetsService.release(reservation));
+      }
+      return video;
+    } catch (error) {
+      this.budgetsService.release(reservation);
+      throw error;
+    }
+  }
+
+  async generateVideo(dto: GenerateVideoDto, userApiKey?: string, provider?: ProviderOptions, authorization?: string) {
     this.logger.log(`Generating video with prompt: ${dto.prompt}`);
-    return await this.openAIService.generateVideo(dto.prompt, dto.model, {
-      size: dto.size,
-      duration: dto.duration,
-    }, userApiKey, provider);
+    await this.webhooksService.assertCallbackAllowed(dto.callbackUrl);
+    const details = { model: dto.model, prompt: dto.prompt, size: dto.size, seconds: dto.duration };
+    const estimate = { model: dto.model, size: dto.size, seconds: dto.duration };
+    return this.admit(userApiKey, provider, details, estimate, authorization, async (credential, pendingId) => {
+      const { video, served } = await this.createWithFallback(provider, (candidate) => {
+        return this.openAIService.generateVideo(dto.prompt, dto.model, {
+          size: dto.size,
+          duration: dto.duration,
+        }, userApiKey, candidate);
+      });
+      this.jobsService.recordCreated(video, {
+        ...served,
+        prompt: dto.prompt,
+        model: dto.model,
+        size: dto.size,
+        seconds: dto.duration,
+        caller: callerIdFromApiKey(userApiKey),
+        // The account that took the job, which differs from the admission one after a fallback
+        credential: served === provider ? credential : this.openAIService.credentialId(userApiKey, served),
+        pendingId,
+        callbackUrl: dto.callbackUrl,
+      });
+      this.jobStatusPoller.track(video?.id, userApiKey);
+      return video;
+    });
   }
 
-  async generateVideoFromImage(image: Express.Multer.File, dto: GenerateVideoDto, userApiKey?: string, provider?: { provider?: 'openai' | 'azure'; azureEndpoint?: string; azureApiVersion?: string; azureDeployment?: string }) {
+  async generateVideoFromImage(image: Express.Multer.File, dto: GenerateVideoDto, userApiKey?: string, provider?: ProviderOptions, authorization?: string) {
     this.logger.log(`Generating video from image with prompt: ${dto.prompt}`);
-    return await this.openAIService.generateVideoFromImage(image, dto.prompt, dto.model, {
-      size: dto.size,
-      duration: dto.duration,
-    }, userApiKey, provider);
+    await this.webhooksService.assertCallbackAllowed(dto.callbackUrl);
+    const details = { model: dto.model, prompt: dto.prompt, size: dto.size, seconds: dto.duration };
+    const estimate = { model: dto.model, size: dto.size, seconds: dto.duration };
+    return this.admit(userApiKey, provider, details, estimate, authorization, async (credential, pendingId) => {
+      const { video, served } = await this.createWithFallback(provider, (candidate) => {
+        return this.openAIService.generateVideoFromImage(image, dto.prompt, dto.model, {
+          size: dto.size,
+          duration: dto.duration,
+        }, userApiKey, candidate);
+      });
+      this.jobsService.recordCreated(video, {
+        ...served,
+        prompt: dto.prompt,
+        model: dto.model,
+        size: dto.size,
+        seconds: dto.duration,
+        caller: callerIdFromApiKey(userApiKey),
+        // The account that took the job, which differs from the admission one after a fallback
+        credential: served === provider ? credential : this.openAIService.credentialId(userApiKey, served),
+        pendingId,
+        callbackUrl: dto.callbackUrl,
+      });
+      this.jobStatusPoller.track(video?.id, userApiKey);
+      return video;
+    });
   }
 
-  async getVideoStatus(videoId: string, userApiKey?: string, provider?: { provider?: 'openai' | 'azure'; azureEndpoint?: string; azureApiVersion?: string; azureDeployment?: string }) {
+  async getVideoStatus(videoId: string, userApiKey?: string, provider?: ProviderOptions) {
     this.logger.log(`Getting status for video: ${videoId}`);
-    return await this.openAIService.getVideoStatus(videoId, userApiKey, provider);
+    if (AdmissionQueue.isPendingId(videoId)) {
+      // Still waiting for capacity, or report the job it became
+      const pending = this.admissionQueue.lookup(videoId, callerIdFromApiKey(userApiKey));
+      if (!pending.videoId) return pending.view;
+      const video = await this.getVideoStatus(pending.videoId, userApiKey, provider);
+      return { ...video, pending_id: videoId };
+    }
+    this.assertOwnedByCaller(videoId, userApiKey);
+    const video = await this.openAIService.getVideoStatus(videoId, userApiKey, this.routeFor(videoId, userApiKey, provider));
+    this.jobsService.recordStatus(video);
+    return video;
   }
 
-  async listVideos(limit?: number, after?: string, userApiKey?: string, order?: 'asc' | 'desc', provider?: { provider?: 'openai' | 'azure'; azureEndpoint?: string; azureApiVersion?: string; azureDeployment?: string }) {
+  async listVideos(limit?: number, after?: string, userApiKey?: string, order?: 'asc' | 'desc', provider?: ProviderOptions) {
     this.logger.log('Listing videos');
-    return await this.openAIService.listVideos({ limit, after, order }, userApiKey, provider);
+    // Not merged across backends: `x-provider: auto` lists the routing order's first
+    const result = await this.openAIService.listVideos({ limit, after, order }, userApiKey, this.providerRegistry.primary(provider));
+    if (proxyKeyIdFromToken(userApiKey) && Array.isArray(result?.data)) {
+      const caller = callerIdFromApiKey(userApiKey);
+      return { ...result, data: result.data.filter((video) => this.jobsService.get(video?.id)?.caller === caller) };
+    }
+    return result;
   }
 
-  async deleteVideo(videoId: string, userApiKey?: string, provider?: { provider?: 'openai' | 'azure'; azureEndpoint?: string; azureApiVersion?: string; azureDeployment?: string }) {
+  async deleteVideo(videoId: string, userApiKey?: string, provider?: ProviderOptions) {
     this.logger.log(`Deleting video: ${videoId}`);
-    return await this.openAIService.deleteVideo(videoId, userApiKey, provider);
+    if (AdmissionQueue.isPendingId(videoId)) {
+      // Withdraws a request that is still waiting; one already submitted is deleted under its video id
+      return { ...this.admissionQueue.cancel(videoId, callerIdFromApiKey(userApiKey)), deleted: true };
+    }
+    this.assertOwnedByCaller(videoId, userApiKey);
+    const result = await this.openAIService.deleteVideo(videoId, userApiKey, this.routeFor(videoId, userApiKey, provider));
+    await this.videoArchiver.remove(videoId);
+    this.jobsService.remove(videoId);
+    this.jobStatusPoller.untrack(videoId);
+    return result;
   }
 
-  async remixVideo(dto: RemixVideoDto, userApiKey?: string, provider?: { provider?: 'openai' | 'azure'; azureEndpoint?: string; azureApiVersion?: string; azureDeployment?: string }) {
+  async remixVideo(dto: RemixVideoDto, userApiKey?: string, provider?: ProviderOptions, authorization?: string) {
     this.logger.log(`Remixing video ${dto.videoId} with prompt: ${dto.prompt}`);
-    return await this.openAIService.remixVideo(dto.videoId, dto.prompt, userApiKey, provider);
+    await this.webhooksService.assertCallbackAllowed(dto.callbackUrl);
+    this.assertOwnedByCaller(dto.videoId, userApiKey);
+    const details = { prompt: dto.prompt, remixed_from_video_id: dto.videoId };
+    // The source video only exists on the backend that rendered it
+    const routed = this.routeFor(dto.videoId, userApiKey, provider);
+    // Remix output follows the source video
+    const source = this.jobsService.get(dto.videoId);
+    const estimate = { model: source?.model, size: source?.size, seconds: source?.seconds };
+    return this.admit(userApiKey, routed, details, estimate, authorization, async (credential, pendingId) => {
+      const video = await this.openAIService.remixVideo(dto.videoId, dto.prompt, userApiKey, routed);
+      this.jobsService.recordCreated(video, {
+        ...routed,
+        prompt: dto.prompt,
+        remixOf: dto.videoId,
+        caller: callerIdFromApiKey(userApiKey),
+        credential,
+        pendingId,
+        callbackUrl: dto.callbackUrl,
+      });
+      this.jobStatusPoller.track(video?.id, userApiKey);
+      return video;
+    });
+  }
+
+  /**
+   * Price a create (or a remix of `dto.videoId`) without calling upstream
+   */
+  estimateVideo(dto: EstimateVideoDto, userApiKey?: string, provider?: ProviderOptions) {
+    if (dto.videoId) {
+      this.assertOwnedByCaller(dto.videoId, userApiKey);
+      // Remix output follows the source video
+      const source = this.jobsService.get(dto.videoId);
+      if (!source) {
+        throw new NotFoundException(`Video '${dto.videoId}' not found`);
+      }
+      return this.usageService.estimate({
+        provider: source.provider,
+        model: source.model,
+        size: source.size,
+        seconds: source.seconds,
+        count: dto.count,
+      });
+    }
+    return this.usageService.estimate({
+      provider: this.providerRegistry.resolve(provider).name,
+      model: dto.model,
+      size: dto.size,
+      seconds: dto.duration,
+      count: dto.count,
+    });
+  }
+
+  /**
+   * Resolves with the created video once a create held by the admission queue reaches upstream
+   */
+  whenSubmitted(pendingId: string): Promise<UpstreamVideo> {
+    return this.admissionQueue.whenSubmitted(pendingId);
   }
 
-  async downloadVideoContent(videoId: string, userApiKey?: string, provider?: { provider?: 'openai' | 'azure'; azureEndpoint?: string; azureApiVersion?: string; azureDeployment?: string }) {
+  async downloadVideoContent(videoId: string, userApiKey?: string, provider?: ProviderOptions, content?: ContentOptions) {
     this.logger.log(`Downloading content for video: ${videoId}`);
-    return await this.openAIService.downloadVideoContent(videoId, userApiKey, provider);
+    this.assertOwnedByCaller(videoId, userApiKey);
+    return await this.openAIService.downloadVideoContent(videoId, userApiKey, this.routeFor(videoId, userApiKey, provider), content);
+  }
+
+  /**
+   * Full MP4 of a completed video for server-side consumers (e.g. batch zips): the archived
+   * copy when there is one, otherwise streamed from upstream and archived in the background
+   */
+  async readVideo(videoId: string, userApiKey?: string, provider?: ProviderOptions): Promise<Readable> {
+    this.assertOwnedByCaller(videoId, userApiKey);
+    if (await this.videoArchiver.stat(videoId)) return this.videoArchiver.read(videoId);
+    const content = await this.openAIService.downloadVideoContent(videoId, userApiKey, this.routeFor(videoId, userApiKey, provider));
+    this.videoArchiver.archiveInBackground(videoId, userApiKey);
+    return content.stream;
+  }
+
+  createContentLink(videoId: string, userApiKey?: string, provider?: ProviderOptions, options?: ContentLinkOptions) {
+    this.assertOwnedByCaller(videoId, userApiKey);
+    return this.contentLinkService.create(videoId, userApiKey, this.routeFor(videoId, userApiKey, provider), options);
+  }
+
+  /**
+   * Download content authorized by a signed link instead of request credentials.
+   * The MP4 is served from the archive when there is a copy, otherwise streamed from upstream
+   * and archived in the background; thumbnail and spritesheet variants always come from upstream.
+   * Single byte ranges and If-None-Match are honoured on every path; content of a completed
+   * video never changes, so the id and variant make a stable ETag.
+   */
+  async downloadLinkedContent(videoId: string, token?: string, request: ContentRequest = {}): Promise<VideoContent> {
+    const { apiKey, providerOpts } = this.contentLinkService.resolve(videoId, token);
+    const variant = (request.variant || 'video') as ContentVariant;
+    if (!Object.prototype.hasOwnProperty.call(CONTENT_VARIANTS, variant)) {
+      throw new BadRequestException(`variant must be one of: ${Object.keys(CONTENT_VARIANTS).join(', ')}`);
+    }
+    const etag = `"${videoId}-${variant}"`;
+    if (etagMatches(request.ifNoneMatch, etag)) return { status: 304, variant, etag };
+
+    const archived = variant === 'video' ? await this.videoArchiver.stat(videoId) : undefined;
+    if (archived) {
+      const range = resolveByteRange(request.range, archived.size);
+      if (range === null) return { status: 416, variant, etag, size: archived.size };
+      return {
+        status: range ? 206 : 200,
+        variant,
+        etag,
+        stream: await this.videoArchiver.read(videoId, range),
+        contentType: archived.contentType,
+        size: archived.size,
+        range,
+        lastModified: archived.lastModified,
+      };
+    }
+
+    let upstream: VideoContentStream;
+    try {
+      upstream = await this.downloadVideoContent(videoId, apiKey, providerOpts, { range: request.range, variant });
+    } catch (error) {
+      // Relay an upstream 416 as a plain range response rather than a JSON error
+      if (error?.response?.status !== 416) throw error;
+      const total = /\/(\d+)$/.exec(String(error.response.headers?.['content-range'] ?? ''));
+      return { status: 416, variant, etag, size: total ? Number(total[1]) : undefined };
+    }
+    if (variant === 'video') this.videoArchiver.archiveInBackground(videoId, apiKey);
+    // Trust upstream's type only within the expected family (upstreams may send application/octet-stream)
+    const expectedType = CONTENT_VARIANTS[variant].contentType;
+    const family = expectedType.slice(0, expectedType.indexOf('/') + 1);
+    const contentType = upstream.contentType?.startsWith(family) ? upstream.contentType : expectedType;
+    const served = parseContentRange(upstream.contentRange);
+    if (served) {
+      return { status: 206, variant, etag, stream: upstream.stream, contentType, size: served.size, range: served };
+    }
+    // Upstream ignored the Range header: cut the range out of the full body here
+    const range = upstream.contentLength != null ? resolveByteRange(request.range, upstream.contentLength) : undefined;
+    if (range === null) {
+      upstream.stream.destroy();
+      return { status: 416, variant, etag, size: upstream.contentLength };
+    }
+    if (range) {
+      return {
+        status: 206,
+        variant,
+        etag,
+        stream: sliceStream(upstream.stream, range),
+        contentType,
+        size: upstream.contentLength,
+        range,
+      };
+    }
+    return { status: 200, variant, etag, stream: upstream.stream, contentType, size: upstream.contentLength };
+  }
+
+  /**
+   * Job updates for its creator, or for an admin presenting ADMIN_TOKEN; anyone else gets 404
+   * as for an unknown id, since the job record carries the prompt, callback URL and routing
+   */
+  watchVideo(videoId: string, userApiKey?: string, authorization?: string): Observable<MessageEvent> {
+    if (AdmissionQueue.isPendingId(videoId)) {
+      return withHeartbeat(
+        this.admissionQueue
+          .watch(videoId, callerIdFromApiKey(userApiKey))
+          .pipe(map((update): MessageEvent => ({ type: 'job', data: update }))),
+      );
+    }
+    const job = this.jobsService.get(videoId);
+    const ownJob = job?.caller === callerIdFromApiKey(userApiKey);
+    if (!job || (!ownJob && !this.apiKeysService.isAdmin(authorization))) {
+      throw new NotFoundException(`Video '${videoId}' was not created through this proxy`);
+    }
+    if (ownJob && !JobsService.isTerminal(job.status)) {
+      // Lend the subscriber's key to the poller so the job keeps moving while someone is watching
+      this.jobStatusPoller.track(videoId, userApiKey);
+    }
+    return withHeartbeat(
+      this.jobsService.watch(videoId).pipe(map((update): MessageEvent => ({ type: 'job', data: update }))),
+    );
   }
 }
 
+function shouldFallBack(error: UpstreamError): boolean {
+  const status = error?.response?.status;
+  return status === 429 || (status >= 500 && status <= 599);
+}
@@ -0,0 +1,23 @@
+export type WebhookEventType = 'video.completed' | 'video.failed' | 'video.cancelled';
+
+export interface WebhookAttempt {
+  at: string;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  jobId: string;
+  // Caller that created the job; only it may see or redeliver the delivery
+  caller?: string;
+  url: string;
+  event: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: WebhookAttempt[];
+  nextAttemptAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
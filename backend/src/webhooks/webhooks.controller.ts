@@ -0,0 +1,37 @@
+import { Controller, Get, Param, Post, Query } from '@nestjs/common';
+import { WebhooksService } from './webhooks.service';
+import { ListDeliveriesQueryDto } from './dto/webhooks.dto';
+import { ApiKey } from '../video/decorators/api-key.decorator';
+import { callerIdFromApiKey } from '../common/caller-id';
+
+@Controller('api/webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  /**
+   * List webhook deliveries of the calling key's jobs, newest first
+   * GET /api/webhooks/deliveries?jobId=&status=&limit=
+   */
+  @Get('deliveries')
+  listDeliveries(@Query() query: ListDeliveriesQueryDto, @ApiKey() apiKey?: string) {
+    return this.webhooksService.list(query, callerIdFromApiKey(apiKey));
+  }
+
+  /**
+   * Get a single delivery with all of its attempts
+   * GET /api/webhooks/deliveries/:id
+   */
+  @Get('deliveries/:id')
+  getDelivery(@Param('id') id: string, @ApiKey() apiKey?: string) {
+    return this.webhooksService.get(id, callerIdFromApiKey(apiKey));
+  }
+
+  /**
+   * Send the payload of a past delivery again
+   * POST /api/webhooks/deliveries/:id/redeliver
+   */
+  @Post('deliveries/:id/redeliver')
+  redeliver(@Param('id') id: string, @ApiKey() apiKey?: string) {
+    return this.webhooksService.redeliver(id, callerIdFromApiKey(apiKey));
+  }
+}
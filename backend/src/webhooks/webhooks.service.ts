@@ -0,0 +1,270 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom, Subscription } from 'rxjs';
+import { createHmac, randomUUID } from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import { JsonFileStore, resolveDataFile } from '../common/json-file-store';
+import { assertPublicHost, guardedLookup, urlHost } from '../common/public-address';
+import { JobsService } from '../jobs/jobs.service';
+import { JobEvent, VideoJob } from '../jobs/interfaces/video-job.interface';
+import { WebhookDelivery, WebhookEventType } from './interfaces/webhook-delivery.interface';
+import { ListDeliveriesQueryDto } from './dto/webhooks.dto';
+
+/**
+ * Delivers signed callbacks for terminal job status changes.
+ *
+ * Each POST carries `X-Webhook-Signature: t=<unix seconds>,v1=<hex>` where the hex digest is
+ * HMAC-SHA256(WEBHOOK_SECRET, `${t}.${rawBody}`). Failed deliveries are retried with jittered
+ * exponential backoff; every attempt is kept in the delivery log.
+ *
+ * Callback URLs must resolve to public addresses, checked when the job is created, before every
+ * attempt and again on connect (so DNS rebinding cannot reach internal hosts); redirects are not
+ * followed.
+ */
+@Injectable()
+export class WebhooksService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhooksService.name);
+  private readonly store: JsonFileStore<WebhookDelivery>;
+  private readonly secret?: string;
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly timeoutMs: number;
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly httpAgent = new http.Agent({ lookup: guardedLookup });
+  private readonly httpsAgent = new https.Agent({ lookup: guardedLookup });
+  private subscription?: Subscription;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+    private readonly jobsService: JobsService,
+  ) {
+    this.store = new JsonFileStore<WebhookDelivery>(resolveDataFile(this.configService, 'webhook-deliveries.json'));
+    this.secret = this.configService.get<string>('WEBHOOK_SECRET');
+    this.maxAttempts = Number(this.configService.get<string>('WEBHOOK_MAX_ATTEMPTS')) || 6;
+    this.baseDelayMs = Number(this.configService.get<string>('WEBHOOK_RETRY_BASE_MS')) || 2000;
+    this.timeoutMs = Number(this.configService.get<string>('WEBHOOK_TIMEOUT_MS')) || 10000;
+  }
+
+  onModuleInit() {
+    this.subscription = this.jobsService.events$.subscribe((event) => this.onJobEvent(event));
+    // Resume retries that were pending when the process stopped
+    for (const delivery of this.store.values()) {
+      if (delivery.status === 'pending') this.schedule(delivery);
+    }
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  /**
+   * Reject a callbackUrl up front when deliveries could not be signed or it points at a
+   * private, loopback or link-local address
+   */
+  async assertCallbackAllowed(callbackUrl?: string) {
+    if (!callbackUrl) return;
+    if (!this.secret) {
+      throw new BadRequestException("'callbackUrl' requires WEBHOOK_SECRET to be configured on the server");
+    }
+    const host = urlHost(parseCallbackUrl(callbackUrl));
+    try {
+      await assertPublicHost(host);
+    } catch (error) {
+      throw new BadRequestException(`'callbackUrl' host '${host}' ${error.message}`);
+    }
+  }
+
+  /**
+   * Deliveries of the caller's own jobs, newest first
+   */
+  list(query: ListDeliveriesQueryDto, callerId: string) {
+    const data = this.store
+      .values()
+      .filter((d) => this.ownerOf(d) === callerId)
+      .filter((d) => (!query.jobId || d.jobId === query.jobId) && (!query.status || d.status === query.status))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, query.limit ?? 20);
+    return { object: 'list', data };
+  }
+
+  get(id: string, callerId: string): WebhookDelivery {
+    const delivery = this.store.get(id);
+    if (!delivery || this.ownerOf(delivery) !== callerId) {
+      throw new NotFoundException(`Webhook delivery '${id}' not found`);
+    }
+    return delivery;
+  }
+
+  /**
+   * Queue a fresh delivery of the same payload, e.g. after the receiver was fixed
+   */
+  redeliver(id: string, callerId: string): WebhookDelivery {
+    const original = this.get(id, callerId);
+    return this.enqueue(original.jobId, original.caller ?? callerId, original.url, original.event, original.payload);
+  }
+
+  // Deliveries recorded before `caller` was stored fall back to their job's caller
+  private ownerOf(delivery: WebhookDelivery): string | undefined {
+    return delivery.caller ?? this.jobsService.get(delivery.jobId)?.caller;
+  }
+
+  private onJobEvent(event: JobEvent) {
+    const { job, previousStatus } = event;
+    if (event.type !== 'updated' || !job.callbackUrl) return;
+    if (!JobsService.isTerminal(job.status) || previousStatus === job.status) return;
+    const type = `video.${job.status}` as WebhookEventType;
+    this.enqueue(job.id, job.caller, job.callbackUrl, type, this.buildPayload(type, job));
+  }
+
+  private buildPayload(type: WebhookEventType, job: VideoJob) {
+    return {
+      type,
+      created_at: Math.floor(Date.now() / 1000),
+      data: {
+        id: job.id,
+        provider: job.provider,
+        status: job.status,
+        progress: job.progress,
+        error: job.error,
+        prompt: job.prompt,
+        model: job.model,
+        size: job.size,
+        seconds: job.seconds,
+        remix_of: job.remixOf,
+        created_at: job.createdAt,
+        completed_at: job.completedAt,
+      },
+    };
+  }
+
+  private enqueue(jobId: string, caller: string, url: string, event: WebhookEventType, payload: Record<string, unknown>) {
+    const now = new Date().toISOString();
+    const delivery: WebhookDelivery = {
+      id: `whd_${randomUUID().replace(/-/g, '')}`,
+      jobId,
+      caller,
+      url,
+      event,
+      payload,
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store.upsert(delivery);
+    this.schedule(delivery);
+    return delivery;
+  }
+
+  private schedule(delivery: WebhookDelivery) {
+    const delay = Math.max(0, Date.parse(delivery.nextAttemptAt || '') - Date.now() || 0);
+    const timer = setTimeout(() => {
+      this.timers.delete(delivery.id);
+      this.attempt(delivery.id).catch((error) =>
+        this.logger.error(`Webhook delivery ${delivery.id} crashed: ${error?.message || error}`),
+      );
+    }, delay);
+    this.timers.set(delivery.id, timer);
+  }
+
+  private async attempt(id: string) {
+    const delivery = this.store.get(id);
+    if (!delivery || delivery.status !== 'pending') return;
+
+    const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = createHmac('sha256', this.secret || '').update(`${timestamp}.${body}`).digest('hex');
+    const started = Date.now();
+    let statusCode: number | undefined;
+    let error: string | undefined;
+    // A destination that is not public will not become deliverable by retrying
+    let blocked = false;
+    try {
+      let url: URL;
+      try {
+        url = parseCallbackUrl(delivery.url);
+      } catch (err) {
+        blocked = true;
+        throw err;
+      }
+      const host = urlHost(url);
+      await assertPublicHost(host).catch((err) => {
+        blocked = true;
+        throw new Error(`Callback host '${host}' ${err.message}`);
+      });
+      const res = await firstValueFrom(
+        this.httpService.post(delivery.url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'sora-proxy-webhooks',
+            'X-Webhook-Id': delivery.id,
+            'X-Webhook-Event': delivery.event,
+            'X-Webhook-Signature': `t=${timestamp},v1=${signature}`,
+          },
+          timeout: this.timeoutMs,
+          maxRedirects: 0,
+          httpAgent: this.httpAgent,
+          httpsAgent: this.httpsAgent,
+          proxy: false,
+          validateStatus: () => true,
+        }),
+      );
+      statusCode = res.status;
+      if (res.status < 200 || res.status >= 300) error = `Receiver responded with HTTP ${res.status}`;
+    } catch (err) {
+      error = err?.message || 'Unknown error';
+      if (err?.code === 'EADDRBLOCKED') blocked = true;
+    }
+
+    const attempts = [
+      ...delivery.attempts,
+      { at: new Date(started).toISOString(), statusCode, error, durationMs: Date.now() - started },
+    ];
+    const updated: WebhookDelivery = { ...delivery, attempts, updatedAt: new Date().toISOString() };
+    if (!error) {
+      updated.status = 'succeeded';
+      updated.nextAttemptAt = undefined;
+      this.logger.log(`Webhook ${delivery.event} for job ${delivery.jobId} delivered (HTTP ${statusCode})`);
+    } else if (blocked || attempts.length >= this.maxAttempts) {
+      updated.status = 'failed';
+      updated.nextAttemptAt = undefined;
+      this.logger.warn(`Webhook ${delivery.id} gave up after ${attempts.length} attempts: ${error}`);
+    } else {
+      const backoff = this.baseDelayMs * 2 ** (attempts.length - 1);
+      const jittered = Math.round(backoff * (0.8 + Math.random() * 0.4));
+      updated.nextAttemptAt = new Date(Date.now() + jittered).toISOString();
+      this.logger.warn(`Webhook ${delivery.id} attempt ${attempts.length} failed: ${error}; retrying in ${jittered}ms`);
+    }
+    this.store.upsert(updated);
+    if (updated.status === 'pending') this.schedule(updated);
+  }
+}
+
+/**
+ * Parse a callback URL, refusing anything that is not an absolute http(s) URL
+ */
+function parseCallbackUrl(callbackUrl: string): URL {
+  let url: URL;
+  try {
+    url = new URL(callbackUrl);
+  } catch {
+    throw new BadRequestException(`'callbackUrl' '${callbackUrl}' is not a valid URL`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new BadRequestException("'callbackUrl' must be an http or https URL");
+  }
+  return url;
+}
@@ -0,0 +1,225 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { OpenAIService } from '../src/video/openai.service';
+import { MockVideoProvider } from '../src/video/providers/mock.video.provider';
+import { OpenAIVideoProvider } from '../src/video/providers/openai.video.provider';
+import { MOCK_VIDEO_MP4 } from '../src/video/providers/mock-video.fixture';
+
+/**
+ * VideoController end to end, against the offline mock upstream (`x-provider: mock`) with
+ * jobs that complete as soon as they are read
+ */
+describe('VideoController (e2e)', () => {
+  let app: INestApplication;
+  let dataDir: string;
+
+  const headers = { 'x-provider': 'mock', 'x-api-key': 'test-key' };
+  const create = (prompt = 'a red fox in the snow') =>
+    request(app.getHttpServer()).post('/api/videos/generate').set(headers).send({ prompt, duration: 4 });
+
+  beforeAll(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sora-proxy-e2e-'));
+    Object.assign(process.env, {
+      DATA_DIR: dataDir, ADMIN_TOKEN: 'test-admin-token',
+      MOCK_QUEUE_DELAY_MS: '0', MOCK_RENDER_DURATION_MS: '0',
+      // `x-provider: auto` tries openai first; tests stub it and fall back to the mock
+      PROVIDER_ROUTING_ORDER: 'openai,mock',
+    });
+
+    const moduleRef = await Test.createTestingModule({ imports: [AppModule] }).compile();
+    app = moduleRef.createNestApplication({ logger: false });
+    // Same pipe as main.ts
+    app.useGlobalPipes(new ValidationPipe({ transform: true, whitelist: true, forbidNonWhitelisted: false }));
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app?.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('creates a video and reports its status', async () => {
+    const created = await create().expect(201);
+    expect(created.body).toMatchObject({ object: 'video', model: 'sora-2', seconds: '4' });
+    expect(created.body.id).toMatch(/^video_mock_/);
+
+    const status = await request(app.getHttpServer()).get(`/api/videos/${created.body.id}`).set(headers).expect(200);
+    expect(status.body).toMatchObject({ id: created.body.id, status: 'completed', progress: 100 });
+  });
+
+  it('rejects an invalid body with 400', async () => {
+    await request(app.getHttpServer()).post('/api/videos/generate').set(headers).send({ prompt: 'x', duration: 5 }).expect(400);
+    await request(app.getHttpServer()).post('/api/videos/generate').set(headers).send({}).expect(400);
+
+    const relative = await request(app.getHttpServer())
+      .post('/api/videos/generate')
+      .set(headers)
+      .send({ prompt: 'x', callbackUrl: 'example.com/hook' })
+      .expect(400);
+    expect(relative.body.message).toEqual(['callbackUrl must be a URL address']);
+  });
+
+  it('lists created videos', async () => {
+    const created = await create('listed').expect(201);
+    const list = await request(app.getHttpServer()).get('/api/videos').query({ limit: 100 }).set(headers).expect(200);
+    expect(list.body.object).toBe('list');
+    expect(list.body.data.map((video) => video.id)).toContain(created.body.id);
+  });
+
+  it('scopes videos to the proxy key that created them', async () => {
+    const issue = async (name: string) => {
+      const res = await request(app.getHttpServer())
+        .post('/api/admin/keys')
+        .set('Authorization', 'Bearer test-admin-token')
+        .send({ name, owner: 'e2e' })
+        .expect(201);
+      return { ...headers, 'x-api-key': res.body.token };
+    };
+    const [owner, stranger] = [await issue('owner'), await issue('stranger')];
+
+    const created = await request(app.getHttpServer()).post('/api/videos/generate').set(owner).send({ prompt: 'mine' }).expect(201);
+    await request(app.getHttpServer()).get(`/api/videos/${created.body.id}`).set(owner).expect(200);
+    await request(app.getHttpServer()).get(`/api/videos/${created.body.id}`).set(stranger).expect(404);
+    await request(app.getHttpServer()).delete(`/api/videos/${created.body.id}`).set(stranger).expect(404);
+
+    const list = await request(app.getHttpServer()).get('/api/videos').query({ limit: 100 }).set(stranger).expect(200);
+    expect(list.body.data.map((video) => video.id)).not.toContain(created.body.id);
+  });
+
+  it('streams job events only to the creator or an admin', async () => {
+    const created = await create('watched').expect(201);
+    await request(app.getHttpServer()).get(`/api/videos/${created.body.id}`).set(headers).expect(200);
+    const events = `/api/videos/${created.body.id}/events`;
+
+    const own = await request(app.getHttpServer()).get(events).set(headers).expect(200);
+    expect(own.text).toContain('"status":"completed"');
+    await request(app.getHttpServer()).get(events).set({ ...headers, 'x-api-key': 'other-key' }).expect(404);
+    await request(app.getHttpServer()).get(events).expect(404);
+    await request(app.getHttpServer()).get(events).set('Authorization', 'Bearer wrong').expect(404);
+    await request(app.getHttpServer()).get(events).set('Authorization', 'Bearer test-admin-token').expect(200);
+  });
+
+  it('remixes a completed video', async () => {
+    const source = await create().expect(201);
+    await request(app.getHttpServer()).get(`/api/videos/${source.body.id}`).set(headers).expect(200);
+
+    const remix = await request(app.getHttpServer())
+      .post('/api/videos/remix')
+      .set(headers)
+      .send({ videoId: source.body.id, prompt: 'now at night' })
+      .expect(201);
+    expect(remix.body).toMatchObject({ remixed_from_video_id: source.body.id, prompt: 'now at night' });
+  });
+
+  it('serves content through a signed link, with byte ranges', async () => {
+    const created = await create().expect(201);
+    await request(app.getHttpServer()).get(`/api/videos/${created.body.id}`).set(headers).expect(200);
+
+    const link = await request(app.getHttpServer()).post(`/api/videos/${created.body.id}/content-link`).set(headers).send({}).expect(201);
+    expect(link.body.url).toContain(`/api/videos/${created.body.id}/content?token=`);
+
+    const full = await request(app.getHttpServer()).get(link.body.url).buffer(true).expect(200);
+    expect(full.headers['content-type']).toBe('video/mp4');
+    expect(Buffer.compare(full.body, MOCK_VIDEO_MP4)).toBe(0);
+
+    const partial = await request(app.getHttpServer()).get(link.body.url).set('Range', 'bytes=0-9').buffer(true).expect(206);
+    expect(partial.headers['content-range']).toBe(`bytes 0-9/${MOCK_VIDEO_MP4.length}`);
+    expect(partial.body.length).toBe(10);
+
+    await request(app.getHttpServer()).get(`/api/videos/${created.body.id}/content?token=forged`).expect(403);
+  });
+
+  it('answers 502 when the content source fails, and keeps serving', async () => {
+    const created = await create().expect(201);
+    await request(app.getHttpServer()).get(`/api/videos/${created.body.id}`).set(headers).expect(200);
+    const link = await request(app.getHttpServer()).post(`/api/videos/${created.body.id}/content-link`).set(headers).send({}).expect(201);
+
+    const failing = (sendFirst: boolean) => new Readable({
+      read() {
+        if (sendFirst) {
+          sendFirst = false;
+          this.push(MOCK_VIDEO_MP4.subarray(0, 10));
+        } else {
+          this.destroy(Object.assign(new Error('ENOENT: no such file or directory'), { code: 'ENOENT' }));
+        }
+      },
+    });
+    const download = jest.spyOn(app.get(MockVideoProvider), 'downloadVideoContent');
+
+    download.mockResolvedValue({ stream: failing(false), contentType: 'video/mp4', contentLength: MOCK_VIDEO_MP4.length });
+    const res = await request(app.getHttpServer()).get(link.body.url).expect(502);
+    expect(res.headers['content-disposition']).toBeUndefined();
+
+    // Once bytes are out the only signal left is a cut connection
+    download.mockResolvedValue({ stream: failing(true), contentType: 'video/mp4', contentLength: MOCK_VIDEO_MP4.length });
+    await expect(request(app.getHttpServer()).get(link.body.url).buffer(true)).rejects.toThrow();
+
+    download.mockRestore();
+    await request(app.getHttpServer()).get(link.body.url).expect(200);
+  });
+
+  it('deletes a video', async () => {
+    const created = await create().expect(201);
+    const deleted = await request(app.getHttpServer()).delete(`/api/videos/${created.body.id}`).set(headers).expect(200);
+    expect(deleted.body).toMatchObject({ id: created.body.id, deleted: true });
+    await request(app.getHttpServer()).get(`/api/videos/${created.body.id}`).set(headers).expect(404);
+  });
+
+  it('passes upstream errors through with their status and code', async () => {
+    const rejected: Error & { response?: unknown } = new Error('Request failed with status code 400');
+    rejected.response = { status: 400, headers: {}, data: { error: { message: 'Prompt was rejected', code: 'moderation_blocked' } } };
+    jest.spyOn(app.get(MockVideoProvider), 'generateVideo').mockRejectedValue(rejected);
+
+    const res = await create().expect(400);
+    expect(res.body).toMatchObject({ message: 'Prompt was rejected', code: 'moderation_blocked', upstream: 'openai' });
+  });
+
+  it('forwards a caller-scoped Idempotency-Key upstream', async () => {
+    const upstream = jest.spyOn(app.get(OpenAIService), 'generateVideo');
+    const createWith = (apiKey: string, idempotencyKey: string) => request(app.getHttpServer())
+      .post('/api/videos/generate')
+      .set({ ...headers, 'x-api-key': apiKey, 'Idempotency-Key': idempotencyKey })
+      .send({ prompt: 'same key', duration: 4 })
+      .expect(201);
+
+    await createWith('key-a', '1');
+    await createWith('key-b', '1');
+    await createWith('key-a', '2');
+    const sent = upstream.mock.calls.map(([, , , , opts]) => opts?.idempotencyKey);
+    expect(sent).not.toContain('1');
+    expect(new Set(sent).size).toBe(3);
+  });
+
+  describe('x-provider: auto', () => {
+    const auto = { ...headers, 'x-provider': 'auto' };
+    const createAuto = () => request(app.getHttpServer()).post('/api/videos/generate').set(auto).send({ prompt: 'fallback', duration: 4 });
+
+    it('falls back to the next backend when the first answers 5xx', async () => {
+      const unavailable: Error & { response?: unknown } = new Error('Request failed with status code 503');
+      unavailable.response = { status: 503, headers: {}, data: { error: { message: 'Service unavailable' } } };
+      jest.spyOn(app.get(OpenAIVideoProvider), 'generateVideo').mockRejectedValue(unavailable);
+
+      const res = await createAuto().expect(201);
+      expect(res.body.id).toMatch(/^video_mock_/);
+    });
+
+    it('does not fall back after a timeout, when the first backend may have taken the create', async () => {
+      const timedOut = Object.assign(new Error('timeout of 30000ms exceeded'), { code: 'ECONNABORTED' });
+      jest.spyOn(app.get(OpenAIVideoProvider), 'generateVideo').mockRejectedValue(timedOut);
+      const fallback = jest.spyOn(app.get(MockVideoProvider), 'generateVideo');
+
+      const res = await createAuto();
+      expect(res.status).toBeGreaterThanOrEqual(500);
+      expect(res.body.message).toBe('timeout of 30000ms exceeded');
+      expect(fallback).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { getApiKey, setApiKey, removeApiKey, getProvider, setProvider, getAzureEndpoint, setAzureEndpoint, getAzureVersion, setAzureVersion, getAzureDeployment, setAzureDeployment } from '@/lib/api';
+import { ProviderName, ProviderProfile, videoAPI, getApiKey, setApiKey, removeApiKey, getProvider, setProvider, getProfile, setProfile, getAzureEndpoint, setAzureEndpoint, getAzureVersion, setAzureVersion, getAzureDeployment, setAzureDeployment } from '@/lib/api';
 import toast from 'react-hot-toast';
 import { Key, Save, Eye, EyeOff, Trash2, AlertCircle } from 'lucide-react';
 
@@ -12,7 +12,9 @@ interface ApiKeySettingsProps {
 export default function ApiKeySettings({ onApiKeyChange }: ApiKeySettingsProps) {
   const [apiKey, setApiKeyState] = useState('');
   const [showKey, setShowKey] = useState(false);
-  const [provider, setProviderState] = useState<'openai' | 'azure'>(getProvider());
+  const [provider, setProviderState] = useState<ProviderName>(getProvider());
+  const [profiles, setProfiles] = useState<ProviderProfile[]>([]);
+  const [profile, setProfileState] = useState<string>(getProfile() || '');
   const [azureEndpoint, setAzureEndpointState] = useState<string>(getAzureEndpoint() || '');
   const [azureVersion, setAzureVersionState] = useState<string>(getAzureVersion() || '2024-02-15-preview');
   const [azureDeployment, setAzureDeploymentState] = useState<string>(getAzureDeployment() || '');
@@ -28,6 +30,9 @@ export default function ApiKeySettings({ onApiKeyChange }: ApiKeySettingsProps)
       onApiKeyChange?.(false);
     }
     setProviderState(getProvider());
+    setProfileState(getProfile() || '');
+    // Profiles are optional server configuration; without any the manual settings below apply
+    videoAPI.listProfiles().then(setProfiles).catch(() => setProfiles([]));
     setAzureEndpointState(getAzureEndpoint() || '');
     setAzureVersionState(getAzureVersion() || '2024-02-15-preview');
     setAzureDeploymentState(getAzureDeployment() || '');
@@ -38,8 +43,20 @@ export default function ApiKeySettings({ onApiKeyChange }: ApiKeySettingsProps)
       toast.error('请输入 API Key');
       return;
     }
-    if (provider === 'openai' && !apiKey.startsWith('sk-')) {
-      toast.error('OpenAI Key 应以 sk- 开头');
+    if (profile) {
+      setProfile(profile);
+      setApiKey(apiKey);
+      setHasStoredKey(true);
+      toast.success('API Key 已保存！');
+      onApiKeyChange?.(true);
+      return;
+    }
+    if (provider === 'openai' && !apiKey.startsWith('sk-') && !apiKey.startsWith('spk_')) {
+      toast.error('OpenAI Key 应以 sk- 开头（代理签发的 Key 以 spk_ 开头）');
+      return;
+    }
+    if (provider === 'auto' && !apiKey.startsWith('spk_')) {
+      toast.error('自动选择后端需要代理签发的 Key（以 spk_ 开头）');
       return;
     }
 
@@ -48,6 +65,10 @@ export default function ApiKeySettings({ onApiKeyChange }: ApiKeySettingsProps)
         toast.error('请输入 Azure OpenAI Endpoint');
         return;
       }
+      if (!azureEndpoint.trim().startsWith('https://')) {
+        toast.error('Azure OpenAI Endpoint 必须以 https:// 开头');
+        return;
+      }
       if (!azureVersion.trim()) {
         toast.error('请输入 Azure API Version');
         return;
@@ -61,6 +82,7 @@ export default function ApiKeySettings({ onApiKeyChange }: ApiKeySettingsProps)
       setAzureDeployment(azureDeployment.trim());
     }
 
+    setProfile(null);
     setProvider(provider);
     setApiKey(apiKey);
     setHasStoredKey(true);
@@ -100,6 +122,7 @@ export default function ApiKeySettings({ onApiKeyChange }: ApiKeySettingsProps)
               <li>• API Key 仅保存在你的浏览器本地存储中</li>
               <li>• 不会上传到服务器或与他人共享</li>
               <li>• 请妥善保管你的 API Key，不要泄露给他人</li>
+              <li>• 推荐使用管理员签发的代理 Key（spk_ 开头），真实的上游 Key 只保存在服务器上</li>
             </ul>
           </div>
         </div>
@@ -107,15 +130,39 @@ export default function ApiKeySettings({ onApiKeyChange }: ApiKeySettingsProps)
 
       {/* Provider & API Key */}
       <div className="space-y-3">
-        <label className="block text-sm font-medium text-gray-300">服务提供方</label>
-        <select
-          value={provider}
-          onChange={(e) => setProviderState(e.target.value as any)}
-          className="w-full px-3 py-2 bg-black/30 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-green-500"
-        >
-          <option value="openai">OpenAI</option>
-          <option value="azure">Azure OpenAI</option>
-        </select>
+        {profiles.length > 0 && (
+          <>
+            <label className="block text-sm font-medium text-gray-300">服务端配置（Profile）</label>
+            <select
+              value={profile}
+              onChange={(e) => setProfileState(e.target.value)}
+              className="w-full px-3 py-2 bg-black/30 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-green-500"
+            >
+              <option value="">不使用（手动选择服务提供方）</option>
+              {profiles.map((p) => (
+                <option key={p.name} value={p.name}>
+                  {p.name}（{p.provider}{p.models?.length ? `：${p.models.join(', ')}` : ''}）
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+
+        {!profile && (
+          <>
+            <label className="block text-sm font-medium text-gray-300">服务提供方</label>
+            <select
+              value={provider}
+              onChange={(e) => setProviderState(e.target.value as any)}
+              className="w-full px-3 py-2 bg-black/30 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-green-500"
+            >
+              <option value="openai">OpenAI</option>
+              <option value="azure">Azure OpenAI</option>
+              <option value="mock">Mock（本地模拟，不消耗额度）</option>
+              <option value="auto">自动（服务端选择，失败时切换后端）</option>
+            </select>
+          </>
+        )}
 
         <label className="block text-sm font-medium text-gray-300">
           你的 API Key {hasStoredKey && <span className="text-green-400">✓ 已保存</span>}
@@ -127,7 +174,7 @@ export default function ApiKeySettings({ onApiKeyChange }: ApiKeySettingsProps)
               type={showKey ? 'text' : 'password'}
               value={apiKey}
               onChange={(e) => setApiKeyState(e.target.value)}
-              placeholder={provider === 'openai' ? 'sk-xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx' : 'Azure Key（不以 sk- 开头）'}
+              placeholder={provider === 'openai' ? 'sk-... 或代理 Key spk_...' : provider === 'mock' ? '任意字符串（mock 不校验）' : provider === 'auto' ? '代理 Key spk_...' : 'Azure Key（不以 sk- 开头）'}
               className="w-full px-4 py-3 pr-12 bg-black/30 border border-gray-600 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent font-mono text-sm"
             />
             <button
@@ -140,7 +187,7 @@ export default function ApiKeySettings({ onApiKeyChange }: ApiKeySettingsProps)
           </div>
         </div>
 
-        {provider === 'azure' && (
+        {provider === 'azure' && !profile && (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
             <div>
               <label className="block text-sm font-medium text-gray-300">Azure Endpoint</label>
@@ -1,15 +1,16 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { videoAPI, GenerateVideoParams, VideoResponse, getProvider, getAzureEndpoint, getAzureVersion, getAzureDeployment, upsertStoredVideo, ProviderMeta } from '@/lib/api';
+import { useEffect, useRef, useState } from 'react';
+import { videoAPI, GenerateVideoParams, VideoResponse, getProvider, getProfile, getAzureEndpoint, getAzureVersion, getAzureDeployment, upsertStoredVideo, removeStoredVideo, ProviderMeta, JobUpdate } from '@/lib/api';
 import toast from 'react-hot-toast';
 import { Sparkles, Loader2, Download } from 'lucide-react';
+import VideoPlayer from './VideoPlayer';
 
 export default function VideoGenerator() {
   const [prompt, setPrompt] = useState('');
   const [loading, setLoading] = useState(false);
   const [videoResult, setVideoResult] = useState<VideoResponse | null>(null);
-  const [pollInterval, setPollInterval] = useState<NodeJS.Timeout | null>(null);
+  const stopWatchingRef = useRef<(() => void) | null>(null);
 
   const [options, setOptions] = useState<Partial<GenerateVideoParams>>({
     model: 'sora-2',
@@ -20,20 +21,23 @@ export default function VideoGenerator() {
 
   useEffect(() => {
     const provider = getProvider();
-    if (provider === 'azure') {
+    if (provider === 'azure' && !getProfile()) {
       const dep = getAzureDeployment();
       if (dep) setOptions((prev) => ({ ...prev, model: dep }));
     }
   }, []);
 
-  // Stop any ongoing polling when component unmounts
+  // Close any open status stream when component unmounts
   useEffect(() => {
     return () => {
-      if (pollInterval) {
-        clearInterval(pollInterval);
-      }
+      stopWatchingRef.current?.();
     };
-  }, [pollInterval]);
+  }, []);
+
+  const stopWatching = () => {
+    stopWatchingRef.current?.();
+    stopWatchingRef.current = null;
+  };
 
   const stringifyError = (err: any): string => {
     if (err == null) return '';
@@ -46,53 +50,45 @@ export default function VideoGenerator() {
     }
   };
 
-  const pollVideoStatus = async (videoId: string) => {
-    try {
-      const result = await videoAPI.getVideoStatus(videoId);
-      setVideoResult(result);
-      // Persist latest status to local history
-      const meta: ProviderMeta = {
-        provider: getProvider(),
-        azureEndpoint: getAzureEndpoint(),
-        azureVersion: getAzureVersion(),
-        azureDeployment: getAzureDeployment(),
-      };
-      upsertStoredVideo(result, meta);
-
-      if (result.status === 'completed') {
-        toast.success('视频生成完成！');
-        if (pollInterval) {
-          clearInterval(pollInterval);
-          setPollInterval(null);
+  const watchVideoStatus = (video: VideoResponse, meta: ProviderMeta) => {
+    let latest = video;
+    stopWatchingRef.current = videoAPI.subscribeToVideo(
+      video.id,
+      (job: JobUpdate) => {
+        // A request held by the backend reports its real video id once it reaches upstream
+        if (job.id !== latest.id) {
+          removeStoredVideo(latest.id);
+          latest = { ...latest, id: job.id };
         }
-        setLoading(false);
-      } else if (result.status === 'failed') {
-        toast.error('视频生成失败：' + (result.error || '未知错误'));
-        if (pollInterval) {
-          clearInterval(pollInterval);
-          setPollInterval(null);
+        latest = {
+          ...latest,
+          status: job.status === 'cancelled' ? 'failed' : job.status,
+          progress: job.progress,
+          error: job.error ?? latest.error,
+        };
+        setVideoResult(latest);
+        // Persist latest status to local history
+        upsertStoredVideo(latest, meta);
+
+        if (job.status === 'completed') {
+          toast.success('视频生成完成！');
+          stopWatchingRef.current = null;
+          setLoading(false);
+        } else if (job.status === 'failed' || job.status === 'cancelled') {
+          toast.error('视频生成失败：' + (job.error || '未知错误'));
+          stopWatchingRef.current = null;
+          setLoading(false);
         }
-        setLoading(false);
-      }
-    } catch (error: any) {
-      console.error('Error polling video status:', error);
-      const status = error?.response?.status;
-      if (status === 404) {
-        // Video deleted on server; stop polling and remove locally
-        try {
-          const { removeStoredVideo } = await import('@/lib/api');
-          removeStoredVideo(videoId);
-        } catch {}
-        toast.error('视频已被删除');
-      } else {
+      },
+      (status) => {
+        // Transient errors are retried by the stream itself; give up on client errors only
+        if (!status || status >= 500) return;
+        console.error('Error subscribing to video status:', status);
         toast.error('获取视频状态失败');
-      }
-      if (pollInterval) {
-        clearInterval(pollInterval);
-        setPollInterval(null);
-      }
-      setLoading(false);
-    }
+        stopWatching();
+        setLoading(false);
+      },
+    );
   };
 
   const handleGenerate = async () => {
@@ -101,11 +97,8 @@ export default function VideoGenerator() {
       return;
     }
 
-    // Clear previous polling timer if any
-    if (pollInterval) {
-      clearInterval(pollInterval);
-      setPollInterval(null);
-    }
+    // Close previous status stream if any
+    stopWatching();
 
     setLoading(true);
     setVideoResult(null);
@@ -126,6 +119,7 @@ export default function VideoGenerator() {
       // Save to local history immediately
       const meta: ProviderMeta = {
         provider: getProvider(),
+        profile: getProfile(),
         azureEndpoint: getAzureEndpoint(),
         azureVersion: getAzureVersion(),
         azureDeployment: getAzureDeployment(),
@@ -133,11 +127,8 @@ export default function VideoGenerator() {
       upsertStoredVideo({ ...result, prompt }, meta);
       toast.success('视频生成任务已提交！');
 
-      // Start polling for status
-      const interval = setInterval(() => {
-        pollVideoStatus(result.id);
-      }, 3000);
-      setPollInterval(interval);
+      // Follow status updates pushed by the backend
+      watchVideoStatus({ ...result, prompt }, meta);
     } catch (error: any) {
       console.error('Error generating video:', error);
       toast.error(error.response?.data?.message || '生成视频失败');
@@ -149,8 +140,10 @@ export default function VideoGenerator() {
     switch (status) {
       case 'completed':
         return 'text-green-400';
+      case 'in_progress':
       case 'processing':
         return 'text-blue-400';
+      case 'pending_submit':
       case 'queued':
         return 'text-yellow-400';
       case 'failed':
@@ -164,8 +157,11 @@ export default function VideoGenerator() {
     switch (status) {
       case 'completed':
         return '已完成';
+      case 'in_progress':
       case 'processing':
         return '处理中';
+      case 'pending_submit':
+        return '等待提交';
       case 'queued':
         return '排队中';
       case 'failed':
@@ -294,6 +290,9 @@ export default function VideoGenerator() {
                 <p className="text-sm text-gray-400">状态</p>
                 <p className={`text-lg font-semibold ${getStatusColor(videoResult.status)}`}>
                   {getStatusText(videoResult.status)}
+                  {videoResult.status !== 'completed' && videoResult.progress != null && (
+                    <span className="ml-2 text-sm font-normal text-gray-400">{videoResult.progress}%</span>
+                  )}
                 </p>
               </div>
               <div>
@@ -311,14 +310,14 @@ export default function VideoGenerator() {
 
             {videoResult.status === 'completed' && (
               <div className="space-y-3">
-                <video
-                  src={videoAPI.getVideoContentUrlFor(videoResult.id, {
+                <VideoPlayer
+                  videoId={videoResult.id}
+                  meta={{
                     provider: getProvider(),
                     azureEndpoint: getAzureEndpoint(),
                     azureVersion: getAzureVersion(),
                     azureDeployment: getAzureDeployment(),
-                  })}
-                  controls
+                  }}
                   className="w-full rounded-xl border border-gray-600"
                 />
                 <button
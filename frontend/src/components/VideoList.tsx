@@ -1,10 +1,11 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { videoAPI, StoredVideo, getStoredVideos, mergeRemoteIntoStored, removeStoredVideo, selectVideoForEditing, getProvider } from '@/lib/api';
+import { videoAPI, StoredVideo, getStoredVideos, mergeRemoteIntoStored, removeStoredVideo, selectVideoForEditing, getProvider, upsertStoredVideo, JobUpdate } from '@/lib/api';
 import toast from 'react-hot-toast';
 import { RefreshCw, Trash2, Download, Loader2, Copy, Edit3, XCircle } from 'lucide-react';
 import HoverTooltip from './HoverTooltip';
+import VideoPlayer from './VideoPlayer';
 
 export default function VideoList() {
   const [videos, setVideos] = useState<StoredVideo[]>([]);
@@ -25,11 +26,25 @@ export default function VideoList() {
     setLoading(true);
     try {
       // Load local history first for instant UI
-      setVideos(getStoredVideos());
+      const stored = getStoredVideos();
+      setVideos(stored);
       // Then fetch remote and merge into local history
       const response = await videoAPI.listVideos(20);
       const merged = mergeRemoteIntoStored(response.data || []);
       setVideos(merged);
+      // Requests held by the backend are not listed upstream; keep those still waiting (or
+      // failed before submission). Submitted ones are already in the listing under their real id.
+      const held = stored.filter((v) => v.status === 'pending_submit');
+      if (held.length === 0) return;
+      for (const video of held) {
+        try {
+          const latest = await videoAPI.getVideoStatus(video.id);
+          if (latest.id === video.id) upsertStoredVideo({ ...video, ...latest }, video.providerMeta);
+        } catch {
+          // No longer known to the backend (e.g. it restarted while the request waited)
+        }
+      }
+      setVideos(getStoredVideos());
     } catch (error: any) {
       console.error('Error loading videos:', error);
       toast.error('加载视频列表失败');
@@ -62,6 +77,28 @@ export default function VideoList() {
     loadVideos();
   }, []);
 
+  // Apply status/progress updates pushed by the backend instead of polling
+  useEffect(() => {
+    const stop = videoAPI.subscribeToAllVideos((job: JobUpdate) => {
+      setVideos((prev) => {
+        // Requests held by the backend were listed under their placeholder id until submitted
+        const current = prev.find((v) => v.id === job.id || (!!job.pendingId && v.id === job.pendingId));
+        if (!current) return prev;
+        if (current.id !== job.id) removeStoredVideo(current.id);
+        const updated: StoredVideo = {
+          ...current,
+          id: job.id,
+          status: job.status === 'cancelled' ? 'failed' : job.status,
+          progress: job.progress,
+          error: job.error ?? current.error,
+        };
+        upsertStoredVideo(updated, updated.providerMeta);
+        return prev.map((v) => (v.id === current.id ? updated : v));
+      });
+    });
+    return stop;
+  }, []);
+
   const handleDelete = async (videoId: string) => {
     if (!confirm('确定要删除这个视频吗？')) return;
 
@@ -83,13 +120,17 @@ export default function VideoList() {
     const badges = {
       completed: 'bg-green-500/20 text-green-400 border-green-500/30',
       processing: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+      in_progress: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
       queued: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+      pending_submit: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
       failed: 'bg-red-500/20 text-red-400 border-red-500/30',
     };
     const text = {
       completed: '已完成',
       processing: '处理中',
+      in_progress: '处理中',
       queued: '排队中',
+      pending_submit: '等待提交',
       failed: '失败',
     };
     const tooltip = (() => {
@@ -151,15 +192,22 @@ export default function VideoList() {
               {/* Video Preview */}
               <div className="aspect-video bg-black/50 flex items-center justify-center">
                 {video.status === 'completed' ? (
-                  <video
-                    src={videoAPI.getVideoContentUrlFor(video.id, video.providerMeta)}
-                    controls
+                  <VideoPlayer
+                    videoId={video.id}
+                    meta={video.providerMeta}
                     className="w-full h-full object-cover"
+                    posterOnly
                   />
                 ) : (
                   <div className="text-gray-500">
-                    {video.status === 'processing' && <Loader2 className="w-8 h-8 animate-spin" />}
+                    {(video.status === 'processing' || video.status === 'in_progress') && (
+                      <div className="flex flex-col items-center gap-2">
+                        <Loader2 className="w-8 h-8 animate-spin" />
+                        {video.progress != null && <span className="text-xs">{video.progress}%</span>}
+                      </div>
+                    )}
                     {video.status === 'queued' && <span>排队中...</span>}
+                    {video.status === 'pending_submit' && <span>等待提交...</span>}
                     {video.status === 'failed' && <span>生成失败</span>}
                   </div>
                 )}
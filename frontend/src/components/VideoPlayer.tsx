@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { videoAPI, ProviderMeta } from '@/lib/api';
+
+type VideoPlayerProps = {
+  videoId: string;
+  meta?: ProviderMeta;
+  className?: string;
+  // Show the thumbnail variant and defer loading the MP4 until playback starts (grids of cards)
+  posterOnly?: boolean;
+};
+
+// Plays a completed video through a short-lived signed content link (served inline, seekable via Range)
+export default function VideoPlayer({ videoId, meta, className, posterOnly }: VideoPlayerProps) {
+  const [src, setSrc] = useState<string | null>(null);
+  const [poster, setPoster] = useState<string | undefined>(undefined);
+  const [failed, setFailed] = useState(false);
+  const metaKey = JSON.stringify(meta ?? null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSrc(null);
+    setPoster(undefined);
+    setFailed(false);
+    const effectiveMeta: ProviderMeta | undefined = JSON.parse(metaKey) ?? undefined;
+    videoAPI
+      .getVideoContentUrlFor(videoId, effectiveMeta, { disposition: 'inline' })
+      .then((url) => {
+        if (!cancelled) setSrc(url);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+    if (posterOnly) {
+      // A missing poster is not fatal: the player just shows an empty frame until played
+      videoAPI
+        .getVideoContentUrlFor(videoId, effectiveMeta, { disposition: 'inline', variant: 'thumbnail' })
+        .then((url) => {
+          if (!cancelled) setPoster(url);
+        })
+        .catch(() => {});
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId, metaKey, posterOnly]);
+
+  if (failed) {
+    return <div className="text-gray-500 text-sm">视频加载失败</div>;
+  }
+  if (!src) {
+    return <Loader2 className="w-8 h-8 animate-spin text-gray-500" />;
+  }
+  return (
+    <video
+      src={src}
+      poster={poster}
+      preload={posterOnly ? 'none' : undefined}
+      controls
+      className={className}
+    />
+  );
+}
@@ -6,7 +6,8 @@ const API_URL = '';
 
 // Storage keys
 const API_KEY_STORAGE_KEY = 'sora_api_key';
-const PROVIDER_STORAGE_KEY = 'sora_provider'; // 'openai' | 'azure'
+const PROVIDER_STORAGE_KEY = 'sora_provider'; // 'openai' | 'azure' | 'mock' | 'auto'
+const PROFILE_STORAGE_KEY = 'sora_provider_profile';
 const AZURE_ENDPOINT_STORAGE_KEY = 'sora_azure_endpoint';
 const AZURE_VERSION_STORAGE_KEY = 'sora_azure_version';
 const AZURE_DEPLOYMENT_STORAGE_KEY = 'sora_azure_deployment';
@@ -29,16 +30,31 @@ export const removeApiKey = (): void => {
   localStorage.removeItem(API_KEY_STORAGE_KEY);
 };
 
-export const getProvider = (): 'openai' | 'azure' => {
+// 'auto' lets the backend pick (and fall back between) providers; needs a proxy-issued key
+export type ProviderName = 'openai' | 'azure' | 'mock' | 'auto';
+
+export const getProvider = (): ProviderName => {
   if (typeof window === 'undefined') return 'openai';
   return (localStorage.getItem(PROVIDER_STORAGE_KEY) as any) || 'openai';
 };
 
-export const setProvider = (provider: 'openai' | 'azure'): void => {
+export const setProvider = (provider: ProviderName): void => {
   if (typeof window === 'undefined') return;
   localStorage.setItem(PROVIDER_STORAGE_KEY, provider);
 };
 
+// Server-side provider profile; when set it replaces the provider and Azure settings
+export const getProfile = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(PROFILE_STORAGE_KEY) || null;
+};
+
+export const setProfile = (profile: string | null): void => {
+  if (typeof window === 'undefined') return;
+  if (profile) localStorage.setItem(PROFILE_STORAGE_KEY, profile);
+  else localStorage.removeItem(PROFILE_STORAGE_KEY);
+};
+
 export const getAzureEndpoint = (): string | null => {
   if (typeof window === 'undefined') return null;
   return localStorage.getItem(AZURE_ENDPOINT_STORAGE_KEY) || process.env.NEXT_PUBLIC_AZURE_OPENAI_ENDPOINT || null;
@@ -76,22 +92,36 @@ export const api = axios.create({
   },
 });
 
-// Request interceptor to add API Key and provider headers
+// API key and provider headers shared by axios and streaming (fetch) requests
+const buildRequestHeaders = (): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  const apiKey = getApiKey();
+  if (apiKey) {
+    headers['x-api-key'] = apiKey;
+  }
+  const profile = getProfile();
+  if (profile) {
+    headers['x-provider-profile'] = profile;
+    return headers;
+  }
+  const provider = getProvider();
+  headers['x-provider'] = provider;
+  if (provider === 'azure') {
+    const endpoint = getAzureEndpoint();
+    const version = getAzureVersion();
+    const deployment = getAzureDeployment();
+    if (endpoint) headers['x-azure-endpoint'] = endpoint;
+    if (version) headers['x-azure-version'] = version;
+    if (deployment) headers['x-azure-deployment'] = deployment;
+  }
+  return headers;
+};
+
+// Request interceptor to add API Key and provider headers (headers set on the request itself win)
 api.interceptors.request.use(
   (config) => {
-    const apiKey = getApiKey();
-    if (apiKey) {
-      config.headers['x-api-key'] = apiKey;
-    }
-    const provider = getProvider();
-    config.headers['x-provider'] = provider;
-    if (provider === 'azure') {
-      const endpoint = getAzureEndpoint();
-      const version = getAzureVersion();
-      const deployment = getAzureDeployment();
-      if (endpoint) config.headers['x-azure-endpoint'] = endpoint;
-      if (version) config.headers['x-azure-version'] = version;
-      if (deployment) config.headers['x-azure-deployment'] = deployment;
+    for (const [key, value] of Object.entries(buildRequestHeaders())) {
+      if (config.headers[key] == null) config.headers[key] = value;
     }
     return config;
   },
@@ -109,23 +139,66 @@ export interface VideoResponse {
   id: string;
   object: string;
   created: number;
-  status: 'queued' | 'processing' | 'completed' | 'failed';
+  // 'pending_submit': held by the backend until the upstream account has capacity
+  status: 'pending_submit' | 'queued' | 'in_progress' | 'processing' | 'completed' | 'failed';
+  progress?: number;
   prompt?: string;
   url?: string;
   error?: string;
 }
 
 export interface ProviderMeta {
-  provider: 'openai' | 'azure';
+  provider: ProviderName;
+  profile?: string | null;
   azureEndpoint?: string | null;
   azureVersion?: string | null;
   azureDeployment?: string | null;
 }
 
+// Profile as listed by GET /api/profiles
+export interface ProviderProfile {
+  name: string;
+  provider: string;
+  deployment?: string;
+  models?: string[];
+}
+
+export interface ContentLink {
+  object: 'video.content_link';
+  url: string;
+  expires_at: number;
+}
+
+// 'inline' for in-page playback, 'attachment' (default) to save as a file
+export type ContentDisposition = 'inline' | 'attachment';
+
+// MP4 (default), a still poster image, or a strip of preview frames
+export type ContentVariant = 'video' | 'thumbnail' | 'spritesheet';
+
+export interface ContentLinkOptions {
+  disposition?: ContentDisposition;
+  variant?: ContentVariant;
+}
+
 export interface StoredVideo extends VideoResponse {
   providerMeta?: ProviderMeta;
 }
 
+// Job record as pushed by the backend over Server-Sent Events
+export interface JobUpdate {
+  id: string;
+  provider: string;
+  status: 'pending_submit' | 'queued' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+  progress?: number;
+  error?: string;
+  prompt?: string;
+  // Placeholder id the request waited under before it reached upstream
+  pendingId?: string;
+}
+
+export const isTerminalStatus = (status?: string): boolean =>
+  status === 'completed' || status === 'failed' || status === 'cancelled';
+
 // -------- Local history helpers --------
 const safeParse = <T>(raw: string | null): T | null => {
   if (!raw) return null;
@@ -197,8 +270,81 @@ export const getSelectedVideoId = (): string | null => {
   return localStorage.getItem(SELECTED_VIDEO_ID_STORAGE_KEY);
 };
 
+// Signed content links are reused until shortly before they expire, so the browser cache
+// (keyed by URL) keeps serving posters and videos instead of refetching them on every render
+const CONTENT_LINK_REUSE_MARGIN_MS = 60_000;
+const contentLinkCache = new Map<string, { url: string; expiresAt: number }>();
+
+// -------- Event streams --------
+// EventSource cannot send the API key header, so streams are read with fetch instead.
+// The connection is re-opened after drops until the returned function is called.
+const openEventStream = (
+  path: string,
+  onJob: (job: JobUpdate) => void,
+  onError?: (status?: number) => void,
+): (() => void) => {
+  const controller = new AbortController();
+  let stopped = false;
+
+  const connect = async () => {
+    while (!stopped) {
+      try {
+        const res = await fetch(`${API_URL}${path}`, {
+          headers: { ...buildRequestHeaders(), Accept: 'text/event-stream' },
+          signal: controller.signal,
+        });
+        if (!res.ok || !res.body) {
+          onError?.(res.status);
+          if (res.status >= 400 && res.status < 500) return;
+        } else {
+          const reader = res.body.getReader();
+          const decoder = new TextDecoder();
+          let buffer = '';
+          for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            let boundary = buffer.indexOf('\n\n');
+            while (boundary >= 0) {
+              const frame = buffer.slice(0, boundary);
+              buffer = buffer.slice(boundary + 2);
+              boundary = buffer.indexOf('\n\n');
+              let event = 'message';
+              const data: string[] = [];
+              for (const line of frame.split('\n')) {
+                if (line.startsWith('event:')) event = line.slice(6).trim();
+                else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+              }
+              if (event !== 'job' || data.length === 0) continue;
+              const job = safeParse<JobUpdate>(data.join('\n'));
+              if (job) onJob(job);
+            }
+          }
+        }
+      } catch {
+        if (stopped) return;
+        onError?.();
+      }
+      // Stream ended (e.g. job finished or connection dropped); back off briefly before reconnecting
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+    }
+  };
+
+  connect();
+  return () => {
+    stopped = true;
+    controller.abort();
+  };
+};
+
 // -------- URL builders --------
 export const videoAPI = {
+  // Provider profiles defined on the server
+  listProfiles: async (): Promise<ProviderProfile[]> => {
+    const response = await api.get<{ data: ProviderProfile[] }>('/api/profiles');
+    return response.data.data;
+  },
+
   // Generate a new video
   generateVideo: async (params: GenerateVideoParams): Promise<VideoResponse> => {
     const response = await api.post('/api/videos/generate', params);
@@ -244,59 +390,65 @@ export const videoAPI = {
     return response.data;
   },
 
-  // Build a proxied content URL for a completed video
-  getVideoContentUrl: (videoId: string): string => {
-    const base = `${API_URL}/api/videos/${videoId}/content`;
-    const provider = getProvider();
-    const params = new URLSearchParams();
-    const apiKey = getApiKey();
-    if (apiKey) params.set('apiKey', apiKey);
-    if (provider === 'azure') {
-      const endpoint = getAzureEndpoint();
-      const version = getAzureVersion();
-      const deployment = getAzureDeployment();
-      params.set('provider', 'azure');
-      if (endpoint) params.set('azureEndpoint', endpoint);
-      if (version) params.set('azureVersion', version);
-      if (deployment) params.set('azureDeployment', deployment);
-    }
-    const qs = params.toString();
-    return qs ? `${base}?${qs}` : base;
+  // Subscribe to status/progress updates of one video until it is terminal; returns an unsubscribe function
+  subscribeToVideo: (
+    videoId: string,
+    onJob: (job: JobUpdate) => void,
+    onError?: (status?: number) => void,
+  ): (() => void) => {
+    const stop = openEventStream(
+      `/api/videos/${videoId}/events`,
+      (job) => {
+        onJob(job);
+        if (isTerminalStatus(job.status)) stop();
+      },
+      onError,
+    );
+    return stop;
   },
 
-  // Build content URL using explicit per-video provider meta
-  getVideoContentUrlFor: (videoId: string, meta?: ProviderMeta): string => {
-    const base = `${API_URL}/api/videos/${videoId}/content`;
-    const params = new URLSearchParams();
-    const apiKey = getApiKey();
-    if (apiKey) params.set('apiKey', apiKey);
-    // Fallback: if no meta provided, use current provider settings
-    const effectiveMeta: ProviderMeta | undefined = (() => {
-      if (meta) return meta;
-      const current = getProvider();
-      if (current === 'azure') {
-        return {
-          provider: 'azure',
-          azureEndpoint: getAzureEndpoint(),
-          azureVersion: getAzureVersion(),
-          azureDeployment: getAzureDeployment(),
-        };
+  // Subscribe to updates of every job created with the current API key
+  subscribeToAllVideos: (onJob: (job: JobUpdate) => void): (() => void) =>
+    openEventStream('/api/events', onJob),
+
+  // Request a short-lived signed content URL for a completed video (uses current provider settings)
+  getVideoContentUrl: (videoId: string): Promise<string> => videoAPI.getVideoContentUrlFor(videoId),
+
+  // Request a short-lived signed content URL using explicit per-video provider meta.
+  // The URL carries a token instead of the API key, so it is safe for <video src> and <a href>.
+  getVideoContentUrlFor: async (
+    videoId: string,
+    meta?: ProviderMeta,
+    options: ContentLinkOptions = {},
+  ): Promise<string> => {
+    const headers: Record<string, string> = {};
+    if (meta?.profile) {
+      headers['x-provider-profile'] = meta.profile;
+    } else if (meta) {
+      headers['x-provider'] = meta.provider;
+      if (meta.provider === 'azure') {
+        if (meta.azureEndpoint) headers['x-azure-endpoint'] = meta.azureEndpoint;
+        if (meta.azureVersion) headers['x-azure-version'] = meta.azureVersion;
+        if (meta.azureDeployment) headers['x-azure-deployment'] = meta.azureDeployment;
       }
-      return undefined;
-    })();
-    if (effectiveMeta && effectiveMeta.provider === 'azure') {
-      params.set('provider', 'azure');
-      if (effectiveMeta.azureEndpoint) params.set('azureEndpoint', effectiveMeta.azureEndpoint);
-      if (effectiveMeta.azureVersion) params.set('azureVersion', effectiveMeta.azureVersion);
-      if (effectiveMeta.azureDeployment) params.set('azureDeployment', effectiveMeta.azureDeployment);
     }
-    const qs = params.toString();
-    return qs ? `${base}?${qs}` : base;
+    const cacheKey = JSON.stringify([videoId, { ...buildRequestHeaders(), ...headers }, options.variant, options.disposition]);
+    const cached = contentLinkCache.get(cacheKey);
+    if (cached && cached.expiresAt - CONTENT_LINK_REUSE_MARGIN_MS > Date.now()) return cached.url;
+
+    const response = await api.post<ContentLink>(
+      `/api/videos/${videoId}/content-link`,
+      options,
+      { headers },
+    );
+    const url = `${API_URL}${response.data.url}`;
+    contentLinkCache.set(cacheKey, { url, expiresAt: response.data.expires_at * 1000 });
+    return url;
   },
 
   // Programmatic download: fetch blob and return it (caller handles save)
   downloadVideoBlob: async (videoId: string, meta?: ProviderMeta): Promise<Blob> => {
-    const url = videoAPI.getVideoContentUrlFor(videoId, meta);
+    const url = await videoAPI.getVideoContentUrlFor(videoId, meta);
     const res = await fetch(url, {
       method: 'GET',
     });